@@ -1,15 +1,24 @@
-import { Switch, Route } from "wouter";
+import { Switch, Route, Redirect } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import WorkflowBuilder from "@/pages/workflow-builder";
+import Workflows from "@/pages/workflows";
+import Executions from "@/pages/executions";
+import ExecutionRun from "@/pages/execution-run";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={WorkflowBuilder} />
+      <Route path="/">
+        <Redirect to="/workflows" />
+      </Route>
+      <Route path="/workflows" component={Workflows} />
+      <Route path="/workflows/:id" component={WorkflowBuilder} />
+      <Route path="/workflows/:id/executions" component={Executions} />
+      <Route path="/workflows/:id/executions/:executionId" component={ExecutionRun} />
       <Route component={NotFound} />
     </Switch>
   );
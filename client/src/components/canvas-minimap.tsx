@@ -0,0 +1,121 @@
+import React from "react";
+import { type WorkflowNode } from "@shared/schema";
+import {
+  NODE_HEIGHT,
+  NODE_WIDTH,
+  getNodesBounds,
+  getVisibleBounds,
+  unionBounds,
+  type Point,
+  type Size,
+  type Viewport
+} from "@/lib/canvas-viewport";
+
+const MINIMAP_WIDTH = 200;
+const MINIMAP_HEIGHT = 140;
+// World units kept around the nodes and the visible area
+const MINIMAP_PADDING = 40;
+
+interface CanvasMinimapProps {
+  nodes: WorkflowNode[];
+  viewport: Viewport;
+  // Screen size of the canvas
+  size: Size;
+  nodeStatuses?: Record<string, string>;
+  // Center the canvas on a world point
+  onNavigate: (point: Point) => void;
+}
+
+function getNodeFillClass(status?: string) {
+  switch (status) {
+    case "running":
+      return "fill-warning";
+    case "success":
+      return "fill-success";
+    case "error":
+      return "fill-destructive";
+    default:
+      return "fill-muted-foreground/40";
+  }
+}
+
+/**
+ * Overview of the whole workflow with the visible area outlined. Click or
+ * drag to move the canvas.
+ */
+export function CanvasMinimap({ nodes, viewport, size, nodeStatuses, onNavigate }: CanvasMinimapProps) {
+  const visible = getVisibleBounds(viewport, size);
+  const nodesBounds = getNodesBounds(nodes);
+  const content = nodesBounds ? unionBounds(nodesBounds, visible) : visible;
+  const world = {
+    x: content.x - MINIMAP_PADDING,
+    y: content.y - MINIMAP_PADDING,
+    width: content.width + MINIMAP_PADDING * 2,
+    height: content.height + MINIMAP_PADDING * 2
+  };
+  const scale = Math.min(MINIMAP_WIDTH / world.width, MINIMAP_HEIGHT / world.height);
+  // Center the world inside the minimap
+  const offsetX = (MINIMAP_WIDTH - world.width * scale) / 2;
+  const offsetY = (MINIMAP_HEIGHT - world.height * scale) / 2;
+
+  const toMinimap = (point: Point): Point => ({
+    x: (point.x - world.x) * scale + offsetX,
+    y: (point.y - world.y) * scale + offsetY
+  });
+
+  const navigate = (e: React.PointerEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onNavigate({
+      x: (e.clientX - rect.left - offsetX) / scale + world.x,
+      y: (e.clientY - rect.top - offsetY) / scale + world.y
+    });
+  };
+
+  const visibleTopLeft = toMinimap(visible);
+
+  return (
+    <div
+      className="absolute bottom-4 right-4 bg-card/90 border rounded-lg shadow-lg overflow-hidden"
+      style={{ zIndex: 4 }}
+      onPointerDown={(e) => e.stopPropagation()}
+      data-testid="canvas-minimap"
+    >
+      <svg
+        width={MINIMAP_WIDTH}
+        height={MINIMAP_HEIGHT}
+        className="block cursor-pointer touch-none"
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          navigate(e);
+        }}
+        onPointerMove={(e) => {
+          if (e.currentTarget.hasPointerCapture(e.pointerId)) navigate(e);
+        }}
+      >
+        {nodes.map(node => {
+          const topLeft = toMinimap(node.position);
+          return (
+            <rect
+              key={node.id}
+              x={topLeft.x}
+              y={topLeft.y}
+              width={NODE_WIDTH * scale}
+              height={NODE_HEIGHT * scale}
+              rx={2}
+              className={getNodeFillClass(nodeStatuses?.[node.id])}
+            />
+          );
+        })}
+        <rect
+          x={visibleTopLeft.x}
+          y={visibleTopLeft.y}
+          width={visible.width * scale}
+          height={visible.height * scale}
+          className="fill-primary/10 stroke-primary"
+          strokeWidth={1}
+          data-testid="minimap-viewport"
+        />
+      </svg>
+    </div>
+  );
+}
@@ -1,35 +1,54 @@
-import React from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import React, { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { apiRequest } from "@/lib/queryClient";
 import { type Execution } from "@shared/schema";
+import { type ExecutionStream } from "@/hooks/use-execution-stream";
+import { useToast } from "@/hooks/use-toast";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { X, Square } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { X, Square, RotateCcw, RefreshCw, Workflow as WorkflowIcon } from "lucide-react";
 
 interface ExecutionModalProps {
-  executionId: string;
+  stream: ExecutionStream;
   isOpen: boolean;
   onClose: () => void;
+  // Offer to open the run on a canvas of the version it executed
+  showRunLink?: boolean;
+  // Offers retry and re-run; called with the execution they start
+  onExecutionStarted?: (execution: Execution) => void;
 }
 
-export function ExecutionModal({ executionId, isOpen, onClose }: ExecutionModalProps) {
-  // Fetch execution data with polling
-  const { data: execution, refetch } = useQuery<Execution>({
-    queryKey: ["/api/executions", executionId],
-    enabled: isOpen,
-  });
-
-  // Set up polling for running executions
-  const pollingInterval = execution?.status === "running" ? 1000 : false;
+export function ExecutionModal({ stream, isOpen, onClose, showRunLink, onExecutionStarted }: ExecutionModalProps) {
+  // Execution state streamed live by the page's useExecutionStream
+  const { execution, connected } = stream;
+  const [useCurrentWorkflow, setUseCurrentWorkflow] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
 
-  // Stop execution mutation
+  // Stop execution mutation; the stream reports the stopped status
   const stopExecutionMutation = useMutation({
-    mutationFn: () => apiRequest("POST", `/api/executions/${executionId}/stop`),
-    onSuccess: () => {
-      refetch();
+    mutationFn: (executionId: string) => apiRequest("POST", `/api/executions/${executionId}/stop`),
+  });
+
+  // Retry resumes at the failed node; re-run starts over with the same input
+  const retryExecutionMutation = useMutation({
+    mutationFn: async ({ executionId, action }: { executionId: string; action: "retry" | "rerun" }) => {
+      const response = await apiRequest("POST", `/api/executions/${executionId}/${action}`, { useCurrentWorkflow });
+      return response.json();
+    },
+    onSuccess: (started: Execution, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/workflows"] });
+      onExecutionStarted?.(started);
+      toast({ title: "Success", description: action === "retry" ? "Retrying from the failed node" : "Workflow execution started" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to start workflow execution", variant: "destructive" });
     },
   });
+  const canRetry = execution?.status === "failed" || execution?.status === "stopped";
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -40,6 +59,7 @@ export function ExecutionModal({ executionId, isOpen, onClose }: ExecutionModalP
       case "failed":
         return "text-destructive";
       case "stopped":
+      case "missed":
         return "text-warning";
       default:
         return "text-muted-foreground";
@@ -56,6 +76,8 @@ export function ExecutionModal({ executionId, isOpen, onClose }: ExecutionModalP
         return "✗";
       case "stopped":
         return "⏸";
+      case "missed":
+        return "⚠";
       default:
         return "⏸";
     }
@@ -71,8 +93,19 @@ export function ExecutionModal({ executionId, isOpen, onClose }: ExecutionModalP
         <DialogHeader>
           <DialogTitle className="flex items-center justify-between">
             <span>Workflow Execution</span>
-            <div className={`text-sm ${getStatusColor(execution.status)}`}>
-              {getStatusIcon(execution.status)} {execution.status.toUpperCase()}
+            <div className="flex items-center gap-3">
+              {execution.status === "running" && (
+                <span
+                  className="text-xs text-muted-foreground"
+                  title={connected ? "Receiving live updates" : "Reconnecting to live updates"}
+                  data-testid="text-stream-state"
+                >
+                  {connected ? "● Live" : "○ Reconnecting..."}
+                </span>
+              )}
+              <div className={`text-sm ${getStatusColor(execution.status)}`}>
+                {getStatusIcon(execution.status)} {execution.status.toUpperCase()}
+              </div>
             </div>
           </DialogTitle>
         </DialogHeader>
@@ -94,14 +127,28 @@ export function ExecutionModal({ executionId, isOpen, onClose }: ExecutionModalP
                 </span>
               </div>
             )}
+            {execution.retryOf && (
+              <div className="col-span-2">
+                <span className="text-muted-foreground">Retry of:</span>
+                <span className="ml-2 font-mono text-xs" data-testid="text-retry-of">{execution.retryOf}</span>
+              </div>
+            )}
+            {execution.partial && (
+              <div className="col-span-2">
+                <span className="text-muted-foreground">Ran {execution.partial.mode === "upTo" ? "up to" : "from"}:</span>
+                <span className="ml-2 font-mono text-xs" data-testid="text-partial-node">{execution.partial.nodeId}</span>
+              </div>
+            )}
           </div>
 
-          {/* Current Node */}
-          {execution.currentNodeId && (
+          {/* Current Nodes */}
+          {(execution.currentNodeIds?.length || execution.currentNodeId) && (
             <div className="bg-primary/10 border border-primary/20 rounded-lg p-3">
               <div className="flex items-center gap-2">
                 <div className="w-2 h-2 bg-primary rounded-full animate-pulse" />
-                <span className="font-medium">Currently executing: {execution.currentNodeId}</span>
+                <span className="font-medium" data-testid="text-current-nodes">
+                  Currently executing: {(execution.currentNodeIds?.length ? execution.currentNodeIds : [execution.currentNodeId]).join(", ")}
+                </span>
               </div>
             </div>
           )}
@@ -115,8 +162,8 @@ export function ExecutionModal({ executionId, isOpen, onClose }: ExecutionModalP
                   {execution.logs.length === 0 ? (
                     <div className="text-muted-foreground">No logs yet...</div>
                   ) : (
-                    execution.logs.map((log, index) => (
-                      <div key={index} className={`
+                    execution.logs.map((log) => (
+                      <div key={log.sequence} className={`
                         ${log.level === 'error' ? 'text-destructive' : 
                           log.level === 'warn' ? 'text-warning' : 'text-muted-foreground'}
                       `}>
@@ -153,7 +200,7 @@ export function ExecutionModal({ executionId, isOpen, onClose }: ExecutionModalP
             {execution.status === "running" && (
               <Button
                 variant="outline"
-                onClick={() => stopExecutionMutation.mutate()}
+                onClick={() => stopExecutionMutation.mutate(execution.id)}
                 disabled={stopExecutionMutation.isPending}
                 data-testid="button-stop-execution"
               >
@@ -161,10 +208,54 @@ export function ExecutionModal({ executionId, isOpen, onClose }: ExecutionModalP
                 {stopExecutionMutation.isPending ? "Stopping..." : "Stop Execution"}
               </Button>
             )}
+            {onExecutionStarted && execution.status !== "running" && (
+              <div className="flex items-center gap-2">
+                {canRetry && (
+                  <Button
+                    variant="outline"
+                    onClick={() => retryExecutionMutation.mutate({ executionId: execution.id, action: "retry" })}
+                    disabled={retryExecutionMutation.isPending}
+                    title="Reuse the results of nodes that succeeded and run again from the failed node"
+                    data-testid="button-retry-execution"
+                  >
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    Retry
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  onClick={() => retryExecutionMutation.mutate({ executionId: execution.id, action: "rerun" })}
+                  disabled={retryExecutionMutation.isPending}
+                  title="Run every node again with the same trigger input"
+                  data-testid="button-rerun-execution"
+                >
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                  Re-run
+                </Button>
+                <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Checkbox
+                    checked={useCurrentWorkflow}
+                    onCheckedChange={(checked) => setUseCurrentWorkflow(checked === true)}
+                    data-testid="checkbox-use-current-workflow"
+                  />
+                  Use current workflow
+                </label>
+              </div>
+            )}
+          </div>
+          <div className="flex gap-2">
+            {showRunLink && (
+              <Button variant="outline" asChild data-testid="button-open-run">
+                <Link href={`/workflows/${execution.workflowId}/executions/${execution.id}`}>
+                  <WorkflowIcon className="w-4 h-4 mr-2" />
+                  Open Run
+                </Link>
+              </Button>
+            )}
+            <Button onClick={onClose} data-testid="button-close-modal">
+              Close
+            </Button>
           </div>
-          <Button onClick={onClose} data-testid="button-close-modal">
-            Close
-          </Button>
         </DialogFooter>
       </DialogContent>
     </Dialog>
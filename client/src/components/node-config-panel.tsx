@@ -1,12 +1,16 @@
 import React, { useState } from "react";
-import { type WorkflowNode, type Workflow } from "@shared/schema";
+import { useQuery } from "@tanstack/react-query";
+import { type WorkflowNode, type Workflow, type NodeSettings, type NodeRetrySettings, type NodeErrorKind, type NodeErrorMode } from "@shared/schema";
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetFooter } from "@/components/ui/sheet";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { X, Save } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Separator } from "@/components/ui/separator";
+import { NodeDataInspector } from "@/components/node-data-inspector";
+import { X, Save, Table2 } from "lucide-react";
 
 interface NodeConfigPanelProps {
   nodeId: string;
@@ -19,13 +23,23 @@ interface NodeConfigPanelProps {
 export function NodeConfigPanel({ nodeId, workflow, isOpen, onClose, onSave }: NodeConfigPanelProps) {
   const node = workflow.nodes.find(n => n.id === nodeId);
   const [params, setParams] = useState(node?.params || {});
+  const [showData, setShowData] = useState(false);
+  const [settings, setSettings] = useState<NodeSettings>(node?.settings || {});
+  const [statusCodesText, setStatusCodesText] = useState(
+    node?.settings?.retry?.retryOnStatusCodes?.join(", ") ?? ""
+  );
+
+  const { data: schedules } = useQuery<{ nextRuns: Record<string, string | undefined> }>({
+    queryKey: ["/api/workflows", workflow.id, "schedules"],
+    enabled: node?.type === "ScheduleTriggerNode" && !!workflow.active,
+  });
 
   if (!node) {
     return null;
   }
 
   const handleSave = () => {
-    const updatedNode = { ...node, params };
+    const updatedNode = { ...node, params, settings };
     onSave(updatedNode);
   };
 
@@ -33,6 +47,18 @@ export function NodeConfigPanel({ nodeId, workflow, isOpen, onClose, onSave }: N
     setParams(prev => ({ ...prev, [key]: value }));
   };
 
+  const handleRetryChange = <K extends keyof NodeRetrySettings>(key: K, value: NodeRetrySettings[K]) => {
+    setSettings(prev => ({ ...prev, retry: { ...prev.retry, [key]: value } }));
+  };
+
+  const parseNumber = (value: string) => (value === "" ? undefined : Number(value));
+
+  const renderExpressionHint = () => (
+    <div className="text-xs text-muted-foreground mt-1">
+      Supports expressions such as {`{{ $json.id }}`}, {`{{ $node["node-id"].json.field }}`} and {`{{ $env.NAME }}`}
+    </div>
+  );
+
   const renderFetchApiNodeConfig = () => (
     <div className="space-y-4">
       <div>
@@ -63,6 +89,7 @@ export function NodeConfigPanel({ nodeId, workflow, isOpen, onClose, onSave }: N
           placeholder="https://api.example.com/users"
           data-testid="input-url"
         />
+        {renderExpressionHint()}
       </div>
 
       <div>
@@ -118,6 +145,7 @@ export function NodeConfigPanel({ nodeId, workflow, isOpen, onClose, onSave }: N
           placeholder="Enter log message"
           data-testid="input-message"
         />
+        {renderExpressionHint()}
       </div>
     </div>
   );
@@ -130,6 +158,238 @@ export function NodeConfigPanel({ nodeId, workflow, isOpen, onClose, onSave }: N
     </div>
   );
 
+  const renderWebhookNodeConfig = () => {
+    const path = String(params.path || "").replace(/^\/+|\/+$/g, "") || node.id;
+    const authMode = params.authMode || "none";
+
+    return (
+      <div className="space-y-4">
+        <div>
+          <Label htmlFor="webhook-method" className="block text-sm font-medium mb-2">HTTP Method</Label>
+          <Select
+            value={params.method || "POST"}
+            onValueChange={(value) => handleParamChange("method", value)}
+          >
+            <SelectTrigger id="webhook-method" data-testid="select-webhook-method">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="GET">GET</SelectItem>
+              <SelectItem value="POST">POST</SelectItem>
+              <SelectItem value="PUT">PUT</SelectItem>
+              <SelectItem value="DELETE">DELETE</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div>
+          <Label htmlFor="webhook-path" className="block text-sm font-medium mb-2">Path</Label>
+          <Input
+            id="webhook-path"
+            value={params.path || ""}
+            onChange={(e) => handleParamChange("path", e.target.value)}
+            placeholder={node.id}
+            data-testid="input-webhook-path"
+          />
+          <div className="text-xs text-muted-foreground mt-1 break-all" data-testid="text-webhook-url">
+            {window.location.origin}/webhook/{path}
+          </div>
+        </div>
+
+        <div>
+          <Label htmlFor="webhook-auth" className="block text-sm font-medium mb-2">Authentication</Label>
+          <Select value={authMode} onValueChange={(value) => handleParamChange("authMode", value)}>
+            <SelectTrigger id="webhook-auth" data-testid="select-webhook-auth">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">None</SelectItem>
+              <SelectItem value="header">Header token</SelectItem>
+              <SelectItem value="basic">Basic auth</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {authMode === "header" && (
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="webhook-header-name" className="block text-sm font-medium mb-2">Header Name</Label>
+              <Input
+                id="webhook-header-name"
+                value={params.authHeaderName || ""}
+                onChange={(e) => handleParamChange("authHeaderName", e.target.value)}
+                placeholder="x-webhook-token"
+                data-testid="input-webhook-header-name"
+              />
+            </div>
+            <div>
+              <Label htmlFor="webhook-header-value" className="block text-sm font-medium mb-2">Header Value</Label>
+              <Input
+                id="webhook-header-value"
+                type="password"
+                value={params.authHeaderValue || ""}
+                onChange={(e) => handleParamChange("authHeaderValue", e.target.value)}
+                data-testid="input-webhook-header-value"
+              />
+            </div>
+          </div>
+        )}
+
+        {authMode === "basic" && (
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="webhook-username" className="block text-sm font-medium mb-2">Username</Label>
+              <Input
+                id="webhook-username"
+                value={params.authUsername || ""}
+                onChange={(e) => handleParamChange("authUsername", e.target.value)}
+                data-testid="input-webhook-username"
+              />
+            </div>
+            <div>
+              <Label htmlFor="webhook-password" className="block text-sm font-medium mb-2">Password</Label>
+              <Input
+                id="webhook-password"
+                type="password"
+                value={params.authPassword || ""}
+                onChange={(e) => handleParamChange("authPassword", e.target.value)}
+                data-testid="input-webhook-password"
+              />
+            </div>
+          </div>
+        )}
+
+        <div>
+          <Label htmlFor="webhook-response" className="block text-sm font-medium mb-2">Respond</Label>
+          <Select
+            value={params.responseMode || "immediately"}
+            onValueChange={(value) => handleParamChange("responseMode", value)}
+          >
+            <SelectTrigger id="webhook-response" data-testid="select-webhook-response">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="immediately">Immediately with the execution ID</SelectItem>
+              <SelectItem value="lastNode">When the workflow finishes, with the last node's output</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {renderActivationHint()}
+      </div>
+    );
+  };
+
+  const renderActivationHint = () => (
+    <div className="text-xs text-muted-foreground" data-testid="text-activation-hint">
+      {workflow.active
+        ? "This workflow is active, so this trigger is listening."
+        : "This trigger only fires while the workflow is active."}
+    </div>
+  );
+
+  const renderScheduleTriggerNodeConfig = () => {
+    const mode = params.mode || "cron";
+    const nextRun = schedules?.nextRuns[node.id];
+
+    return (
+      <div className="space-y-4">
+        <div>
+          <Label htmlFor="schedule-mode" className="block text-sm font-medium mb-2">Trigger</Label>
+          <Select value={mode} onValueChange={(value) => handleParamChange("mode", value)}>
+            <SelectTrigger id="schedule-mode" data-testid="select-schedule-mode">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="cron">Cron expression</SelectItem>
+              <SelectItem value="interval">Fixed interval</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {mode === "cron" ? (
+          <>
+            <div>
+              <Label htmlFor="cron-expression" className="block text-sm font-medium mb-2">Cron Expression</Label>
+              <Input
+                id="cron-expression"
+                value={params.cronExpression || ""}
+                onChange={(e) => handleParamChange("cronExpression", e.target.value)}
+                placeholder="0 9 * * MON-FRI"
+                className="font-mono"
+                data-testid="input-cron-expression"
+              />
+              <div className="text-xs text-muted-foreground mt-1">
+                minute hour day-of-month month day-of-week, or @hourly, @daily, @weekly
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="schedule-timezone" className="block text-sm font-medium mb-2">Timezone</Label>
+              <Input
+                id="schedule-timezone"
+                value={params.timezone || ""}
+                onChange={(e) => handleParamChange("timezone", e.target.value)}
+                placeholder="UTC"
+                data-testid="input-schedule-timezone"
+              />
+            </div>
+          </>
+        ) : (
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="interval-value" className="block text-sm font-medium mb-2">Every</Label>
+              <Input
+                id="interval-value"
+                type="number"
+                min={1}
+                value={params.intervalValue ?? ""}
+                onChange={(e) => handleParamChange("intervalValue", parseNumber(e.target.value))}
+                placeholder="5"
+                data-testid="input-interval-value"
+              />
+            </div>
+            <div>
+              <Label htmlFor="interval-unit" className="block text-sm font-medium mb-2">Unit</Label>
+              <Select
+                value={params.intervalUnit || "minutes"}
+                onValueChange={(value) => handleParamChange("intervalUnit", value)}
+              >
+                <SelectTrigger id="interval-unit" data-testid="select-interval-unit">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="seconds">Seconds</SelectItem>
+                  <SelectItem value="minutes">Minutes</SelectItem>
+                  <SelectItem value="hours">Hours</SelectItem>
+                  <SelectItem value="days">Days</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="prevent-overlap"
+            checked={Boolean(params.preventOverlap)}
+            onCheckedChange={(checked) => handleParamChange("preventOverlap", checked === true)}
+            data-testid="checkbox-prevent-overlap"
+          />
+          <Label htmlFor="prevent-overlap" className="text-sm text-muted-foreground">
+            Skip a run while the previous one is still in progress
+          </Label>
+        </div>
+
+        {renderActivationHint()}
+        {nextRun && (
+          <div className="text-xs text-muted-foreground" data-testid="text-next-run">
+            Next run: {new Date(nextRun).toLocaleString()}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   const renderIfNodeConfig = () => (
     <div className="space-y-4">
       <div>
@@ -138,11 +398,13 @@ export function NodeConfigPanel({ nodeId, workflow, isOpen, onClose, onSave }: N
           id="condition"
           value={params.condition || ""}
           onChange={(e) => handleParamChange("condition", e.target.value)}
-          placeholder="e.g., {{api_result.id}} === 1"
+          placeholder='e.g., {{api_result.id}} === 1 && contains(lower(name), "bob")'
           data-testid="input-condition"
         />
         <div className="text-xs text-muted-foreground mt-1">
-          Use {`{{variable}}`} syntax to reference data from previous nodes
+          Use {`{{variable}}`} syntax to reference data from previous nodes. Supports comparisons,
+          {" "}<code>&amp;&amp;</code>, <code>||</code>, arithmetic and helpers such as
+          {" "}<code>contains</code>, <code>lower</code>, <code>length</code> and <code>isEmpty</code>.
         </div>
       </div>
       <div className="space-y-2">
@@ -159,6 +421,145 @@ export function NodeConfigPanel({ nodeId, workflow, isOpen, onClose, onSave }: N
     </div>
   );
 
+  const retryErrorKinds: { kind: NodeErrorKind; label: string }[] = [
+    { kind: "timeout", label: "Timeouts" },
+    { kind: "network", label: "Network errors" },
+    { kind: "http", label: "Any HTTP error" },
+    { kind: "other", label: "Other errors" }
+  ];
+
+  const renderSettings = () => {
+    const retry = settings.retry || {};
+    const retryOnErrors = retry.retryOnErrors ?? ["timeout", "network"];
+
+    return (
+      <div className="space-y-4" data-testid="node-settings">
+        <div>
+          <div className="text-sm font-medium">Settings</div>
+          <div className="text-xs text-muted-foreground mt-1">
+            Choose how failures are handled and retry them with exponential backoff. One attempt means no retries.
+          </div>
+        </div>
+
+        <div>
+          <Label htmlFor="on-error" className="block text-sm font-medium mb-2">On Error</Label>
+          <Select
+            value={settings.onError || "stop"}
+            onValueChange={(value) => setSettings(prev => ({ ...prev, onError: value as NodeErrorMode }))}
+          >
+            <SelectTrigger id="on-error" data-testid="select-on-error">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="stop">Stop workflow</SelectItem>
+              <SelectItem value="continue">Continue with error as output</SelectItem>
+              <SelectItem value="errorOutput">Route to error output</SelectItem>
+            </SelectContent>
+          </Select>
+          {settings.onError === "errorOutput" && (
+            <div className="flex items-center gap-2 mt-2">
+              <div className="w-3 h-3 bg-warning rounded-full"></div>
+              <span className="text-sm text-muted-foreground">Error - when the node fails after all retries</span>
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="retry-max-attempts" className="block text-sm font-medium mb-2">Max Attempts</Label>
+            <Input
+              id="retry-max-attempts"
+              type="number"
+              min={1}
+              max={10}
+              value={retry.maxAttempts ?? ""}
+              onChange={(e) => handleRetryChange("maxAttempts", parseNumber(e.target.value))}
+              placeholder="1"
+              data-testid="input-retry-max-attempts"
+            />
+          </div>
+          <div>
+            <Label htmlFor="retry-base-delay" className="block text-sm font-medium mb-2">Base Delay (ms)</Label>
+            <Input
+              id="retry-base-delay"
+              type="number"
+              min={0}
+              value={retry.baseDelayMs ?? ""}
+              onChange={(e) => handleRetryChange("baseDelayMs", parseNumber(e.target.value))}
+              placeholder="1000"
+              data-testid="input-retry-base-delay"
+            />
+          </div>
+          <div>
+            <Label htmlFor="retry-backoff" className="block text-sm font-medium mb-2">Backoff Factor</Label>
+            <Input
+              id="retry-backoff"
+              type="number"
+              min={1}
+              step={0.5}
+              value={retry.backoffFactor ?? ""}
+              onChange={(e) => handleRetryChange("backoffFactor", parseNumber(e.target.value))}
+              placeholder="2"
+              data-testid="input-retry-backoff"
+            />
+          </div>
+          <div>
+            <Label htmlFor="retry-jitter" className="block text-sm font-medium mb-2">Jitter (0-1)</Label>
+            <Input
+              id="retry-jitter"
+              type="number"
+              min={0}
+              max={1}
+              step={0.1}
+              value={retry.jitter ?? ""}
+              onChange={(e) => handleRetryChange("jitter", parseNumber(e.target.value))}
+              placeholder="0.2"
+              data-testid="input-retry-jitter"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-sm font-medium">Retry On</div>
+          {retryErrorKinds.map(({ kind, label }) => (
+            <div key={kind} className="flex items-center gap-2">
+              <Checkbox
+                id={`retry-on-${kind}`}
+                checked={retryOnErrors.includes(kind)}
+                onCheckedChange={(checked) =>
+                  handleRetryChange(
+                    "retryOnErrors",
+                    checked ? [...retryOnErrors, kind] : retryOnErrors.filter(k => k !== kind)
+                  )
+                }
+                data-testid={`checkbox-retry-${kind}`}
+              />
+              <Label htmlFor={`retry-on-${kind}`} className="text-sm text-muted-foreground">{label}</Label>
+            </div>
+          ))}
+        </div>
+
+        <div>
+          <Label htmlFor="retry-status-codes" className="block text-sm font-medium mb-2">Retryable Status Codes</Label>
+          <Input
+            id="retry-status-codes"
+            value={statusCodesText}
+            onChange={(e) => {
+              setStatusCodesText(e.target.value);
+              const codes = e.target.value
+                .split(",")
+                .map(code => Number(code.trim()))
+                .filter(code => Number.isInteger(code) && code > 0);
+              handleRetryChange("retryOnStatusCodes", e.target.value.trim() ? codes : undefined);
+            }}
+            placeholder="408, 429, 500, 502, 503, 504"
+            data-testid="input-retry-status-codes"
+          />
+        </div>
+      </div>
+    );
+  };
+
   const renderNodeConfig = () => {
     switch (node.type) {
       case "FetchApiNode":
@@ -167,6 +568,10 @@ export function NodeConfigPanel({ nodeId, workflow, isOpen, onClose, onSave }: N
         return renderLogMessageNodeConfig();
       case "StartNode":
         return renderStartNodeConfig();
+      case "WebhookNode":
+        return renderWebhookNodeConfig();
+      case "ScheduleTriggerNode":
+        return renderScheduleTriggerNodeConfig();
       case "IfNode":
         return renderIfNodeConfig();
       default:
@@ -180,17 +585,39 @@ export function NodeConfigPanel({ nodeId, workflow, isOpen, onClose, onSave }: N
 
   return (
     <Sheet open={isOpen} onOpenChange={onClose}>
-      <SheetContent className="w-96" data-testid="node-config-panel">
+      <SheetContent
+        className={showData ? "w-full sm:max-w-3xl" : "w-96"}
+        data-testid="node-config-panel"
+      >
         <SheetHeader>
           <SheetTitle className="flex items-center justify-between">
             <span>Configure {node.type}</span>
-            <Button variant="ghost" size="sm" onClick={onClose} data-testid="button-close-config">
-              <X className="w-4 h-4" />
-            </Button>
+            <div className="flex items-center gap-1">
+              <Button
+                variant={showData ? "secondary" : "ghost"}
+                size="sm"
+                onClick={() => setShowData(!showData)}
+                title="Show this node's data from the latest run"
+                data-testid="button-toggle-node-data"
+              >
+                <Table2 className="w-4 h-4 mr-1" />
+                Data
+              </Button>
+              <Button variant="ghost" size="sm" onClick={onClose} data-testid="button-close-config">
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
           </SheetTitle>
         </SheetHeader>
 
         <div className="py-6 overflow-y-auto flex-1">
+          {showData && (
+            <div className="mb-6">
+              <NodeDataInspector workflowId={workflow.id} nodeId={node.id} defaultSide="input" />
+              <Separator className="mt-6" />
+            </div>
+          )}
+
           <div className="mb-6">
             <div className="text-sm text-muted-foreground mb-2">Node ID</div>
             <div className="font-mono text-sm bg-muted p-2 rounded" data-testid="text-node-id">
@@ -199,6 +626,10 @@ export function NodeConfigPanel({ nodeId, workflow, isOpen, onClose, onSave }: N
           </div>
 
           {renderNodeConfig()}
+
+          <Separator className="my-6" />
+
+          {renderSettings()}
         </div>
 
         <SheetFooter className="flex gap-2">
@@ -0,0 +1,303 @@
+import React, { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { type NodeRunData, type INodeData } from "@shared/schema";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import {
+  formatCellValue,
+  getExpressionRoot,
+  getTableColumns,
+  getValueType,
+  inferSchema,
+  matchesSearch,
+  toExpressionPath,
+  type PathSegment
+} from "@/lib/data-inspector";
+import { ChevronDown, ChevronRight, Copy, Search } from "lucide-react";
+
+type DataSide = "input" | "output";
+type DataView = "table" | "json" | "schema";
+
+interface NodeDataInspectorProps {
+  workflowId: string;
+  nodeId: string;
+  // Inspect this execution instead of the workflow's latest run of the node
+  executionId?: string;
+  defaultSide?: DataSide;
+  height?: string;
+}
+
+// Levels of the JSON tree expanded when it first renders
+const DEFAULT_EXPANDED_DEPTH = 2;
+
+interface FieldHandleProps {
+  expression: string;
+  label: React.ReactNode;
+  onCopy: (expression: string) => void;
+}
+
+/**
+ * Field name that can be dragged into a parameter or copied as an expression
+ */
+function FieldHandle({ expression, label, onCopy }: FieldHandleProps) {
+  return (
+    <span
+      className="inline-flex items-center gap-1 cursor-grab group"
+      draggable
+      onDragStart={(e) => e.dataTransfer.setData("text/plain", `{{ ${expression} }}`)}
+      title={`Drag into a parameter or copy {{ ${expression} }}`}
+    >
+      <span className="font-medium">{label}</span>
+      <button
+        type="button"
+        className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground"
+        onClick={(e) => {
+          e.stopPropagation();
+          onCopy(expression);
+        }}
+        data-testid={`button-copy-path-${expression}`}
+      >
+        <Copy className="w-3 h-3" />
+      </button>
+    </span>
+  );
+}
+
+interface JsonTreeProps {
+  value: unknown;
+  name: React.ReactNode;
+  path: PathSegment[];
+  root: string;
+  depth: number;
+  onCopy: (expression: string) => void;
+}
+
+function JsonTree({ value, name, path, root, depth, onCopy }: JsonTreeProps) {
+  const [expanded, setExpanded] = useState(depth < DEFAULT_EXPANDED_DEPTH);
+  const type = getValueType(value);
+  const label = path.length > 0
+    ? <FieldHandle expression={toExpressionPath(root, path)} label={name} onCopy={onCopy} />
+    : <span className="font-medium">{name}</span>;
+
+  if (type !== "object" && type !== "array") {
+    return (
+      <div className="flex gap-2 py-0.5" style={{ paddingLeft: depth * 12 }}>
+        {label}
+        <span className={type === "string" ? "text-success" : "text-primary"}>
+          {type === "string" ? JSON.stringify(value) : String(value ?? null)}
+        </span>
+      </div>
+    );
+  }
+
+  const entries: [PathSegment, unknown][] = type === "array"
+    ? (value as unknown[]).map((child, index) => [index, child])
+    : Object.entries(value as Record<string, unknown>);
+
+  return (
+    <div>
+      <div
+        className="flex items-center gap-1 py-0.5 cursor-pointer"
+        style={{ paddingLeft: depth * 12 }}
+        onClick={() => setExpanded(!expanded)}
+      >
+        {expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        {label}
+        <span className="text-muted-foreground">
+          {type === "array" ? `[${entries.length}]` : `{${entries.length}}`}
+        </span>
+      </div>
+      {expanded && entries.map(([key, child]) => (
+        <JsonTree
+          key={String(key)}
+          value={child}
+          name={String(key)}
+          path={[...path, key]}
+          root={root}
+          depth={depth + 1}
+          onCopy={onCopy}
+        />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Input and output items of a node from a run, as a table, a JSON tree or an
+ * inferred schema. Field names drag into parameters as expressions.
+ */
+export function NodeDataInspector({
+  workflowId,
+  nodeId,
+  executionId,
+  defaultSide = "output",
+  height = "h-72"
+}: NodeDataInspectorProps) {
+  const [side, setSide] = useState<DataSide>(defaultSide);
+  const [view, setView] = useState<DataView>("table");
+  const [search, setSearch] = useState("");
+  const { toast } = useToast();
+
+  const { data, isLoading, error } = useQuery<NodeRunData>({
+    queryKey: executionId
+      ? ["/api/executions", executionId, "nodes", nodeId]
+      : ["/api/workflows", workflowId, "nodes", nodeId, "data"],
+    // The latest run changes whenever the workflow executes again
+    staleTime: executionId ? Infinity : 0,
+    retry: false,
+  });
+
+  const items: INodeData[] = data ? data[side] : [];
+  const root = getExpressionRoot(side, nodeId);
+  const filteredItems = useMemo(() => items.filter(item => matchesSearch(item, search)), [items, search]);
+  const columns = useMemo(() => getTableColumns(filteredItems), [filteredItems]);
+  const schema = useMemo(
+    () => inferSchema(items).filter(field => matchesSearch(field.path.join("."), search)),
+    [items, search]
+  );
+
+  const handleCopy = async (expression: string) => {
+    try {
+      await navigator.clipboard.writeText(`{{ ${expression} }}`);
+      toast({ title: "Copied", description: `{{ ${expression} }}` });
+    } catch {
+      toast({ title: "Error", description: "Could not copy to the clipboard", variant: "destructive" });
+    }
+  };
+
+  if (isLoading) {
+    return <div className="text-sm text-muted-foreground">Loading node data...</div>;
+  }
+  if (error || !data) {
+    return (
+      <div className="text-sm text-muted-foreground" data-testid="text-no-node-data">
+        No data yet. Execute the workflow to see this node's items.
+      </div>
+    );
+  }
+
+  const renderTable = () => (
+    filteredItems.length === 0 || columns.length === 0 ? (
+      <div className="text-sm text-muted-foreground p-2">No items</div>
+    ) : (
+      <Table data-testid="table-node-data">
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-10">#</TableHead>
+            {columns.map(column => (
+              <TableHead key={column}>
+                <FieldHandle expression={toExpressionPath(root, [column])} label={column} onCopy={handleCopy} />
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {filteredItems.map((item, index) => (
+            <TableRow key={index}>
+              <TableCell className="text-muted-foreground">{items.indexOf(item)}</TableCell>
+              {columns.map(column => (
+                <TableCell key={column} className="max-w-48 truncate font-mono text-xs" title={formatCellValue(item[column])}>
+                  {formatCellValue(item[column])}
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    )
+  );
+
+  const renderJson = () => (
+    filteredItems.length === 0 ? (
+      <div className="text-sm text-muted-foreground p-2">No items</div>
+    ) : (
+      <div className="font-mono text-xs p-2" data-testid="tree-node-data">
+        {filteredItems.map((item, index) => (
+          <JsonTree
+            key={index}
+            value={item}
+            name={`Item ${items.indexOf(item)}`}
+            path={[]}
+            root={root}
+            depth={0}
+            onCopy={handleCopy}
+          />
+        ))}
+      </div>
+    )
+  );
+
+  const renderSchema = () => (
+    schema.length === 0 ? (
+      <div className="text-sm text-muted-foreground p-2">No fields</div>
+    ) : (
+      <div className="font-mono text-xs p-2 space-y-1" data-testid="schema-node-data">
+        {schema.map(field => (
+          <div key={JSON.stringify(field.path)} className="flex items-center gap-2" style={{ paddingLeft: (field.path.length - 1) * 12 }}>
+            <FieldHandle
+              expression={toExpressionPath(root, field.path)}
+              label={String(field.path[field.path.length - 1])}
+              onCopy={handleCopy}
+            />
+            <span className="text-muted-foreground">{field.types.join(" | ")}</span>
+            {field.example !== undefined && (
+              <span className="truncate text-muted-foreground opacity-75">e.g. {formatCellValue(field.example)}</span>
+            )}
+          </div>
+        ))}
+      </div>
+    )
+  );
+
+  return (
+    <div className="space-y-3" data-testid="node-data-inspector">
+      <div className="flex flex-wrap items-center gap-2">
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={side}
+          onValueChange={(value) => value && setSide(value as DataSide)}
+        >
+          <ToggleGroupItem value="input" data-testid="toggle-data-input">Input ({data.input.length})</ToggleGroupItem>
+          <ToggleGroupItem value="output" data-testid="toggle-data-output">Output ({data.output.length})</ToggleGroupItem>
+        </ToggleGroup>
+
+        <Tabs value={view} onValueChange={(value) => setView(value as DataView)}>
+          <TabsList>
+            <TabsTrigger value="table" data-testid="tab-data-table">Table</TabsTrigger>
+            <TabsTrigger value="json" data-testid="tab-data-json">JSON</TabsTrigger>
+            <TabsTrigger value="schema" data-testid="tab-data-schema">Schema</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        <div className="relative flex-1 min-w-32">
+          <Search className="w-3 h-3 absolute left-2 top-1/2 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search"
+            className="h-8 pl-7 text-xs"
+            data-testid="input-data-search"
+          />
+        </div>
+      </div>
+
+      <div className="bg-muted/30 rounded-lg">
+        <ScrollArea className={height}>
+          {view === "table" && renderTable()}
+          {view === "json" && renderJson()}
+          {view === "schema" && renderSchema()}
+        </ScrollArea>
+      </div>
+
+      <div className="text-xs text-muted-foreground">
+        Drag a field into a parameter, or hover it to copy the expression.
+        {data.run?.durationMs !== undefined && ` Ran for ${data.run.durationMs}ms.`}
+      </div>
+    </div>
+  );
+}
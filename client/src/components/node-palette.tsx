@@ -14,6 +14,28 @@ const nodeTypes = [
           </svg>
         ),
         color: "success"
+      },
+      {
+        type: "WebhookNode",
+        name: "Webhook",
+        description: "HTTP request trigger",
+        icon: (
+          <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1"></path>
+          </svg>
+        ),
+        color: "success"
+      },
+      {
+        type: "ScheduleTriggerNode",
+        name: "Schedule",
+        description: "Cron or interval trigger",
+        icon: (
+          <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"></path>
+          </svg>
+        ),
+        color: "success"
       }
     ]
   },
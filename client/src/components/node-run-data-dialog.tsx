@@ -0,0 +1,39 @@
+import React from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { NodeDataInspector } from "@/components/node-data-inspector";
+
+interface NodeRunDataDialogProps {
+  workflowId: string;
+  executionId: string;
+  nodeId: string;
+  isOpen: boolean;
+  onClose: () => void;
+  onConfigure: () => void;
+}
+
+/**
+ * Data inspector for one node of the run shown on the canvas
+ */
+export function NodeRunDataDialog({ workflowId, executionId, nodeId, isOpen, onClose, onConfigure }: NodeRunDataDialogProps) {
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl" data-testid="node-run-data-dialog">
+        <DialogHeader>
+          <DialogTitle>Node Data: {nodeId}</DialogTitle>
+        </DialogHeader>
+
+        <NodeDataInspector workflowId={workflowId} executionId={executionId} nodeId={nodeId} height="h-96" />
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onConfigure} data-testid="button-configure-node">
+            Configure Node
+          </Button>
+          <Button onClick={onClose} data-testid="button-close-node-data">
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,14 +1,138 @@
-import React from "react";
-import { type Workflow } from "@shared/schema";
+import React, { useEffect, useRef, useState } from "react";
+import {
+  type Workflow,
+  type WorkflowNode as WorkflowNodeType,
+  type ConnectionOutput,
+  type Execution,
+  type Connection,
+  type WorkflowDiff,
+  type PartialExecution,
+  isTriggerNodeType,
+  workflowNodeSchema
+} from "@shared/schema";
 import { WorkflowNode } from "./workflow-node";
+import { CanvasMinimap } from "./canvas-minimap";
+import { Button } from "@/components/ui/button";
+import { useCanvasViewport } from "@/hooks/use-canvas-viewport";
+import {
+  NODE_HEIGHT,
+  NODE_WIDTH,
+  fitBounds,
+  getNodeOutputs,
+  getNodesBounds,
+  getOutputPortOffset,
+  screenToWorld,
+  zoomAround,
+  type Bounds,
+  type Point,
+  type Size
+} from "@/lib/canvas-viewport";
+import { Focus, Maximize, ZoomIn, ZoomOut } from "lucide-react";
+
+// Connection being dragged out of an output port
+interface PendingConnection {
+  from: string;
+  fromOutput: ConnectionOutput;
+  start: Point;
+  end: Point;
+  targetId?: string;
+  error?: string;
+}
+
+// Rubber-band selection drawn on the background
+interface SelectionBox {
+  start: Point;
+  end: Point;
+}
+
+function toBounds({ start, end }: SelectionBox): Bounds {
+  return {
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y)
+  };
+}
+
+function intersects(node: Point, box: Bounds): boolean {
+  return node.x < box.x + box.width && node.x + NODE_WIDTH > box.x &&
+    node.y < box.y + box.height && node.y + NODE_HEIGHT > box.y;
+}
+
+// Pixels the pointer must travel before a press on a node becomes a drag
+const DRAG_THRESHOLD = 4;
+
+// Zoom factor of one step of the zoom buttons
+const ZOOM_STEP = 1.2;
+
+// Zoom change per pixel of wheel scroll
+const WHEEL_ZOOM_SPEED = 0.0015;
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement &&
+    (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+}
+
+/**
+ * Why `from` may not connect to `to`, or undefined when the connection is valid
+ */
+function getConnectionError(workflow: Workflow, from: string, to: string, fromOutput: ConnectionOutput): string | undefined {
+  const target = workflow.nodes.find(n => n.id === to);
+  if (!target) return "Unknown node";
+  if (from === to) return "A node can't connect to itself";
+  if (isTriggerNodeType(target.type)) return "Trigger nodes have no input";
+
+  // Nothing is ever emitted on outputs the node doesn't show, e.g. "error"
+  // when its failures don't go to an error output
+  const source = workflow.nodes.find(n => n.id === from);
+  if (!source || !getNodeOutputs(source).includes(fromOutput)) return "This node has no such output";
+
+  const exists = workflow.connections.some(
+    c => c.from === from && c.to === to && (c.fromOutput ?? "main") === fromOutput
+  );
+  if (exists) return "These nodes are already connected";
+
+  // The new edge closes a cycle when `to` already reaches `from`
+  const reachable = new Set<string>([to]);
+  const queue = [to];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const connection of workflow.connections.filter(c => c.from === current)) {
+      if (connection.to === from) return "This connection would create a cycle";
+      if (!reachable.has(connection.to)) {
+        reachable.add(connection.to);
+        queue.push(connection.to);
+      }
+    }
+  }
+  return undefined;
+}
+
+// Curve leaving `from` to the right and entering `to` from the left
+function generateCurve(from: Point, to: Point): string {
+  const controlX = from.x + (to.x - from.x) / 2;
+  return `M ${from.x} ${from.y} C ${controlX} ${from.y} ${controlX} ${to.y} ${to.x} ${to.y}`;
+}
 
 interface WorkflowCanvasProps {
   workflow: Workflow;
   onNodeClick: (nodeId: string) => void;
-  onNodeAdd?: (nodeType: string, position: { x: number; y: number }) => void;
+  onNodeAdd?: (nodeType: WorkflowNodeType["type"], position: { x: number; y: number }) => void;
   onNodeDelete?: (nodeId: string) => void;
-  onConnectionAdd?: (from: string, to: string) => void;
-  onConnectionDelete?: (connectionId: string) => void;
+  onConnectionAdd?: (from: string, to: string, fromOutput?: ConnectionOutput) => void;
+  // Clicking a connection selects it; Delete in the builder removes it
+  selectedConnectionId?: string | null;
+  onConnectionSelect?: (connectionId: string) => void;
+  // Called once per drag with the new position of every moved node
+  onNodesMove?: (positions: Record<string, { x: number; y: number }>) => void;
+  selectedNodeIds?: string[];
+  onSelectionChange?: (nodeIds: string[]) => void;
+  // Changes since an older version, highlighted on the canvas
+  diff?: WorkflowDiff;
+  // Execution painted over the nodes, kept live by useExecutionStream
+  execution?: Execution;
+  // Runs the workflow up to or from a node, offered in the node's context menu
+  onNodeExecute?: (nodeId: string, mode: PartialExecution["mode"]) => void;
 }
 
 export function WorkflowCanvas({ 
@@ -17,18 +141,114 @@ export function WorkflowCanvas({
   onNodeAdd, 
   onNodeDelete, 
   onConnectionAdd, 
-  onConnectionDelete 
+  selectedConnectionId,
+  onConnectionSelect,
+  onNodesMove,
+  selectedNodeIds = [],
+  onSelectionChange,
+  diff,
+  execution,
+  onNodeExecute
 }: WorkflowCanvasProps) {
-  const generateConnectionPath = (from: { x: number; y: number }, to: { x: number; y: number }) => {
-    const fromX = from.x + 192; // Node width (48 * 4 = 192px)
-    const fromY = from.y + 60;  // Half node height
-    const toX = to.x;
-    const toY = to.y + 60;
-    
-    const controlPoint1X = fromX + (toX - fromX) / 2;
-    const controlPoint2X = fromX + (toX - fromX) / 2;
-    
-    return `M ${fromX} ${fromY} C ${controlPoint1X} ${fromY} ${controlPoint2X} ${toY} ${toX} ${toY}`;
+  const nodeStatuses = execution?.nodeStatuses;
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useCanvasViewport(workflow.id);
+  const [size, setSize] = useState<Size>({ width: 0, height: 0 });
+  const [isSpaceHeld, setIsSpaceHeld] = useState(false);
+  const [isPanning, setIsPanning] = useState(false);
+  const [dragPositions, setDragPositions] = useState<Record<string, Point>>({});
+  const [pendingConnection, setPendingConnection] = useState<PendingConnection | null>(null);
+  const [selectionBox, setSelectionBox] = useState<SelectionBox | null>(null);
+  // A press that ended a drag must not also count as a click
+  const suppressClickRef = useRef(false);
+
+  const getNodePosition = (node: WorkflowNodeType): Point => dragPositions[node.id] ?? node.position;
+
+  // Pointer position relative to the canvas element, in screen pixels
+  const toScreenPoint = (clientX: number, clientY: number): Point => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return { x: clientX - rect.left, y: clientY - rect.top };
+  };
+
+  // Pointer position in world coordinates, where nodes and connections live
+  const toCanvasPoint = (clientX: number, clientY: number): Point => {
+    return screenToWorld(viewport, toScreenPoint(clientX, clientY));
+  };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(canvas);
+
+    // React registers wheel listeners as passive, which can't stop the page from scrolling
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      const anchor = { x: event.clientX - rect.left, y: event.clientY - rect.top };
+      setViewport(current => zoomAround(current, anchor, current.zoom * Math.exp(-event.deltaY * WHEEL_ZOOM_SPEED)));
+    };
+    canvas.addEventListener("wheel", handleWheel, { passive: false });
+
+    return () => {
+      observer.disconnect();
+      canvas.removeEventListener("wheel", handleWheel);
+    };
+  }, [setViewport]);
+
+  // Holding space turns any drag into a pan
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code !== "Space" || isEditableTarget(event.target)) return;
+      event.preventDefault();
+      setIsSpaceHeld(true);
+    };
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.code === "Space") setIsSpaceHeld(false);
+    };
+    const handleBlur = () => setIsSpaceHeld(false);
+
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    window.addEventListener("blur", handleBlur);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+      window.removeEventListener("blur", handleBlur);
+    };
+  }, []);
+
+  // Curve from the port of `output` on the source to the middle of the target's left edge
+  const generateConnectionPath = (fromNode: WorkflowNodeType, toNode: WorkflowNodeType, output: ConnectionOutput) => {
+    const from = getNodePosition(fromNode);
+    const to = getNodePosition(toNode);
+    const port = getOutputPortOffset(fromNode, output);
+    return generateCurve(
+      { x: from.x + port.x, y: from.y + port.y },
+      { x: to.x, y: to.y + NODE_HEIGHT / 2 }
+    );
+  };
+
+  const nodeDiffStatuses = new Map<string, "added" | "changed">([
+    ...(diff?.nodes.added ?? []).map(node => [node.id, "added"] as const),
+    ...(diff?.nodes.changed ?? []).map(change => [change.nodeId, "changed"] as const)
+  ]);
+  const connectionKey = (connection: Connection) =>
+    `${connection.from}->${connection.to}:${connection.fromOutput ?? "main"}`;
+  const addedConnections = new Set((diff?.connections.added ?? []).map(connectionKey));
+
+  // Connections of the compared version that are gone, drawn between current or removed nodes
+  const getRemovedConnectionPaths = () => {
+    const nodes = [...workflow.nodes, ...(diff?.nodes.removed ?? [])];
+    return (diff?.connections.removed ?? []).flatMap(connection => {
+      const fromNode = nodes.find(n => n.id === connection.from);
+      const toNode = nodes.find(n => n.id === connection.to);
+      if (!fromNode || !toNode) return [];
+      return [{ key: connectionKey(connection), path: generateConnectionPath(fromNode, toNode, connection.fromOutput ?? "main") }];
+    });
   };
 
   const getConnectionPaths = () => {
@@ -38,13 +258,214 @@ export function WorkflowCanvas({
       
       if (!fromNode || !toNode) return null;
       
+      // Data is flowing while the target runs on what the source produced
+      const fromStatus = nodeStatuses?.[connection.from];
+      const active = nodeStatuses?.[connection.to] === "running" &&
+        (fromStatus === "success" || fromStatus === "error");
+
       return {
         id: connection.id,
-        path: generateConnectionPath(fromNode.position, toNode.position)
+        output: connection.fromOutput ?? "main",
+        active,
+        added: addedConnections.has(connectionKey(connection)),
+        path: generateConnectionPath(fromNode, toNode, connection.fromOutput ?? "main")
       };
     }).filter(Boolean);
   };
 
+  /**
+   * Follow the pointer until it is released, wherever it goes on the page
+   */
+  const trackPointer = (onMove: (event: PointerEvent) => void, onUp: (event: PointerEvent) => void) => {
+    const handleMove = (event: PointerEvent) => onMove(event);
+    const handleUp = (event: PointerEvent) => {
+      window.removeEventListener("pointermove", handleMove);
+      window.removeEventListener("pointerup", handleUp);
+      onUp(event);
+    };
+    window.addEventListener("pointermove", handleMove);
+    window.addEventListener("pointerup", handleUp);
+  };
+
+  const startPan = (e: React.PointerEvent) => {
+    const start = { x: e.clientX, y: e.clientY };
+    const origin = viewport;
+    let moved = false;
+    setIsPanning(true);
+
+    trackPointer(
+      (event) => {
+        const dx = event.clientX - start.x;
+        const dy = event.clientY - start.y;
+        if (!moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+
+        moved = true;
+        setViewport({ ...origin, x: origin.x + dx, y: origin.y + dy });
+      },
+      () => {
+        // A pan that ends over a node or connection must not click it
+        suppressClickRef.current = moved;
+        setIsPanning(false);
+      }
+    );
+  };
+
+  // Space or middle button pans from anywhere, before nodes see the press
+  const handleCanvasPointerDownCapture = (e: React.PointerEvent) => {
+    if ((isSpaceHeld && e.button === 0) || e.button === 1) {
+      e.preventDefault();
+      e.stopPropagation();
+      startPan(e);
+    }
+  };
+
+  /**
+   * Dragging the empty background draws a selection box. Shift adds to the
+   * current selection; a plain click on the background clears it.
+   */
+  const handleCanvasPointerDown = (e: React.PointerEvent) => {
+    if (e.button !== 0 || (e.target as Element).closest("[data-node-id]")) return;
+
+    const additive = e.shiftKey;
+    const initialSelection = additive ? selectedNodeIds : [];
+    const start = toCanvasPoint(e.clientX, e.clientY);
+    const startScreen = { x: e.clientX, y: e.clientY };
+    let box: SelectionBox | null = null;
+
+    const selectWithin = (current: SelectionBox) => {
+      const bounds = toBounds(current);
+      const inside = workflow.nodes.filter(node => intersects(node.position, bounds)).map(node => node.id);
+      onSelectionChange?.(Array.from(new Set([...initialSelection, ...inside])));
+    };
+
+    trackPointer(
+      (event) => {
+        if (!box && Math.hypot(event.clientX - startScreen.x, event.clientY - startScreen.y) < DRAG_THRESHOLD) return;
+
+        box = { start, end: toCanvasPoint(event.clientX, event.clientY) };
+        setSelectionBox(box);
+        selectWithin(box);
+      },
+      () => {
+        // A box that ends over a connection must not click it
+        suppressClickRef.current = !!box;
+        if (!box && !additive) {
+          onSelectionChange?.([]);
+        }
+        setSelectionBox(null);
+      }
+    );
+  };
+
+  const zoomBy = (factor: number) => {
+    setViewport(current => zoomAround(current, { x: size.width / 2, y: size.height / 2 }, current.zoom * factor));
+  };
+
+  const zoomToNodes = (nodes: WorkflowNodeType[]) => {
+    const bounds = getNodesBounds(nodes.map(node => ({ position: getNodePosition(node) })));
+    if (bounds) {
+      setViewport(fitBounds(bounds, size));
+    }
+  };
+
+  const selectedNodes = workflow.nodes.filter(node => selectedNodeIds.includes(node.id));
+
+  // Dragging a selected node moves the whole selection
+  const handleNodePointerDown = (node: WorkflowNodeType, e: React.PointerEvent) => {
+    suppressClickRef.current = false;
+    if (e.button !== 0 || e.shiftKey || !onNodesMove) return;
+
+    const start = toCanvasPoint(e.clientX, e.clientY);
+    const movedIds = selectedNodeIds.includes(node.id) ? selectedNodeIds : [node.id];
+    const origins = workflow.nodes.filter(n => movedIds.includes(n.id));
+    let positions: Record<string, Point> | undefined;
+
+    trackPointer(
+      (event) => {
+        const point = toCanvasPoint(event.clientX, event.clientY);
+        const dx = point.x - start.x;
+        const dy = point.y - start.y;
+        if (!positions && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+
+        if (!positions && !selectedNodeIds.includes(node.id)) {
+          onSelectionChange?.([node.id]);
+        }
+        positions = Object.fromEntries(origins.map(origin => [
+          origin.id,
+          { x: Math.round(origin.position.x + dx), y: Math.round(origin.position.y + dy) }
+        ]));
+        setDragPositions(positions);
+      },
+      () => {
+        if (positions) {
+          suppressClickRef.current = true;
+          onNodesMove(positions);
+        }
+        setDragPositions({});
+      }
+    );
+  };
+
+  // Node under the pointer, found through the data-node-id of its element
+  const findNodeAt = (clientX: number, clientY: number): string | undefined => {
+    const element = document.elementFromPoint(clientX, clientY);
+    return element?.closest<HTMLElement>("[data-node-id]")?.dataset.nodeId;
+  };
+
+  const handleOutputPointerDown = (node: WorkflowNodeType, output: ConnectionOutput, e: React.PointerEvent) => {
+    if (e.button !== 0 || !onConnectionAdd) return;
+    e.preventDefault();
+
+    const port = e.currentTarget.getBoundingClientRect();
+    const start = toCanvasPoint(port.left + port.width / 2, port.top + port.height / 2);
+
+    const describe = (clientX: number, clientY: number): PendingConnection => {
+      const targetId = findNodeAt(clientX, clientY);
+      return {
+        from: node.id,
+        fromOutput: output,
+        start,
+        end: toCanvasPoint(clientX, clientY),
+        targetId,
+        error: targetId ? getConnectionError(workflow, node.id, targetId, output) : undefined
+      };
+    };
+
+    setPendingConnection(describe(e.clientX, e.clientY));
+    trackPointer(
+      (event) => setPendingConnection(describe(event.clientX, event.clientY)),
+      (event) => {
+        const { targetId, error } = describe(event.clientX, event.clientY);
+        if (targetId && !error) {
+          onConnectionAdd(node.id, targetId, output);
+        }
+        setPendingConnection(null);
+      }
+    );
+  };
+
+  // True once for the click that ends a drag or pan
+  const consumeSuppressedClick = () => {
+    const suppressed = suppressClickRef.current;
+    suppressClickRef.current = false;
+    return suppressed;
+  };
+
+  // Shift-click toggles a node in the selection; a plain click selects and opens it
+  const handleNodeClick = (nodeId: string, e: React.MouseEvent) => {
+    if (consumeSuppressedClick()) return;
+    if (e.shiftKey) {
+      onSelectionChange?.(
+        selectedNodeIds.includes(nodeId)
+          ? selectedNodeIds.filter(id => id !== nodeId)
+          : [...selectedNodeIds, nodeId]
+      );
+      return;
+    }
+    onSelectionChange?.([nodeId]);
+    onNodeClick(nodeId);
+  };
+
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
     e.dataTransfer.dropEffect = "copy";
@@ -55,81 +476,184 @@ export function WorkflowCanvas({
     
     try {
       const data = JSON.parse(e.dataTransfer.getData("application/json"));
-      if (data.nodeType && onNodeAdd) {
-        const rect = e.currentTarget.getBoundingClientRect();
+      // Drops can come from anywhere, so only known node types are added
+      const nodeType = workflowNodeSchema.shape.type.safeParse(data.nodeType);
+      if (nodeType.success && onNodeAdd) {
+        const point = toCanvasPoint(e.clientX, e.clientY);
         const position = {
-          x: e.clientX - rect.left - 96, // Center the node (half width)
-          y: e.clientY - rect.top - 60   // Center the node (half height)
+          x: Math.round(point.x - NODE_WIDTH / 2), // Center the node
+          y: Math.round(point.y - NODE_HEIGHT / 2)
         };
-        onNodeAdd(data.nodeType, position);
+        onNodeAdd(nodeType.data, position);
       }
     } catch (error) {
       console.error("Failed to parse drag data:", error);
     }
   };
 
-  const handleConnectionClick = (connectionId: string) => {
-    if (onConnectionDelete) {
-      onConnectionDelete(connectionId);
+  const getConnectionStrokeClass = (output: ConnectionOutput) => {
+    switch (output) {
+      case "true":
+        return "stroke-success";
+      case "false":
+        return "stroke-destructive";
+      case "error":
+        return "stroke-warning";
+      default:
+        return "stroke-primary";
     }
   };
 
+  const handleConnectionClick = (connectionId: string) => {
+    if (consumeSuppressedClick()) return;
+    onConnectionSelect?.(connectionId);
+  };
+
   return (
     <div 
-      className="workflow-canvas w-full h-full relative bg-background"
+      ref={canvasRef}
+      className={`workflow-canvas w-full h-full relative bg-background overflow-hidden touch-none ${
+        isPanning ? "cursor-grabbing" : isSpaceHeld ? "cursor-grab" : ""
+      }`}
       style={{
         backgroundImage: 'radial-gradient(circle, hsl(240 6% 90%) 1px, transparent 1px)',
-        backgroundSize: '20px 20px'
+        backgroundSize: `${20 * viewport.zoom}px ${20 * viewport.zoom}px`,
+        backgroundPosition: `${viewport.x}px ${viewport.y}px`
       }}
       data-testid="canvas"
+      onPointerDownCapture={handleCanvasPointerDownCapture}
+      onPointerDown={handleCanvasPointerDown}
       onDragOver={handleDragOver}
       onDrop={handleDrop}
     >
-      {/* SVG for connections */}
-      <svg className="absolute inset-0 w-full h-full pointer-events-none" style={{ zIndex: 1 }}>
-        <defs>
-          <marker
-            id="arrowhead"
-            markerWidth="10"
-            markerHeight="7"
-            refX="9"
-            refY="3.5"
-            orient="auto"
-          >
-            <polygon points="0 0, 10 3.5, 0 7" fill="hsl(210 79% 46%)" />
-          </marker>
-        </defs>
-        
-        {/* Connection lines */}
-        {getConnectionPaths().map(connection => (
-          connection && (
+      {/* World layer: everything inside is positioned in world coordinates */}
+      <div
+        className="absolute top-0 left-0"
+        style={{
+          transform: `translate(${viewport.x}px, ${viewport.y}px) scale(${viewport.zoom})`,
+          transformOrigin: "0 0"
+        }}
+        data-testid="canvas-world"
+      >
+        {/* SVG for connections */}
+        <svg className="absolute top-0 left-0 overflow-visible pointer-events-none" width={1} height={1} style={{ zIndex: 1 }}>
+          <defs>
+            <marker
+              id="arrowhead"
+              markerWidth="10"
+              markerHeight="7"
+              refX="9"
+              refY="3.5"
+              orient="auto"
+            >
+              <polygon points="0 0, 10 3.5, 0 7" fill="hsl(210 79% 46%)" />
+            </marker>
+          </defs>
+          
+          {/* Connection lines */}
+          {getConnectionPaths().map(connection => (
+            connection && (
+              <path
+                key={connection.id}
+                className={`${getConnectionStrokeClass(connection.output)} ${connection.added ? "stroke-[4px]" : "stroke-2"} fill-none cursor-pointer transition-colors ${connection.active ? "connection-active" : ""} ${connection.id === selectedConnectionId ? "connection-selected" : ""}`}
+                style={{ markerEnd: 'url(#arrowhead)', pointerEvents: 'all' }}
+                d={connection.path}
+                data-connection-id={connection.id}
+                data-connection-output={connection.output}
+                data-connection-active={connection.active || undefined}
+                data-selected={connection.id === selectedConnectionId || undefined}
+                data-diff={connection.added ? "added" : undefined}
+                onClick={() => handleConnectionClick(connection.id)}
+              />
+            )
+          ))}
+
+          {/* Connections removed since the compared version */}
+          {getRemovedConnectionPaths().map(connection => (
             <path
-              key={connection.id}
-              className="stroke-primary stroke-2 fill-none cursor-pointer hover:stroke-destructive transition-colors"
-              style={{ markerEnd: 'url(#arrowhead)', pointerEvents: 'all' }}
+              key={connection.key}
+              className="stroke-destructive stroke-2 fill-none opacity-50"
+              strokeDasharray="4 4"
               d={connection.path}
-              data-connection-id={connection.id}
-              onClick={() => handleConnectionClick(connection.id)}
+              data-diff="removed"
+            />
+          ))}
+
+          {/* Connection being dragged */}
+          {pendingConnection && (
+            <path
+              className={`${pendingConnection.error ? "stroke-destructive" : getConnectionStrokeClass(pendingConnection.fromOutput)} stroke-2 fill-none`}
+              strokeDasharray="6 4"
+              d={generateCurve(pendingConnection.start, pendingConnection.end)}
+              data-testid="connection-preview"
             />
-          )
+          )}
+        </svg>
+
+        {pendingConnection?.error && (
+          <div
+            className="absolute pointer-events-none text-xs bg-destructive text-destructive-foreground rounded px-2 py-1 shadow"
+            style={{ left: pendingConnection.end.x + 12, top: pendingConnection.end.y + 12, zIndex: 3 }}
+            data-testid="text-connection-error"
+          >
+            {pendingConnection.error}
+          </div>
+        )}
+        
+        {/* Workflow Nodes */}
+        {workflow.nodes.map((node) => (
+          <WorkflowNode
+            key={node.id}
+            node={nodeStatuses?.[node.id] ? { ...node, status: nodeStatuses[node.id] } : node}
+            run={execution?.nodeRuns?.[node.id]}
+            onClick={(e) => handleNodeClick(node.id, e)}
+            selected={selectedNodeIds.includes(node.id)}
+            diffStatus={nodeDiffStatuses.get(node.id)}
+            onDelete={onNodeDelete ? () => onNodeDelete(node.id) : undefined}
+            onPointerDown={(e) => handleNodePointerDown(node, e)}
+            onOutputPointerDown={(output, e) => handleOutputPointerDown(node, output, e)}
+            onExecute={onNodeExecute ? (mode) => onNodeExecute(node.id, mode) : undefined}
+            connectionTarget={
+              pendingConnection?.targetId === node.id && pendingConnection.from !== node.id
+                ? (pendingConnection.error ? "invalid" : "valid")
+                : undefined
+            }
+            style={{
+              position: 'absolute',
+              top: getNodePosition(node).y,
+              left: getNodePosition(node).x,
+              zIndex: dragPositions[node.id] ? 3 : 2,
+              // Follow the pointer without easing while dragged
+              ...(dragPositions[node.id] ? { transition: "none" } : {})
+            }}
+          />
         ))}
-      </svg>
-      
-      {/* Workflow Nodes */}
-      {workflow.nodes.map((node) => (
-        <WorkflowNode
-          key={node.id}
-          node={node}
-          onClick={() => onNodeClick(node.id)}
-          onDelete={onNodeDelete ? () => onNodeDelete(node.id) : undefined}
-          style={{
-            position: 'absolute',
-            top: node.position.y,
-            left: node.position.x,
-            zIndex: 2
-          }}
-        />
-      ))}
+
+        {/* Nodes removed since the compared version */}
+        {diff?.nodes.removed.map(node => (
+          <WorkflowNode
+            key={`removed-${node.id}`}
+            node={{ ...node, status: undefined }}
+            onClick={() => {}}
+            diffStatus="removed"
+            style={{ position: 'absolute', top: node.position.y, left: node.position.x, zIndex: 1 }}
+          />
+        ))}
+
+        {selectionBox && (
+          <div
+            className="absolute border border-primary bg-primary/10 pointer-events-none"
+            style={{
+              left: toBounds(selectionBox).x,
+              top: toBounds(selectionBox).y,
+              width: toBounds(selectionBox).width,
+              height: toBounds(selectionBox).height,
+              zIndex: 3
+            }}
+            data-testid="selection-box"
+          />
+        )}
+      </div>
       
       {/* Empty state message */}
       {workflow.nodes.length === 0 && (
@@ -146,6 +670,64 @@ export function WorkflowCanvas({
           </div>
         </div>
       )}
+
+      {/* Zoom controls */}
+      <div
+        className="absolute bottom-4 left-4 flex items-center gap-1 bg-card/90 border rounded-lg shadow-lg p-1"
+        style={{ zIndex: 4 }}
+        onPointerDown={(e) => e.stopPropagation()}
+      >
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => zoomBy(1 / ZOOM_STEP)} title="Zoom out" data-testid="button-zoom-out">
+          <ZoomOut className="w-4 h-4" />
+        </Button>
+        <button
+          className="w-12 text-xs text-muted-foreground hover:text-foreground"
+          onClick={() => zoomBy(1 / viewport.zoom)}
+          title="Reset zoom to 100%"
+          data-testid="button-zoom-reset"
+        >
+          {Math.round(viewport.zoom * 100)}%
+        </button>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => zoomBy(ZOOM_STEP)} title="Zoom in" data-testid="button-zoom-in">
+          <ZoomIn className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={() => zoomToNodes(workflow.nodes)}
+          disabled={workflow.nodes.length === 0}
+          title="Fit workflow to view"
+          data-testid="button-zoom-fit"
+        >
+          <Maximize className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={() => zoomToNodes(selectedNodes)}
+          disabled={selectedNodes.length === 0}
+          title="Zoom to selection"
+          data-testid="button-zoom-selection"
+        >
+          <Focus className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {workflow.nodes.length > 0 && size.width > 0 && (
+        <CanvasMinimap
+          nodes={workflow.nodes.map(node => ({ ...node, position: getNodePosition(node) }))}
+          viewport={viewport}
+          size={size}
+          nodeStatuses={nodeStatuses}
+          onNavigate={(point) => setViewport(current => ({
+            ...current,
+            x: size.width / 2 - point.x * current.zoom,
+            y: size.height / 2 - point.y * current.zoom
+          }))}
+        />
+      )}
     </div>
   );
 }
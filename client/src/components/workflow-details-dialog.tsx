@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+export interface WorkflowDetails {
+  name: string;
+  description?: string;
+}
+
+interface WorkflowDetailsDialogProps {
+  isOpen: boolean;
+  title: string;
+  submitLabel: string;
+  initialValues?: WorkflowDetails;
+  isPending?: boolean;
+  onClose: () => void;
+  onSubmit: (details: WorkflowDetails) => void;
+}
+
+/**
+ * Name and description of a workflow, for creating or renaming one
+ */
+export function WorkflowDetailsDialog({
+  isOpen,
+  title,
+  submitLabel,
+  initialValues,
+  isPending,
+  onClose,
+  onSubmit
+}: WorkflowDetailsDialogProps) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(initialValues?.name ?? "");
+      setDescription(initialValues?.description ?? "");
+    }
+  }, [isOpen, initialValues?.name, initialValues?.description]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSubmit({ name: name.trim(), description: description.trim() || undefined });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md" data-testid="workflow-details-dialog">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+          </DialogHeader>
+
+          <div>
+            <Label htmlFor="workflow-name" className="block text-sm font-medium mb-2">Name</Label>
+            <Input
+              id="workflow-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="My workflow"
+              autoFocus
+              data-testid="input-workflow-name"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="workflow-description" className="block text-sm font-medium mb-2">Description</Label>
+            <Textarea
+              id="workflow-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What this workflow does"
+              rows={3}
+              data-testid="input-workflow-description"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} data-testid="button-cancel-workflow-details">
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!name.trim() || isPending} data-testid="button-submit-workflow-details">
+              {isPending ? "Saving..." : submitLabel}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,223 @@
+import React, { useEffect, useState } from "react";
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { type FieldChange, type WorkflowDiff, type WorkflowVersion } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { History, RotateCcw, X } from "lucide-react";
+
+// Versions fetched per page
+const PAGE_SIZE = 20;
+
+interface WorkflowHistoryPanelProps {
+  workflowId: string;
+  currentVersion?: number;
+  // Called with the diff from the selected version to the current one, shown on the canvas
+  onDiffChange: (diff: WorkflowDiff | undefined) => void;
+  // Saves pending edits so a restore doesn't race them
+  onBeforeRestore: () => Promise<boolean>;
+  onClose: () => void;
+}
+
+function formatValue(value: unknown) {
+  if (value === undefined) return "—";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function FieldChangeList({ changes }: { changes: FieldChange[] }) {
+  return (
+    <ul className="space-y-1">
+      {changes.map(change => (
+        <li key={change.path} className="text-xs font-mono break-all">
+          <span className="text-muted-foreground">{change.path}: </span>
+          <span className="text-destructive line-through">{formatValue(change.before)}</span>
+          {" → "}
+          <span className="text-success">{formatValue(change.after)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Saved versions of a workflow. Selecting one highlights what changed since
+ * then on the canvas and offers to restore it.
+ */
+export function WorkflowHistoryPanel({
+  workflowId,
+  currentVersion,
+  onDiffChange,
+  onBeforeRestore,
+  onClose
+}: WorkflowHistoryPanelProps) {
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const versionsQuery = useInfiniteQuery<WorkflowVersion[]>({
+    // Under the workflow's key so saving it refreshes the list
+    queryKey: ["/api/workflows", workflowId, "versions", { currentVersion }],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (pageParam !== undefined) params.set("before", String(pageParam));
+      const response = await apiRequest("GET", `/api/workflows/${workflowId}/versions?${params}`);
+      return response.json();
+    },
+    initialPageParam: undefined as number | undefined,
+    getNextPageParam: (lastPage) =>
+      lastPage.length === PAGE_SIZE ? lastPage[lastPage.length - 1].version : undefined,
+  });
+  const versions = versionsQuery.data?.pages.flat() ?? [];
+
+  const { data: diff, isLoading: diffLoading } = useQuery<WorkflowDiff>({
+    queryKey: ["/api/workflows", workflowId, "versions", "diff", selectedVersion, currentVersion],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/workflows/${workflowId}/versions/diff?from=${selectedVersion}`);
+      return response.json();
+    },
+    enabled: selectedVersion !== null && selectedVersion !== currentVersion,
+  });
+  const activeDiff = selectedVersion !== null && selectedVersion !== currentVersion ? diff : undefined;
+
+  useEffect(() => {
+    onDiffChange(activeDiff);
+  }, [activeDiff, onDiffChange]);
+
+  // Stop highlighting once the panel goes away
+  useEffect(() => {
+    return () => onDiffChange(undefined);
+  }, [onDiffChange]);
+
+  const restoreMutation = useMutation({
+    mutationFn: async (version: number) => {
+      if (!(await onBeforeRestore())) {
+        throw new Error("Failed to save pending changes");
+      }
+      const response = await apiRequest("POST", `/api/workflows/${workflowId}/versions/${version}/restore`);
+      return response.json();
+    },
+    onSuccess: (_workflow, version) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/workflows"] });
+      setSelectedVersion(null);
+      toast({ title: "Success", description: `Restored version ${version}` });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to restore version",
+        variant: "destructive"
+      });
+    },
+  });
+
+  const hasChanges = activeDiff && (
+    activeDiff.fields.length > 0 ||
+    activeDiff.nodes.added.length + activeDiff.nodes.removed.length + activeDiff.nodes.changed.length > 0 ||
+    activeDiff.connections.added.length + activeDiff.connections.removed.length > 0
+  );
+
+  return (
+    <div className="w-80 bg-card border-l border-border flex flex-col" data-testid="workflow-history-panel">
+      <div className="p-4 border-b border-border flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <History className="w-4 h-4" />
+          <h2 className="font-medium">Version History</h2>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClose} data-testid="button-close-history">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="p-2 space-y-1">
+          {versionsQuery.isLoading && (
+            <p className="p-2 text-sm text-muted-foreground">Loading versions...</p>
+          )}
+          {!versionsQuery.isLoading && versions.length === 0 && (
+            <p className="p-2 text-sm text-muted-foreground" data-testid="text-no-versions">No saved versions yet</p>
+          )}
+          {versions.map(version => {
+            const isCurrent = version.version === currentVersion;
+            const isSelected = version.version === selectedVersion;
+            return (
+              <div
+                key={version.version}
+                className={`rounded-md border p-2 cursor-pointer transition-colors ${isSelected ? "border-primary bg-accent" : "border-transparent hover:bg-accent"}`}
+                onClick={() => setSelectedVersion(isSelected ? null : version.version)}
+                data-testid={`version-${version.version}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium">Version {version.version}</span>
+                  <div className="flex items-center gap-1">
+                    {version.restoredFrom !== undefined && (
+                      <Badge variant="outline">Restored from v{version.restoredFrom}</Badge>
+                    )}
+                    {isCurrent && <Badge>Current</Badge>}
+                  </div>
+                </div>
+                <div className="text-xs text-muted-foreground" title={new Date(version.createdAt).toLocaleString()}>
+                  {formatDistanceToNow(new Date(version.createdAt), { addSuffix: true })} · {version.nodes.length} nodes
+                </div>
+
+                {isSelected && !isCurrent && (
+                  <div className="mt-2 space-y-2 text-sm" onClick={(e) => e.stopPropagation()} data-testid="version-diff">
+                    {diffLoading && <p className="text-xs text-muted-foreground">Comparing...</p>}
+                    {activeDiff && !hasChanges && (
+                      <p className="text-xs text-muted-foreground">Same design as the current version</p>
+                    )}
+                    {activeDiff && activeDiff.fields.length > 0 && <FieldChangeList changes={activeDiff.fields} />}
+                    {activeDiff?.nodes.added.map(node => (
+                      <div key={node.id} className="text-xs text-success" title={node.id}>+ {node.type}</div>
+                    ))}
+                    {activeDiff?.nodes.removed.map(node => (
+                      <div key={node.id} className="text-xs text-destructive" title={node.id}>− {node.type}</div>
+                    ))}
+                    {activeDiff?.nodes.changed.map(change => (
+                      <div key={change.nodeId} className="space-y-1">
+                        <div className="text-xs text-warning" title={change.nodeId}>~ {change.after.type}</div>
+                        <div className="pl-3">
+                          <FieldChangeList changes={change.changes} />
+                        </div>
+                      </div>
+                    ))}
+                    {activeDiff && activeDiff.connections.added.length + activeDiff.connections.removed.length > 0 && (
+                      <div className="text-xs text-muted-foreground">
+                        {activeDiff.connections.added.length} connection(s) added, {activeDiff.connections.removed.length} removed
+                      </div>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="w-full"
+                      onClick={() => restoreMutation.mutate(version.version)}
+                      disabled={restoreMutation.isPending}
+                      data-testid="button-restore-version"
+                    >
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                      {restoreMutation.isPending ? "Restoring..." : "Restore this version"}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+          {versionsQuery.hasNextPage && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-full"
+              onClick={() => versionsQuery.fetchNextPage()}
+              disabled={versionsQuery.isFetchingNextPage}
+              data-testid="button-load-more-versions"
+            >
+              {versionsQuery.isFetchingNextPage ? "Loading..." : "Load older versions"}
+            </Button>
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
@@ -1,10 +1,28 @@
 import React from "react";
-import { type WorkflowNode as WorkflowNodeType } from "@shared/schema";
+import { type WorkflowNode as WorkflowNodeType, type NodeRun, type ConnectionOutput, type PartialExecution, isTriggerNodeType } from "@shared/schema";
+import { formatDuration } from "@/lib/execution-status";
+import { getNodeOutputs, getOutputPortOffset } from "@/lib/canvas-viewport";
+import { ContextMenu, ContextMenuContent, ContextMenuItem, ContextMenuTrigger } from "@/components/ui/context-menu";
+import { Play, SkipForward } from "lucide-react";
 
 interface WorkflowNodeProps {
   node: WorkflowNodeType;
-  onClick: () => void;
+  // Timing and item count from the execution shown on the canvas
+  run?: NodeRun;
+  onClick: (e: React.MouseEvent) => void;
   onDelete?: () => void;
+  // Part of the canvas selection
+  selected?: boolean;
+  // How the node differs from the version being compared on the canvas
+  diffStatus?: "added" | "changed" | "removed";
+  // Starts dragging the node around the canvas
+  onPointerDown?: (e: React.PointerEvent) => void;
+  // Starts dragging a new connection out of one of the node's outputs
+  onOutputPointerDown?: (output: ConnectionOutput, e: React.PointerEvent) => void;
+  // Set while a connection is dragged over this node
+  connectionTarget?: "valid" | "invalid";
+  // Runs part of the workflow, up to or starting from this node
+  onExecute?: (mode: PartialExecution["mode"]) => void;
   style?: React.CSSProperties;
 }
 
@@ -21,6 +39,32 @@ const nodeConfigs = {
     iconBg: "bg-success",
     statusColor: "bg-success"
   },
+  WebhookNode: {
+    name: "Webhook",
+    description: (params: any) => `${params?.method || 'POST'} /webhook/${params?.path || "…"}`,
+    icon: (
+      <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1"></path>
+      </svg>
+    ),
+    borderColor: "border-success",
+    iconBg: "bg-success",
+    statusColor: "bg-success"
+  },
+  ScheduleTriggerNode: {
+    name: "Schedule",
+    description: (params: any) => params?.mode === "interval"
+      ? `Every ${params?.intervalValue || "?"} ${params?.intervalUnit || "minutes"}`
+      : params?.cronExpression ? `${params.cronExpression} (${params.timezone || "UTC"})` : "Configure schedule",
+    icon: (
+      <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"></path>
+      </svg>
+    ),
+    borderColor: "border-success",
+    iconBg: "bg-success",
+    statusColor: "bg-success"
+  },
   FetchApiNode: {
     name: "HTTP Request",
     description: (params: any) => params?.url ? `${params.method || 'GET'} ${params.url}` : "Configure HTTP request",
@@ -59,7 +103,53 @@ const nodeConfigs = {
   }
 };
 
-export function WorkflowNode({ node, onClick, onDelete, style }: WorkflowNodeProps) {
+// Size of a port dot (w-3) and of the card border (border-2), in pixels
+const PORT_SIZE = 12;
+const BORDER_WIDTH = 2;
+
+const outputPorts: Record<ConnectionOutput, { className: string; title: string; testId: (nodeId: string) => string }> = {
+  main: {
+    className: "bg-border hover:bg-primary",
+    title: "Output connection - drag to connect",
+    testId: (nodeId) => `connection-output-${nodeId}`
+  },
+  true: {
+    className: "bg-success hover:bg-success/80",
+    title: "True output - drag to connect",
+    testId: (nodeId) => `connection-output-true-${nodeId}`
+  },
+  false: {
+    className: "bg-destructive hover:bg-destructive/80",
+    title: "False output - drag to connect",
+    testId: (nodeId) => `connection-output-false-${nodeId}`
+  },
+  error: {
+    className: "bg-warning hover:bg-warning/80",
+    title: "Error output - drag to connect",
+    testId: (nodeId) => `connection-output-error-${nodeId}`
+  }
+};
+
+const statusIndicators: Record<string, { dotClass: string; label: string }> = {
+  running: { dotClass: "bg-warning animate-pulse", label: "Running" },
+  success: { dotClass: "bg-success", label: "Succeeded" },
+  error: { dotClass: "bg-destructive", label: "Failed" },
+  skipped: { dotClass: "bg-muted-foreground", label: "Skipped" }
+};
+
+export function WorkflowNode({
+  node,
+  run,
+  onClick,
+  onDelete,
+  selected,
+  diffStatus,
+  onPointerDown,
+  onOutputPointerDown,
+  connectionTarget,
+  onExecute,
+  style
+}: WorkflowNodeProps) {
   const config = nodeConfigs[node.type as keyof typeof nodeConfigs];
   
   if (!config) {
@@ -79,6 +169,40 @@ export function WorkflowNode({ node, onClick, onDelete, style }: WorkflowNodePro
     ? config.description(node.params) 
     : config.description;
 
+  const statusIndicator = node.status ? statusIndicators[node.status] : undefined;
+  const hasRunData = node.status === "success" || node.status === "error";
+
+  // A connection hovering over the node outranks the diff, which outranks the selection
+  const getRingClass = () => {
+    switch (connectionTarget) {
+      case "valid":
+        return "ring-2 ring-success ring-offset-2";
+      case "invalid":
+        return "ring-2 ring-destructive ring-offset-2";
+    }
+    switch (diffStatus) {
+      case "added":
+        return "ring-2 ring-success ring-offset-2";
+      case "changed":
+        return "ring-2 ring-warning ring-offset-2";
+      case "removed":
+        return "ring-2 ring-destructive ring-offset-2 border-dashed opacity-50 pointer-events-none";
+    }
+    return selected ? "ring-2 ring-primary ring-offset-2" : "";
+  };
+
+  // Output dots take the pointer so dragging from them draws a connection
+  const outputPortProps = (output: ConnectionOutput) => ({
+    "data-port": "output",
+    "data-output": output,
+    onPointerDown: (e: React.PointerEvent) => {
+      if (!onOutputPointerDown) return;
+      e.stopPropagation();
+      onOutputPointerDown(output, e);
+    },
+    onClick: (e: React.MouseEvent) => e.stopPropagation()
+  });
+
   const getStatusBorderClass = () => {
     switch (node.status) {
       case "running":
@@ -87,23 +211,28 @@ export function WorkflowNode({ node, onClick, onDelete, style }: WorkflowNodePro
         return "border-success";
       case "error":
         return "border-destructive";
+      case "skipped":
+        return "border-dashed border-muted-foreground opacity-60";
       default:
         return config.borderColor;
     }
   };
 
-  return (
+  const card = (
     <div
       className={`
-        node absolute bg-card border-2 rounded-lg shadow-lg p-4 w-48 cursor-pointer
+        node absolute bg-card border-2 rounded-lg shadow-lg p-4 w-48 cursor-pointer touch-none select-none
         transition-all duration-200 hover:-translate-y-1 hover:shadow-xl hover:border-primary/60
-        ${getStatusBorderClass()}
+        ${getStatusBorderClass()} ${getRingClass()}
       `}
       style={style}
       onClick={onClick}
+      onPointerDown={onPointerDown}
       data-node-id={node.id}
+      data-selected={selected || undefined}
+      data-diff={diffStatus}
       data-testid={`node-${node.id}`}
-      title="Click to configure this node"
+      title={hasRunData ? "Click to view this node's data from the run" : "Click to configure this node"}
     >
       <div className="flex items-center gap-3 mb-2">
         <div className={`w-8 h-8 ${config.iconBg} rounded-md flex items-center justify-center`}>
@@ -136,40 +265,75 @@ export function WorkflowNode({ node, onClick, onDelete, style }: WorkflowNodePro
       <div className="flex justify-between items-center">
         {/* Connection points */}
         <div className="flex gap-1">
-          {node.type !== 'StartNode' && (
+          {!isTriggerNodeType(node.type) && (
             <div 
-              className="w-3 h-3 bg-border rounded-full cursor-pointer hover:bg-secondary transition-colors" 
+              className={`w-3 h-3 rounded-full cursor-pointer hover:bg-secondary transition-colors ${
+                connectionTarget === "valid" ? "bg-success" : connectionTarget === "invalid" ? "bg-destructive" : "bg-border"
+              }`}
               title="Input connection"
+              data-port="input"
               data-testid={`connection-input-${node.id}`}
             />
           )}
         </div>
-        <div className="flex gap-1">
-          {node.type === 'IfNode' ? (
-            <>
-              <div 
-                className="w-3 h-3 bg-success rounded-full cursor-pointer hover:bg-success/80 transition-colors" 
-                title="True output"
-                data-testid={`connection-output-true-${node.id}`}
-              />
-              <div 
-                className="w-3 h-3 bg-destructive rounded-full cursor-pointer hover:bg-destructive/80 transition-colors" 
-                title="False output"
-                data-testid={`connection-output-false-${node.id}`}
-              />
-            </>
-          ) : node.type !== 'LogMessageNode' && (
-            <div 
-              className="w-3 h-3 bg-border rounded-full cursor-pointer hover:bg-primary transition-colors" 
-              title="Output connection"
-              data-testid={`connection-output-${node.id}`}
-            />
-          )}
-        </div>
-        
         {/* Status indicator */}
-        <div className={`w-2 h-2 ${config.statusColor} rounded-full`} title="Ready" />
+        <div
+          className={`w-2 h-2 ${statusIndicator?.dotClass ?? config.statusColor} rounded-full`}
+          title={statusIndicator?.label ?? "Ready"}
+          data-testid={`status-node-${node.id}`}
+        />
       </div>
+
+      {/* Output ports on the right edge, where connections leave from */}
+      {getNodeOutputs(node).map(output => {
+        const offset = getOutputPortOffset(node, output);
+        return (
+          <div
+            key={output}
+            className={`absolute w-3 h-3 rounded-full cursor-crosshair transition-colors ${outputPorts[output].className}`}
+            style={{
+              top: offset.y - BORDER_WIDTH - PORT_SIZE / 2,
+              left: offset.x - BORDER_WIDTH - PORT_SIZE / 2
+            }}
+            title={outputPorts[output].title}
+            {...outputPortProps(output)}
+            data-testid={outputPorts[output].testId(node.id)}
+          />
+        );
+      })}
+
+      {/* Result of the current run */}
+      {statusIndicator && (
+        <div
+          className="mt-3 pt-2 border-t border-border flex justify-between text-xs text-muted-foreground"
+          data-testid={`text-node-run-${node.id}`}
+        >
+          <span>{statusIndicator.label}</span>
+          {run?.durationMs !== undefined && node.status !== "running" && (
+            <span>
+              {formatDuration(run.durationMs)} · {run.itemCount ?? 0} item{run.itemCount === 1 ? "" : "s"}
+            </span>
+          )}
+        </div>
+      )}
     </div>
   );
+
+  if (!onExecute) return card;
+
+  return (
+    <ContextMenu>
+      <ContextMenuTrigger asChild>{card}</ContextMenuTrigger>
+      <ContextMenuContent data-testid={`context-menu-${node.id}`}>
+        <ContextMenuItem onSelect={() => onExecute("upTo")} data-testid={`menu-execute-up-to-${node.id}`}>
+          <Play className="w-4 h-4 mr-2" />
+          Execute up to here
+        </ContextMenuItem>
+        <ContextMenuItem onSelect={() => onExecute("from")} data-testid={`menu-execute-from-${node.id}`}>
+          <SkipForward className="w-4 h-4 mr-2" />
+          Execute from here
+        </ContextMenuItem>
+      </ContextMenuContent>
+    </ContextMenu>
+  );
 }
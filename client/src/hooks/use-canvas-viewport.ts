@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useState } from "react";
+import { DEFAULT_VIEWPORT, clampZoom, type Viewport } from "@/lib/canvas-viewport";
+
+const STORAGE_PREFIX = "workflow-viewport:";
+
+function loadViewport(workflowId: string): Viewport {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_PREFIX + workflowId) ?? "null");
+    if (saved && [saved.x, saved.y, saved.zoom].every(value => typeof value === "number" && isFinite(value))) {
+      return { x: saved.x, y: saved.y, zoom: clampZoom(saved.zoom) };
+    }
+  } catch {
+    // Unreadable entries fall back to the default viewport
+  }
+  return DEFAULT_VIEWPORT;
+}
+
+/**
+ * Pan and zoom of a workflow's canvas, remembered per workflow in localStorage
+ */
+export function useCanvasViewport(workflowId: string) {
+  const [viewport, setViewport] = useState<{ workflowId: string; value: Viewport }>(
+    () => ({ workflowId, value: loadViewport(workflowId) })
+  );
+
+  // Switching workflows restores that workflow's viewport in the same render
+  const current = viewport.workflowId === workflowId ? viewport.value : loadViewport(workflowId);
+
+  useEffect(() => {
+    if (viewport.workflowId !== workflowId) {
+      setViewport({ workflowId, value: loadViewport(workflowId) });
+    }
+  }, [workflowId, viewport.workflowId]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_PREFIX + viewport.workflowId, JSON.stringify(viewport.value));
+    } catch {
+      // Storage may be full or disabled; the viewport just won't persist
+    }
+  }, [viewport]);
+
+  const update = useCallback((next: Viewport | ((current: Viewport) => Viewport)) => {
+    setViewport(previous => {
+      const base = previous.workflowId === workflowId ? previous.value : loadViewport(workflowId);
+      return { workflowId, value: typeof next === "function" ? next(base) : next };
+    });
+  }, [workflowId]);
+
+  return [current, update] as const;
+}
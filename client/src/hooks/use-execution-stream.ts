@@ -0,0 +1,174 @@
+import { useEffect, useState } from "react";
+import { type Execution, type ExecutionLog, type ExecutionLogPage, type ExecutionSocketMessage } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+const RECONNECT_DELAY = 1000;
+
+export interface ExecutionStream {
+  execution?: Execution;
+  connected: boolean;
+}
+
+// Lines fetched over HTTP may arrive after live lines that follow them
+function mergeLogs(current: ExecutionLog[], incoming: ExecutionLog[]): ExecutionLog[] {
+  const lastSequence = current.length > 0 ? current[current.length - 1].sequence : 0;
+  if (incoming.every(log => log.sequence > lastSequence)) {
+    return incoming.length > 0 ? [...current, ...incoming] : current;
+  }
+
+  const bySequence = new Map(current.map(log => [log.sequence, log]));
+  const newLogs = incoming.filter(log => !bySequence.has(log.sequence));
+  return newLogs.length > 0
+    ? [...current, ...newLogs].sort((a, b) => a.sequence - b.sequence)
+    : current;
+}
+
+/**
+ * Fold a socket message into the execution state. Events may repeat what a
+ * snapshot already holds, so every step is idempotent.
+ */
+function applyMessage(execution: Execution | undefined, message: ExecutionSocketMessage): Execution | undefined {
+  if (message.type === "snapshot") {
+    // Snapshots carry no log lines; keep the ones we already have
+    const logs = execution?.id === message.execution.id ? execution.logs : [];
+    return { ...message.execution, logs };
+  }
+
+  if (!execution) return execution;
+
+  switch (message.type) {
+    case "node-started":
+      return {
+        ...execution,
+        currentNodeIds: Array.from(new Set([...(execution.currentNodeIds ?? []), message.nodeId])),
+        nodeStatuses: { ...execution.nodeStatuses, [message.nodeId]: "running" },
+        nodeRuns: { ...execution.nodeRuns, [message.nodeId]: { startedAt: message.timestamp } }
+      };
+    case "node-finished":
+      return {
+        ...execution,
+        currentNodeIds: (execution.currentNodeIds ?? []).filter(id => id !== message.nodeId),
+        nodeStatuses: { ...execution.nodeStatuses, [message.nodeId]: message.status },
+        ...(message.output ? {
+          results: { ...execution.results, [message.nodeId]: message.output },
+          nodeInputs: { ...execution.nodeInputs, [message.nodeId]: message.input ?? [] },
+          itemLineage: { ...execution.itemLineage, [message.nodeId]: message.lineage ?? [] }
+        } : {}),
+        nodeRuns: {
+          ...execution.nodeRuns,
+          [message.nodeId]: {
+            startedAt: execution.nodeRuns?.[message.nodeId]?.startedAt ?? message.timestamp,
+            finishedAt: message.timestamp,
+            durationMs: message.durationMs,
+            itemCount: message.itemCount
+          }
+        }
+      };
+    case "log":
+      return { ...execution, logs: mergeLogs(execution.logs, [message.log]) };
+    case "execution-status":
+      // A run that has ended sends its final state, data of every node included
+      if (message.execution) {
+        return { ...message.execution, logs: execution.logs };
+      }
+      return {
+        ...execution,
+        status: message.status,
+        completedAt: message.completedAt ?? execution.completedAt,
+        currentNodeIds: message.status === "running" ? execution.currentNodeIds : []
+      };
+  }
+}
+
+/**
+ * Subscribe to an execution over WebSocket and keep its state current.
+ * Reconnects while the execution is running; after every snapshot the log
+ * lines missed meanwhile are fetched page by page over HTTP.
+ */
+export function useExecutionStream(executionId: string | null | undefined): ExecutionStream {
+  const [execution, setExecution] = useState<Execution>();
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    setExecution(undefined);
+    if (!executionId) return;
+
+    let socket: WebSocket | undefined;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let disposed = false;
+    let finished = false;
+    // Every line up to this sequence has been fetched
+    let fetchedThrough = 0;
+    let fetching = false;
+    let fetchAgain = false;
+
+    const fetchLogs = async () => {
+      if (fetching) {
+        fetchAgain = true;
+        return;
+      }
+      fetching = true;
+      try {
+        do {
+          fetchAgain = false;
+          let page: ExecutionLogPage;
+          do {
+            const response = await apiRequest("GET", `/api/executions/${executionId}/logs?after=${fetchedThrough}`);
+            page = await response.json();
+            if (disposed) return;
+            fetchedThrough = page.nextAfter;
+            setExecution(current => current && { ...current, logs: mergeLogs(current.logs, page.logs) });
+          } while (page.hasMore);
+        } while (fetchAgain && !disposed);
+      } catch (error) {
+        // The next reconnect fetches from the same place
+      } finally {
+        fetching = false;
+      }
+    };
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      const params = new URLSearchParams({ executionId });
+      socket = new WebSocket(`${protocol}//${window.location.host}/ws/executions?${params}`);
+
+      socket.onopen = () => setConnected(true);
+
+      socket.onmessage = (event) => {
+        const message: ExecutionSocketMessage = JSON.parse(event.data);
+
+        if (message.type === "snapshot") {
+          finished = message.execution.status !== "running";
+        } else if (message.type === "execution-status") {
+          finished = message.status !== "running";
+        }
+
+        setExecution(current => applyMessage(current, message));
+        if (message.type === "snapshot") {
+          fetchLogs();
+        }
+        if (finished) {
+          socket?.close();
+        }
+      };
+
+      socket.onclose = (event) => {
+        setConnected(false);
+        // 4404: the execution does not exist, so retrying will not help
+        if (!disposed && !finished && event.code !== 4404) {
+          reconnectTimer = setTimeout(connect, RECONNECT_DELAY);
+        }
+      };
+    };
+
+    connect();
+
+    return () => {
+      disposed = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, [executionId]);
+
+  return { execution, connected };
+}
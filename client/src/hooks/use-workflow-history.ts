@@ -0,0 +1,210 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { type Workflow } from "@shared/schema";
+
+// The part of a workflow edited on the canvas and tracked by undo/redo
+export type WorkflowGraph = Pick<Workflow, "nodes" | "connections">;
+
+export interface WorkflowChangeOptions {
+  // Consecutive changes with the same group merge into one undo step
+  group?: string;
+}
+
+interface HistoryState {
+  workflowId?: string;
+  past: WorkflowGraph[];
+  present?: WorkflowGraph;
+  future: WorkflowGraph[];
+  group?: string;
+  groupedAt: number;
+}
+
+// Undo steps kept per workflow
+const MAX_HISTORY = 100;
+
+// Quiet time after the last change before it is saved
+const SAVE_DELAY = 1000;
+
+// Grouped changes further apart than this start a new undo step
+const GROUP_WINDOW = 1000;
+
+const EMPTY_HISTORY: HistoryState = { past: [], future: [], groupedAt: 0 };
+
+function toGraph(workflow: Workflow): WorkflowGraph {
+  return { nodes: workflow.nodes, connections: workflow.connections };
+}
+
+// JSON with object keys sorted, since jsonb columns don't keep key order
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, child]) => child !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, child]) => `${JSON.stringify(key)}:${canonicalJson(child)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function sameGraph(a: WorkflowGraph, b: WorkflowGraph): boolean {
+  return canonicalJson(a) === canonicalJson(b);
+}
+
+/**
+ * Local draft of a workflow's nodes and connections with undo/redo. Changes
+ * apply instantly and are saved once editing pauses for SAVE_DELAY.
+ */
+export function useWorkflowHistory(
+  serverWorkflow: Workflow | undefined,
+  save: (workflowId: string, graph: WorkflowGraph) => Promise<unknown>
+) {
+  const [history, setHistory] = useState<HistoryState>(EMPTY_HISTORY);
+  const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  const historyRef = useRef(history);
+  historyRef.current = history;
+  const saveRef = useRef(save);
+  saveRef.current = save;
+  const dirtyRef = useRef(false);
+  const savingRef = useRef<Promise<boolean>>();
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout>>();
+
+  const markDirty = (dirty: boolean) => {
+    dirtyRef.current = dirty;
+    setHasUnsavedChanges(dirty);
+  };
+
+  /**
+   * Save pending changes now. Resolves once they and any save already in
+   * flight have finished, with whether the last save succeeded.
+   */
+  const flush = useCallback(async (): Promise<boolean> => {
+    clearTimeout(saveTimerRef.current);
+    // Read the draft before awaiting anything: leaving a workflow resets it
+    const { workflowId, present } = historyRef.current;
+    if (!dirtyRef.current || !workflowId || !present) {
+      return savingRef.current ?? true;
+    }
+
+    markDirty(false);
+    const previous = savingRef.current;
+    const saving = (async () => {
+      // Saves go out in order so an older draft never lands last
+      await previous;
+      try {
+        await saveRef.current(workflowId, present);
+        return true;
+      } catch {
+        markDirty(true);
+        return false;
+      }
+    })();
+    savingRef.current = saving;
+    const saved = await saving;
+    if (savingRef.current === saving) {
+      savingRef.current = undefined;
+    }
+    return saved;
+  }, []);
+
+  const scheduleSave = () => {
+    markDirty(true);
+    clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = setTimeout(() => void flush(), SAVE_DELAY);
+  };
+
+  // Follow the server copy: a new workflow resets the history, and outside
+  // changes replace the draft while nothing local is waiting to be saved
+  useEffect(() => {
+    if (!serverWorkflow) return;
+    const current = historyRef.current;
+
+    const outdated = current.workflowId !== serverWorkflow.id ||
+      (!dirtyRef.current && !savingRef.current && current.present && !sameGraph(current.present, toGraph(serverWorkflow)));
+    if (outdated) {
+      const reset = { ...EMPTY_HISTORY, workflowId: serverWorkflow.id, present: toGraph(serverWorkflow) };
+      historyRef.current = reset;
+      setHistory(reset);
+    }
+  }, [serverWorkflow]);
+
+  // Leaving a workflow saves what is still pending for it
+  useEffect(() => {
+    return () => void flush();
+  }, [serverWorkflow?.id, flush]);
+
+  useEffect(() => {
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      if (dirtyRef.current) event.preventDefault();
+    };
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+  }, []);
+
+  const apply = (update: (graph: WorkflowGraph) => WorkflowGraph, options: WorkflowChangeOptions = {}) => {
+    const current = historyRef.current;
+    if (!current.present) return;
+
+    const next = update(current.present);
+    const now = Date.now();
+    const merge = options.group !== undefined && options.group === current.group && now - current.groupedAt < GROUP_WINDOW;
+    const nextHistory: HistoryState = {
+      ...current,
+      past: merge ? current.past : [...current.past, current.present].slice(-MAX_HISTORY),
+      present: next,
+      future: [],
+      group: options.group,
+      groupedAt: now
+    };
+    historyRef.current = nextHistory;
+    setHistory(nextHistory);
+    scheduleSave();
+  };
+
+  const undo = () => {
+    const current = historyRef.current;
+    if (current.past.length === 0 || !current.present) return;
+
+    const nextHistory: HistoryState = {
+      ...current,
+      past: current.past.slice(0, -1),
+      present: current.past[current.past.length - 1],
+      future: [current.present, ...current.future],
+      group: undefined,
+      groupedAt: 0
+    };
+    historyRef.current = nextHistory;
+    setHistory(nextHistory);
+    scheduleSave();
+  };
+
+  const redo = () => {
+    const current = historyRef.current;
+    if (current.future.length === 0 || !current.present) return;
+
+    const nextHistory: HistoryState = {
+      ...current,
+      past: [...current.past, current.present],
+      present: current.future[0],
+      future: current.future.slice(1),
+      group: undefined,
+      groupedAt: 0
+    };
+    historyRef.current = nextHistory;
+    setHistory(nextHistory);
+    scheduleSave();
+  };
+
+  const workflow = serverWorkflow && history.workflowId === serverWorkflow.id && history.present
+    ? { ...serverWorkflow, ...history.present }
+    : serverWorkflow;
+
+  return {
+    workflow,
+    apply,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    hasUnsavedChanges,
+    flush
+  };
+}
@@ -0,0 +1,144 @@
+import { type ConnectionOutput, type WorkflowNode } from "@shared/schema";
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export interface Bounds extends Point, Size {}
+
+/**
+ * Pan and zoom of the canvas: a world point p is drawn at p * zoom + (x, y)
+ */
+export interface Viewport extends Point {
+  zoom: number;
+}
+
+// Rendered size of a WorkflowNode card (w-48) in world units
+export const NODE_WIDTH = 192;
+export const NODE_HEIGHT = 120;
+
+// Vertical distance between output ports on a node's right edge
+const OUTPUT_PORT_SPACING = 24;
+
+/**
+ * Outputs a node emits on, top to bottom: its branches or "main" (log nodes
+ * have none), then "error" when its failures are routed there
+ */
+export function getNodeOutputs(node: WorkflowNode): ConnectionOutput[] {
+  const outputs: ConnectionOutput[] = node.type === "IfNode"
+    ? ["true", "false"]
+    : node.type === "LogMessageNode" ? [] : ["main"];
+  if (node.settings?.onError === "errorOutput") {
+    outputs.push("error");
+  }
+  return outputs;
+}
+
+/**
+ * Centre of an output port relative to the node's top-left corner. Ports are
+ * spread around the middle of the right edge, where connections leave.
+ */
+export function getOutputPortOffset(node: WorkflowNode, output: ConnectionOutput): Point {
+  const outputs = getNodeOutputs(node);
+  const index = Math.max(0, outputs.indexOf(output));
+  return {
+    x: NODE_WIDTH,
+    y: NODE_HEIGHT / 2 + (index - (outputs.length - 1) / 2) * OUTPUT_PORT_SPACING
+  };
+}
+
+export const MIN_ZOOM = 0.2;
+export const MAX_ZOOM = 2;
+
+export const DEFAULT_VIEWPORT: Viewport = { x: 0, y: 0, zoom: 1 };
+
+export function clampZoom(zoom: number): number {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+}
+
+export function screenToWorld(viewport: Viewport, point: Point): Point {
+  return {
+    x: (point.x - viewport.x) / viewport.zoom,
+    y: (point.y - viewport.y) / viewport.zoom
+  };
+}
+
+export function worldToScreen(viewport: Viewport, point: Point): Point {
+  return {
+    x: point.x * viewport.zoom + viewport.x,
+    y: point.y * viewport.zoom + viewport.y
+  };
+}
+
+/**
+ * Zoom to `zoom` while the world point under `anchor` (screen coordinates)
+ * stays where it is
+ */
+export function zoomAround(viewport: Viewport, anchor: Point, zoom: number): Viewport {
+  const nextZoom = clampZoom(zoom);
+  const world = screenToWorld(viewport, anchor);
+  return {
+    x: anchor.x - world.x * nextZoom,
+    y: anchor.y - world.y * nextZoom,
+    zoom: nextZoom
+  };
+}
+
+/**
+ * Smallest box holding every node, or undefined when there are none
+ */
+export function getNodesBounds(nodes: Pick<WorkflowNode, "position">[]): Bounds | undefined {
+  if (nodes.length === 0) return undefined;
+
+  const left = Math.min(...nodes.map(node => node.position.x));
+  const top = Math.min(...nodes.map(node => node.position.y));
+  const right = Math.max(...nodes.map(node => node.position.x + NODE_WIDTH));
+  const bottom = Math.max(...nodes.map(node => node.position.y + NODE_HEIGHT));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+/**
+ * Viewport that centers `bounds` in a screen of `size`, leaving `padding`
+ * pixels around it. Never zooms in past 100%.
+ */
+export function fitBounds(bounds: Bounds, size: Size, padding = 48): Viewport {
+  const zoom = clampZoom(Math.min(
+    1,
+    (size.width - padding * 2) / Math.max(bounds.width, 1),
+    (size.height - padding * 2) / Math.max(bounds.height, 1)
+  ));
+  return {
+    x: size.width / 2 - (bounds.x + bounds.width / 2) * zoom,
+    y: size.height / 2 - (bounds.y + bounds.height / 2) * zoom,
+    zoom
+  };
+}
+
+/**
+ * Part of the world visible through the viewport
+ */
+export function getVisibleBounds(viewport: Viewport, size: Size): Bounds {
+  const topLeft = screenToWorld(viewport, { x: 0, y: 0 });
+  return {
+    ...topLeft,
+    width: size.width / viewport.zoom,
+    height: size.height / viewport.zoom
+  };
+}
+
+export function unionBounds(a: Bounds, b: Bounds): Bounds {
+  const left = Math.min(a.x, b.x);
+  const top = Math.min(a.y, b.y);
+  return {
+    x: left,
+    y: top,
+    width: Math.max(a.x + a.width, b.x + b.width) - left,
+    height: Math.max(a.y + a.height, b.y + b.height) - top
+  };
+}
@@ -0,0 +1,94 @@
+import { type INodeData } from "@shared/schema";
+
+export type PathSegment = string | number;
+
+export type ValueType = "string" | "number" | "boolean" | "null" | "object" | "array";
+
+export interface SchemaField {
+  path: PathSegment[];
+  types: ValueType[];
+  example?: unknown;
+}
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Expression that reads `path` from `root`, e.g. `$json.user["first name"]`
+ */
+export function toExpressionPath(root: string, path: PathSegment[]): string {
+  return path.reduce<string>((expression, segment) => {
+    if (typeof segment === "number") return `${expression}[${segment}]`;
+    return IDENTIFIER.test(segment) ? `${expression}.${segment}` : `${expression}[${JSON.stringify(segment)}]`;
+  }, root);
+}
+
+/**
+ * Expression root for a node's items: inputs are the current item, outputs
+ * are read from downstream nodes through $node
+ */
+export function getExpressionRoot(side: "input" | "output", nodeId: string): string {
+  return side === "input" ? "$json" : `$node[${JSON.stringify(nodeId)}].json`;
+}
+
+export function getValueType(value: unknown): ValueType {
+  if (value === null || value === undefined) return "null";
+  if (Array.isArray(value)) return "array";
+  const type = typeof value;
+  return type === "string" || type === "number" || type === "boolean" ? type : "object";
+}
+
+/**
+ * Every field found across the items with the types it takes. Array elements
+ * share the path of index 0.
+ */
+export function inferSchema(items: INodeData[]): SchemaField[] {
+  const fields = new Map<string, SchemaField>();
+
+  const visit = (value: unknown, path: PathSegment[]) => {
+    const type = getValueType(value);
+    if (path.length > 0) {
+      const key = JSON.stringify(path);
+      const field = fields.get(key) ?? { path, types: [] };
+      if (!field.types.includes(type)) field.types.push(type);
+      if (field.example === undefined && type !== "object" && type !== "array" && type !== "null") {
+        field.example = value;
+      }
+      fields.set(key, field);
+    }
+
+    if (type === "array") {
+      (value as unknown[]).forEach(element => visit(element, [...path, 0]));
+    } else if (type === "object") {
+      for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+        visit(child, [...path, key]);
+      }
+    }
+  };
+
+  items.forEach(item => visit(item, []));
+  return Array.from(fields.values());
+}
+
+/**
+ * Top-level keys across all items, in first-seen order
+ */
+export function getTableColumns(items: INodeData[]): string[] {
+  const columns = new Set<string>();
+  for (const item of items) {
+    if (getValueType(item) === "object") {
+      Object.keys(item).forEach(key => columns.add(key));
+    }
+  }
+  return Array.from(columns);
+}
+
+export function formatCellValue(value: unknown): string {
+  if (value === undefined) return "";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+}
+
+export function matchesSearch(value: unknown, query: string): boolean {
+  if (!query) return true;
+  return JSON.stringify(value ?? null).toLowerCase().includes(query.toLowerCase());
+}
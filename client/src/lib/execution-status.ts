@@ -0,0 +1,35 @@
+import { type Execution } from "@shared/schema";
+
+export function getRunStatusDotClass(status?: Execution["status"]) {
+  switch (status) {
+    case "running":
+      return "bg-warning animate-pulse";
+    case "failed":
+      return "bg-destructive";
+    case "stopped":
+      return "bg-muted-foreground";
+    case "missed":
+      return "bg-warning";
+    default:
+      return "bg-success";
+  }
+}
+
+export function getRunStatusLabel(status?: Execution["status"]) {
+  switch (status) {
+    case "running":
+      return "Running";
+    case "completed":
+      return "Last run succeeded";
+    case "failed":
+      return "Last run failed";
+    case "stopped":
+      return "Last run stopped";
+    default:
+      return "Ready";
+  }
+}
+
+export function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(ms < 10000 ? 1 : 0)}s`;
+}
@@ -0,0 +1,101 @@
+import { z } from "zod";
+import {
+  connectionSchema,
+  workflowNodeSchema,
+  type Connection,
+  type Workflow,
+  type WorkflowNode
+} from "@shared/schema";
+
+/**
+ * Nodes and the connections between them, in the same shape as a workflow so
+ * a whole exported workflow pastes too
+ */
+export const workflowFragmentSchema = z.object({
+  nodes: z.array(workflowNodeSchema).min(1),
+  connections: z.array(connectionSchema).default([])
+});
+
+export type WorkflowFragment = z.infer<typeof workflowFragmentSchema>;
+
+// How far a paste lands from the nodes it was copied from
+export const PASTE_OFFSET = 40;
+
+export function createNodeId(): string {
+  return `node-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+export function createConnectionId(): string {
+  return `conn-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * The selected nodes with only the connections running between them
+ */
+export function extractFragment(workflow: Pick<Workflow, "nodes" | "connections">, nodeIds: string[]): WorkflowFragment {
+  const ids = new Set(nodeIds);
+  return {
+    nodes: workflow.nodes.filter(node => ids.has(node.id)),
+    connections: workflow.connections.filter(conn => ids.has(conn.from) && ids.has(conn.to))
+  };
+}
+
+export function serializeFragment(fragment: WorkflowFragment): string {
+  return JSON.stringify(fragment, null, 2);
+}
+
+/**
+ * Parse clipboard text as a fragment, or undefined when it isn't one
+ */
+export function parseFragment(text: string): WorkflowFragment | undefined {
+  try {
+    const result = workflowFragmentSchema.safeParse(JSON.parse(text));
+    return result.success ? result.data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Rewrite $node["id"] references in parameters to the pasted copies
+function remapNodeReferences(value: unknown, idMap: Map<string, string>): unknown {
+  if (typeof value === "string") {
+    return value.replace(/\$node\[(["'])(.*?)\1\]/g, (match, quote: string, id: string) => {
+      const newId = idMap.get(id);
+      return newId ? `$node[${quote}${newId}${quote}]` : match;
+    });
+  }
+  if (Array.isArray(value)) return value.map(item => remapNodeReferences(item, idMap));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => [key, remapNodeReferences(child, idMap)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Copy of a fragment with fresh node and connection ids, moved by `offset`
+ * and with run state cleared
+ */
+export function cloneFragment(fragment: WorkflowFragment, offset = { x: PASTE_OFFSET, y: PASTE_OFFSET }): WorkflowFragment {
+  const idMap = new Map(fragment.nodes.map(node => [node.id, createNodeId()]));
+
+  const nodes: WorkflowNode[] = fragment.nodes.map(node => ({
+    ...node,
+    id: idMap.get(node.id)!,
+    position: { x: node.position.x + offset.x, y: node.position.y + offset.y },
+    params: node.params && (remapNodeReferences(node.params, idMap) as WorkflowNode["params"]),
+    status: "idle"
+  }));
+
+  const connections: Connection[] = fragment.connections
+    .filter(conn => idMap.has(conn.from) && idMap.has(conn.to))
+    .map(conn => ({
+      ...conn,
+      id: createConnectionId(),
+      from: idMap.get(conn.from)!,
+      to: idMap.get(conn.to)!
+    }));
+
+  return { nodes, connections };
+}
@@ -0,0 +1,164 @@
+import React, { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation, useParams } from "wouter";
+import { type Execution, type Workflow, type WorkflowVersion } from "@shared/schema";
+import { WorkflowCanvas } from "@/components/workflow-canvas";
+import { ExecutionModal } from "@/components/execution-modal";
+import { NodeDataInspector } from "@/components/node-data-inspector";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useExecutionStream } from "@/hooks/use-execution-stream";
+import { getRunStatusDotClass } from "@/lib/execution-status";
+import { ArrowLeft, ScrollText, X } from "lucide-react";
+
+// A saved version in the shape the canvas draws
+function toWorkflow(version: WorkflowVersion): Workflow {
+  return {
+    id: version.workflowId,
+    name: version.name,
+    description: version.description,
+    nodes: version.nodes,
+    connections: version.connections,
+    version: version.version,
+    createdAt: version.createdAt,
+    updatedAt: version.createdAt
+  };
+}
+
+/**
+ * A past or running execution on a read-only canvas of the workflow version
+ * it ran, with each node's status and data
+ */
+export default function ExecutionRun() {
+  const { id: workflowId, executionId } = useParams<{ id: string; executionId: string }>();
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  const [isLogOpen, setIsLogOpen] = useState(false);
+  const [, navigate] = useLocation();
+
+  const { data: storedExecution, isLoading: executionLoading } = useQuery<Execution>({
+    queryKey: ["/api/executions", executionId],
+  });
+  // Streams live progress while the run is still going
+  const stream = useExecutionStream(executionId);
+  const execution = stream.execution ?? storedExecution;
+  const workflowVersion = execution?.workflowVersion;
+
+  const { data: snapshot, isLoading: snapshotLoading } = useQuery<WorkflowVersion>({
+    queryKey: ["/api/workflows", workflowId, "versions", workflowVersion],
+    enabled: workflowVersion !== undefined,
+  });
+  // Runs from before versioning only have the current design to show
+  const { data: currentWorkflow, isLoading: workflowLoading } = useQuery<Workflow>({
+    queryKey: ["/api/workflows", workflowId],
+    enabled: !!execution && workflowVersion === undefined,
+  });
+  const workflow = snapshot ? toWorkflow(snapshot) : currentWorkflow;
+
+  if (executionLoading || snapshotLoading || workflowLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading execution...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!execution || execution.workflowId !== workflowId || !workflow) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center text-center">
+        <div className="max-w-md">
+          <h3 className="text-lg font-medium mb-2">Execution Not Found</h3>
+          <p className="text-muted-foreground mb-4">It may have been deleted along with its workflow.</p>
+          <Button variant="outline" asChild data-testid="button-back-to-workflows">
+            <Link href="/workflows">All workflows</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const selectedNodeRan = !!selectedNodeId && !!execution.nodeStatuses?.[selectedNodeId];
+
+  return (
+    <div className="flex flex-col h-screen overflow-hidden bg-background">
+      <div className="bg-card border-b border-border p-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="sm" asChild title="Back to the editor" data-testid="button-back-to-editor">
+              <Link href={`/workflows/${workflowId}`}>
+                <ArrowLeft className="w-4 h-4" />
+              </Link>
+            </Button>
+            <div>
+              <h1 className="text-lg font-semibold" data-testid="text-workflow-name">{workflow.name}</h1>
+              <p className="text-xs text-muted-foreground" data-testid="text-started-time">
+                Started {new Date(execution.startedAt).toLocaleString()}
+              </p>
+            </div>
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <div className={`w-2 h-2 rounded-full ${getRunStatusDotClass(execution.status)}`}></div>
+              <span className="capitalize" data-testid="text-status">{execution.status}</span>
+            </div>
+            {snapshot ? (
+              <Badge variant="outline" data-testid="badge-workflow-version">Version {snapshot.version}</Badge>
+            ) : (
+              <Badge variant="secondary" title="This run predates version tracking" data-testid="badge-workflow-version">
+                Current design
+              </Badge>
+            )}
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setIsLogOpen(true)} data-testid="button-execution-log">
+            <ScrollText className="w-4 h-4 mr-2" />
+            Execution Log
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex overflow-hidden">
+        <div className="flex-1 relative overflow-hidden">
+          {/* No edit handlers: the canvas only pans, zooms and selects */}
+          <WorkflowCanvas
+            workflow={workflow}
+            onNodeClick={setSelectedNodeId}
+            execution={execution}
+            data-testid="execution-canvas"
+          />
+        </div>
+
+        {selectedNodeId && (
+          <div className="w-[28rem] bg-card border-l border-border flex flex-col" data-testid="execution-node-panel">
+            <div className="p-4 border-b border-border flex items-center justify-between">
+              <h2 className="font-medium">Node Data: {selectedNodeId}</h2>
+              <Button variant="ghost" size="sm" onClick={() => setSelectedNodeId(null)} data-testid="button-close-node-panel">
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+            <div className="p-4 flex-1 overflow-auto">
+              {selectedNodeRan ? (
+                <NodeDataInspector
+                  workflowId={workflowId}
+                  executionId={execution.id}
+                  nodeId={selectedNodeId}
+                  height="h-[calc(100vh-16rem)]"
+                />
+              ) : (
+                <p className="text-sm text-muted-foreground">This node did not run in this execution.</p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {isLogOpen && (
+        <ExecutionModal
+          stream={{ execution, connected: stream.connected }}
+          isOpen={isLogOpen}
+          onClose={() => setIsLogOpen(false)}
+          onExecutionStarted={(started) => navigate(`/workflows/${workflowId}/executions/${started.id}`)}
+        />
+      )}
+    </div>
+  );
+}
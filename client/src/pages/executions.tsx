@@ -0,0 +1,308 @@
+import React, { useEffect, useState } from "react";
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDuration, getRunStatusDotClass } from "@/lib/execution-status";
+import {
+  type Execution,
+  type ExecutionListPage,
+  type ExecutionListQuery,
+  type ExecutionTriggerType,
+  type Workflow
+} from "@shared/schema";
+import { ExecutionModal } from "@/components/execution-modal";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useExecutionStream } from "@/hooks/use-execution-stream";
+import { ArrowLeft, RefreshCw, Search, Workflow as WorkflowIcon } from "lucide-react";
+
+const PAGE_SIZE = 25;
+
+// Quiet time after typing before the error search is sent
+const SEARCH_DELAY = 300;
+
+const STATUSES: Execution["status"][] = ["running", "completed", "failed", "stopped", "missed"];
+const TRIGGER_TYPES: ExecutionTriggerType[] = ["manual", "webhook", "schedule"];
+
+// Sort options as "<sort>:<order>"
+const SORT_OPTIONS = [
+  { value: "startedAt:desc", label: "Newest first" },
+  { value: "startedAt:asc", label: "Oldest first" },
+  { value: "duration:desc", label: "Longest first" },
+  { value: "duration:asc", label: "Shortest first" }
+];
+
+interface ExecutionFilters {
+  status: string;
+  triggerType: string;
+  startedAfter: string;
+  startedBefore: string;
+  error: string;
+  sort: string;
+}
+
+const DEFAULT_FILTERS: ExecutionFilters = {
+  status: "all",
+  triggerType: "all",
+  startedAfter: "",
+  startedBefore: "",
+  error: "",
+  sort: SORT_OPTIONS[0].value
+};
+
+// Query string for one page; datetime-local values are in local time
+function toSearchParams(filters: ExecutionFilters, cursor?: string): URLSearchParams {
+  const [sort, order] = filters.sort.split(":") as [ExecutionListQuery["sort"], ExecutionListQuery["order"]];
+  const params = new URLSearchParams({ sort, order, limit: String(PAGE_SIZE) });
+  if (filters.status !== "all") params.set("status", filters.status);
+  if (filters.triggerType !== "all") params.set("triggerType", filters.triggerType);
+  if (filters.startedAfter) params.set("startedAfter", new Date(filters.startedAfter).toISOString());
+  if (filters.startedBefore) params.set("startedBefore", new Date(filters.startedBefore).toISOString());
+  if (filters.error.trim()) params.set("error", filters.error.trim());
+  if (cursor) params.set("cursor", cursor);
+  return params;
+}
+
+/**
+ * Past and running executions of a workflow, filtered and sorted, with the
+ * log of each one a click away
+ */
+export default function Executions() {
+  const { id: workflowId } = useParams<{ id: string }>();
+  const [filters, setFilters] = useState<ExecutionFilters>(DEFAULT_FILTERS);
+  const [errorSearch, setErrorSearch] = useState("");
+  const [openExecutionId, setOpenExecutionId] = useState<string | null>(null);
+  const executionStream = useExecutionStream(openExecutionId);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setFilters(current => ({ ...current, error: errorSearch })), SEARCH_DELAY);
+    return () => clearTimeout(timer);
+  }, [errorSearch]);
+
+  const setFilter = (key: keyof ExecutionFilters, value: string) => {
+    setFilters(current => ({ ...current, [key]: value }));
+  };
+
+  const { data: workflow } = useQuery<Workflow>({
+    queryKey: ["/api/workflows", workflowId],
+  });
+
+  const executionsQuery = useInfiniteQuery<ExecutionListPage>({
+    queryKey: ["/api/workflows", workflowId, "executions", filters],
+    queryFn: async ({ pageParam }) => {
+      const params = toSearchParams(filters, pageParam as string | undefined);
+      const response = await apiRequest("GET", `/api/workflows/${workflowId}/executions?${params}`);
+      return response.json();
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    // Runs keep arriving, so refetch whenever the page is opened
+    staleTime: 0,
+  });
+  const executions = executionsQuery.data?.pages.flatMap(page => page.executions) ?? [];
+  const isFiltered = JSON.stringify(filters) !== JSON.stringify(DEFAULT_FILTERS);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-6xl mx-auto p-6 space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="sm" asChild title="Back to the editor" data-testid="button-back-to-editor">
+              <Link href={`/workflows/${workflowId}`}>
+                <ArrowLeft className="w-4 h-4" />
+              </Link>
+            </Button>
+            <div>
+              <h1 className="text-xl font-semibold">Executions</h1>
+              <p className="text-sm text-muted-foreground" data-testid="text-workflow-name">{workflow?.name}</p>
+            </div>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => executionsQuery.refetch()}
+            disabled={executionsQuery.isFetching}
+            data-testid="button-refresh-executions"
+          >
+            <RefreshCw className={`w-4 h-4 mr-2 ${executionsQuery.isFetching ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <Select value={filters.status} onValueChange={(value) => setFilter("status", value)}>
+            <SelectTrigger className="w-40" data-testid="select-status-filter">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              {STATUSES.map(status => (
+                <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={filters.triggerType} onValueChange={(value) => setFilter("triggerType", value)}>
+            <SelectTrigger className="w-40" data-testid="select-trigger-filter">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All triggers</SelectItem>
+              {TRIGGER_TYPES.map(triggerType => (
+                <SelectItem key={triggerType} value={triggerType} className="capitalize">{triggerType}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <label className="text-xs text-muted-foreground space-y-1">
+            <span>Started after</span>
+            <Input
+              type="datetime-local"
+              value={filters.startedAfter}
+              onChange={(e) => setFilter("startedAfter", e.target.value)}
+              className="w-52"
+              data-testid="input-started-after"
+            />
+          </label>
+          <label className="text-xs text-muted-foreground space-y-1">
+            <span>Started before</span>
+            <Input
+              type="datetime-local"
+              value={filters.startedBefore}
+              onChange={(e) => setFilter("startedBefore", e.target.value)}
+              className="w-52"
+              data-testid="input-started-before"
+            />
+          </label>
+          <div className="relative w-56">
+            <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={errorSearch}
+              onChange={(e) => setErrorSearch(e.target.value)}
+              placeholder="Search errors"
+              className="pl-9"
+              data-testid="input-error-search"
+            />
+          </div>
+          <Select value={filters.sort} onValueChange={(value) => setFilter("sort", value)}>
+            <SelectTrigger className="w-40" data-testid="select-sort">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SORT_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {isFiltered && (
+            <Button
+              variant="ghost"
+              onClick={() => {
+                setFilters(DEFAULT_FILTERS);
+                setErrorSearch("");
+              }}
+              data-testid="button-clear-filters"
+            >
+              Clear
+            </Button>
+          )}
+        </div>
+
+        <div className="bg-card border rounded-lg">
+          <Table data-testid="table-executions">
+            <TableHeader>
+              <TableRow>
+                <TableHead>Status</TableHead>
+                <TableHead>Started</TableHead>
+                <TableHead>Duration</TableHead>
+                <TableHead>Trigger</TableHead>
+                <TableHead>Version</TableHead>
+                <TableHead>Error</TableHead>
+                <TableHead className="w-12"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {executionsQuery.isLoading && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">Loading executions...</TableCell>
+                </TableRow>
+              )}
+              {executionsQuery.isError && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-destructive">Failed to load executions</TableCell>
+                </TableRow>
+              )}
+              {executionsQuery.isSuccess && executions.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground" data-testid="text-no-executions">
+                    {isFiltered ? "No executions match these filters" : "This workflow hasn't run yet"}
+                  </TableCell>
+                </TableRow>
+              )}
+              {executions.map(execution => (
+                <TableRow
+                  key={execution.id}
+                  className="cursor-pointer"
+                  onClick={() => setOpenExecutionId(execution.id)}
+                  data-testid={`row-execution-${execution.id}`}
+                >
+                  <TableCell>
+                    <div className="flex items-center gap-2 text-sm">
+                      <div className={`w-2 h-2 rounded-full ${getRunStatusDotClass(execution.status)}`}></div>
+                      <span className="capitalize">{execution.status}</span>
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground" title={new Date(execution.startedAt).toLocaleString()}>
+                    {formatDistanceToNow(new Date(execution.startedAt), { addSuffix: true })}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {execution.durationMs !== undefined ? formatDuration(execution.durationMs) : "—"}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground capitalize">{execution.triggerType ?? "—"}</TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {execution.workflowVersion !== undefined ? `v${execution.workflowVersion}` : "—"}
+                  </TableCell>
+                  <TableCell className="max-w-xs">
+                    {execution.error && (
+                      <div className="text-xs text-destructive truncate" title={execution.error}>{execution.error}</div>
+                    )}
+                  </TableCell>
+                  <TableCell onClick={(e) => e.stopPropagation()}>
+                    <Button variant="ghost" size="sm" asChild title="Open on canvas" data-testid={`button-open-run-${execution.id}`}>
+                      <Link href={`/workflows/${workflowId}/executions/${execution.id}`}>
+                        <WorkflowIcon className="w-4 h-4" />
+                      </Link>
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        {executionsQuery.hasNextPage && (
+          <div className="flex justify-center">
+            <Button
+              variant="outline"
+              onClick={() => executionsQuery.fetchNextPage()}
+              disabled={executionsQuery.isFetchingNextPage}
+              data-testid="button-load-more-executions"
+            >
+              {executionsQuery.isFetchingNextPage ? "Loading..." : "Load more"}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {openExecutionId && (
+        <ExecutionModal
+          stream={executionStream}
+          isOpen={!!openExecutionId}
+          onClose={() => setOpenExecutionId(null)}
+          showRunLink
+          onExecutionStarted={(started) => setOpenExecutionId(started.id)}
+        />
+      )}
+    </div>
+  );
+}
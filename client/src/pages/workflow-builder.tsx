@@ -1,52 +1,92 @@
 import React, { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link, useLocation, useParams } from "wouter";
 import { apiRequest } from "@/lib/queryClient";
-import { type Workflow } from "@shared/schema";
+import { type Workflow, type WorkflowNode, type WorkflowSummary, type WorkflowDiff, type ConnectionOutput, type PartialExecution } from "@shared/schema";
 import { WorkflowCanvas } from "@/components/workflow-canvas";
 import { NodePalette } from "@/components/node-palette";
 import { ExecutionModal } from "@/components/execution-modal";
 import { NodeConfigPanel } from "@/components/node-config-panel";
+import { NodeRunDataDialog } from "@/components/node-run-data-dialog";
+import { WorkflowHistoryPanel } from "@/components/workflow-history-panel";
 import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { Play, Save, Settings } from "lucide-react";
+import { useExecutionStream } from "@/hooks/use-execution-stream";
+import { useWorkflowHistory } from "@/hooks/use-workflow-history";
+import { getRunStatusDotClass, getRunStatusLabel } from "@/lib/execution-status";
+import {
+  cloneFragment,
+  createConnectionId,
+  createNodeId,
+  extractFragment,
+  parseFragment,
+  serializeFragment,
+  type WorkflowFragment
+} from "@/lib/workflow-clipboard";
+import { ArrowLeft, History, ListChecks, Play, Redo2, Save, Settings, Undo2 } from "lucide-react";
+
+// Keys typed into fields or dialogs are not canvas shortcuts
+function isOutsideCanvasFocus(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName) ||
+    !!target.closest("[role='dialog']");
+}
+
+// The error an API route answered with, from an apiRequest error like `409: {"error":"..."}`
+function getApiErrorMessage(error: Error): string | undefined {
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(":") + 1)).error;
+  } catch {
+    return undefined;
+  }
+}
 
 export default function WorkflowBuilder() {
-  const [selectedWorkflowId, setSelectedWorkflowId] = useState<string | null>(null);
+  // The workflow being edited comes from the /workflows/:id route
+  const { id: selectedWorkflowId } = useParams<{ id: string }>();
+  const [, navigate] = useLocation();
   const [isExecutionModalOpen, setIsExecutionModalOpen] = useState(false);
   const [isConfigPanelOpen, setIsConfigPanelOpen] = useState(false);
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
   const [currentExecutionId, setCurrentExecutionId] = useState<string | null>(null);
+  const [runDataNodeId, setRunDataNodeId] = useState<string | null>(null);
+  // Canvas selection, separate from the node open in the config panel
+  const [selectedNodeIds, setSelectedNodeIds] = useState<string[]>([]);
+  const [selectedConnectionId, setSelectedConnectionId] = useState<string | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  // Changes since the version picked in the history panel
+  const [versionDiff, setVersionDiff] = useState<WorkflowDiff>();
 
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  // Fetch workflows
-  const { data: workflows = [], isLoading: workflowsLoading } = useQuery<Workflow[]>({
+  // Live state of the latest run, shared by the canvas and the execution modal
+  const executionStream = useExecutionStream(currentExecutionId);
+  const canvasExecution = executionStream.execution?.workflowId === selectedWorkflowId
+    ? executionStream.execution
+    : undefined;
+
+  // Fetch workflows for the switcher
+  const { data: workflows = [], isLoading: workflowsLoading } = useQuery<WorkflowSummary[]>({
     queryKey: ["/api/workflows"],
   });
 
-  // Load first workflow by default
-  useEffect(() => {
-    if (workflows.length > 0 && !selectedWorkflowId) {
-      setSelectedWorkflowId(workflows[0].id);
-    }
-  }, [workflows, selectedWorkflowId]);
-
   // Fetch selected workflow
-  const { data: currentWorkflow, isLoading: workflowLoading } = useQuery<Workflow>({
+  const { data: savedWorkflow, isLoading: workflowLoading } = useQuery<Workflow>({
     queryKey: ["/api/workflows", selectedWorkflowId],
     enabled: !!selectedWorkflowId,
   });
 
   // Update workflow mutation
   const updateWorkflowMutation = useMutation({
-    mutationFn: async (workflow: Partial<Workflow>) => {
-      if (!selectedWorkflowId) throw new Error("No workflow selected");
-      return apiRequest("PUT", `/api/workflows/${selectedWorkflowId}`, workflow);
+    mutationFn: async ({ id, workflow }: { id: string; workflow: Partial<Workflow> }) => {
+      return apiRequest("PATCH", `/api/workflows/${id}`, workflow);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/workflows"] });
-      toast({ title: "Success", description: "Workflow saved successfully" });
     },
     onError: () => {
       toast({ 
@@ -57,11 +97,46 @@ export default function WorkflowBuilder() {
     },
   });
 
-  // Execute workflow mutation
+  // Edits go to a local draft with undo/redo and are saved once editing pauses
+  const history = useWorkflowHistory(
+    savedWorkflow,
+    (id, workflow) => updateWorkflowMutation.mutateAsync({ id, workflow })
+  );
+  const currentWorkflow = history.workflow;
+
+  // Activate / deactivate workflow triggers
+  const activateWorkflowMutation = useMutation({
+    mutationFn: async (active: boolean) => {
+      if (!selectedWorkflowId) throw new Error("No workflow selected");
+      await history.flush();
+      const response = await apiRequest("POST", `/api/workflows/${selectedWorkflowId}/${active ? "activate" : "deactivate"}`);
+      return response.json();
+    },
+    onSuccess: (workflow: Workflow) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/workflows"] });
+      toast({
+        title: "Success",
+        description: workflow.active ? "Workflow activated" : "Workflow deactivated"
+      });
+    },
+    onError: (error: Error) => {
+      toast({ 
+        title: "Error", 
+        description: error.message.startsWith("409")
+          ? "A webhook path in this workflow is already used by another active workflow"
+          : "Failed to update workflow activation",
+        variant: "destructive" 
+      });
+    },
+  });
+
+  // Execute workflow mutation, optionally only up to or from one node
   const executeWorkflowMutation = useMutation({
-    mutationFn: async () => {
+    mutationFn: async (partial?: PartialExecution) => {
       if (!selectedWorkflowId) throw new Error("No workflow selected");
-      const response = await apiRequest("POST", `/api/workflows/${selectedWorkflowId}/execute`);
+      // Run what is on the canvas, not the last autosave
+      await history.flush();
+      const response = await apiRequest("POST", `/api/workflows/${selectedWorkflowId}/execute`, partial ? { partial } : undefined);
       return response.json();
     },
     onSuccess: (execution) => {
@@ -69,93 +144,227 @@ export default function WorkflowBuilder() {
       setIsExecutionModalOpen(true);
       toast({ title: "Success", description: "Workflow execution started" });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({ 
         title: "Error", 
-        description: "Failed to start workflow execution",
+        description: (error.message.startsWith("409") && getApiErrorMessage(error)) || "Failed to start workflow execution",
         variant: "destructive" 
       });
     },
   });
 
-  const handleNodeClick = (nodeId: string) => {
+  const openNodeConfig = (nodeId: string) => {
     setSelectedNodeId(nodeId);
     setIsConfigPanelOpen(true);
   };
 
-  const handleSaveWorkflow = () => {
+  // Nodes that finished in the run on the canvas open their data; others open their config
+  const handleNodeClick = (nodeId: string) => {
+    const status = canvasExecution?.nodeStatuses?.[nodeId];
+    if (status === "success" || status === "error") {
+      setRunDataNodeId(nodeId);
+    } else {
+      openNodeConfig(nodeId);
+    }
+  };
+
+  const handleSaveWorkflow = async () => {
     if (currentWorkflow) {
       // Log to console as requested
       console.log("Current Workflow JSON:", JSON.stringify(currentWorkflow, null, 2));
-      updateWorkflowMutation.mutate(currentWorkflow);
+      if (await history.flush()) {
+        toast({ title: "Success", description: "Workflow saved successfully" });
+      }
     }
   };
 
   const handleExecuteWorkflow = () => {
-    executeWorkflowMutation.mutate();
+    executeWorkflowMutation.mutate(undefined);
   };
 
-  const handleNodeAdd = (nodeType: string, position: { x: number; y: number }) => {
-    if (!currentWorkflow) return;
-    
-    const newNode = {
-      id: `node-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      type: nodeType as any,
+  const handleNodeExecute = (nodeId: string, mode: PartialExecution["mode"]) => {
+    executeWorkflowMutation.mutate({ nodeId, mode });
+  };
+
+  const handleNodeAdd = (nodeType: WorkflowNode["type"], position: { x: number; y: number }) => {
+    const newNode: WorkflowNode = {
+      id: createNodeId(),
+      type: nodeType,
       position,
       params: {},
-      status: "idle" as const
+      status: "idle"
     };
 
-    const updatedWorkflow = {
-      ...currentWorkflow,
-      nodes: [...currentWorkflow.nodes, newNode]
-    };
-    
-    updateWorkflowMutation.mutate(updatedWorkflow);
+    history.apply(workflow => ({
+      ...workflow,
+      nodes: [...workflow.nodes, newNode]
+    }));
   };
 
-  const handleNodeDelete = (nodeId: string) => {
-    if (!currentWorkflow) return;
-    
-    const updatedWorkflow = {
-      ...currentWorkflow,
-      nodes: currentWorkflow.nodes.filter(node => node.id !== nodeId),
-      connections: currentWorkflow.connections.filter(
-        conn => conn.from !== nodeId && conn.to !== nodeId
+  const handleNodesDelete = (nodeIds: string[]) => {
+    if (nodeIds.length === 0) return;
+    history.apply(workflow => ({
+      nodes: workflow.nodes.filter(node => !nodeIds.includes(node.id)),
+      connections: workflow.connections.filter(
+        conn => !nodeIds.includes(conn.from) && !nodeIds.includes(conn.to)
       )
-    };
-    
-    updateWorkflowMutation.mutate(updatedWorkflow);
+    }));
+    setSelectedNodeIds(ids => ids.filter(id => !nodeIds.includes(id)));
+  };
+
+  const handleNodeDelete = (nodeId: string) => handleNodesDelete([nodeId]);
+
+  // Add copies of a fragment with new ids and select them
+  const pasteFragment = (fragment: WorkflowFragment) => {
+    const copy = cloneFragment(fragment);
+    history.apply(workflow => ({
+      nodes: [...workflow.nodes, ...copy.nodes],
+      connections: [...workflow.connections, ...copy.connections]
+    }));
+    handleSelectionChange(copy.nodes.map(node => node.id));
   };
 
-  const handleConnectionAdd = (from: string, to: string) => {
-    if (!currentWorkflow) return;
-    
+  const getSelectionFragment = (): WorkflowFragment | undefined => {
+    if (!currentWorkflow) return undefined;
+    const fragment = extractFragment(currentWorkflow, selectedNodeIds);
+    return fragment.nodes.length > 0 ? fragment : undefined;
+  };
+
+  const handleConnectionAdd = (from: string, to: string, fromOutput?: ConnectionOutput) => {
     const newConnection = {
-      id: `conn-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      id: createConnectionId(),
       from,
-      to
+      to,
+      ...(fromOutput && fromOutput !== "main" ? { fromOutput } : {})
     };
 
-    const updatedWorkflow = {
-      ...currentWorkflow,
-      connections: [...currentWorkflow.connections, newConnection]
-    };
-    
-    updateWorkflowMutation.mutate(updatedWorkflow);
+    history.apply(workflow => ({
+      ...workflow,
+      connections: [...workflow.connections, newConnection]
+    }));
+  };
+
+  const handleNodesMove = (positions: Record<string, { x: number; y: number }>) => {
+    // Nudging the same nodes again right away extends the same undo step
+    history.apply(workflow => ({
+      ...workflow,
+      nodes: workflow.nodes.map(node => positions[node.id] ? { ...node, position: positions[node.id] } : node)
+    }), { group: `move:${Object.keys(positions).sort().join(",")}` });
   };
 
   const handleConnectionDelete = (connectionId: string) => {
-    if (!currentWorkflow) return;
-    
-    const updatedWorkflow = {
-      ...currentWorkflow,
-      connections: currentWorkflow.connections.filter(conn => conn.id !== connectionId)
-    };
-    
-    updateWorkflowMutation.mutate(updatedWorkflow);
+    history.apply(workflow => ({
+      ...workflow,
+      connections: workflow.connections.filter(conn => conn.id !== connectionId)
+    }));
+    setSelectedConnectionId(null);
   };
 
+  // Nodes and a connection are never selected together
+  const handleSelectionChange = (nodeIds: string[]) => {
+    setSelectedNodeIds(nodeIds);
+    setSelectedConnectionId(null);
+  };
+
+  const handleConnectionSelect = (connectionId: string) => {
+    setSelectedNodeIds([]);
+    setSelectedConnectionId(connectionId);
+  };
+
+  /**
+   * Canvas shortcuts: Ctrl+Z undoes, Ctrl+Shift+Z or Ctrl+Y redoes, Ctrl+A
+   * selects all, Ctrl+D duplicates and Delete removes the selected nodes or
+   * connection. Text fields keep their own keys.
+   */
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isOutsideCanvasFocus(event.target)) return;
+
+      if (event.key === "Delete" || event.key === "Backspace") {
+        if (selectedNodeIds.length > 0) {
+          event.preventDefault();
+          handleNodesDelete(selectedNodeIds);
+        } else if (selectedConnectionId && currentWorkflow?.connections.some(conn => conn.id === selectedConnectionId)) {
+          event.preventDefault();
+          handleConnectionDelete(selectedConnectionId);
+        }
+        return;
+      }
+      if (event.key === "Escape") {
+        handleSelectionChange([]);
+        return;
+      }
+      if (!(event.ctrlKey || event.metaKey)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        history.undo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        history.redo();
+      } else if (key === "a" && currentWorkflow) {
+        event.preventDefault();
+        handleSelectionChange(currentWorkflow.nodes.map(node => node.id));
+      } else if (key === "d") {
+        event.preventDefault();
+        const fragment = getSelectionFragment();
+        if (fragment) pasteFragment(fragment);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
+  // Copy, cut and paste go through the system clipboard as workflow JSON, so
+  // selections move between workflows and browser tabs
+  useEffect(() => {
+    const copySelection = (event: ClipboardEvent) => {
+      // Leave text selected on the page, e.g. in the logs, to the browser
+      if (isOutsideCanvasFocus(event.target) || window.getSelection()?.toString()) return false;
+      const fragment = getSelectionFragment();
+      if (!fragment || !event.clipboardData) return false;
+
+      event.preventDefault();
+      event.clipboardData.setData("text/plain", serializeFragment(fragment));
+      return true;
+    };
+
+    const handleCopy = (event: ClipboardEvent) => {
+      copySelection(event);
+    };
+    const handleCut = (event: ClipboardEvent) => {
+      if (copySelection(event)) handleNodesDelete(selectedNodeIds);
+    };
+    const handlePaste = (event: ClipboardEvent) => {
+      if (isOutsideCanvasFocus(event.target) || !currentWorkflow) return;
+      const fragment = parseFragment(event.clipboardData?.getData("text/plain") ?? "");
+      if (!fragment) return;
+
+      event.preventDefault();
+      pasteFragment(fragment);
+      toast({
+        title: "Pasted",
+        description: `${fragment.nodes.length} node${fragment.nodes.length === 1 ? "" : "s"} added`
+      });
+    };
+
+    document.addEventListener("copy", handleCopy);
+    document.addEventListener("cut", handleCut);
+    document.addEventListener("paste", handlePaste);
+    return () => {
+      document.removeEventListener("copy", handleCopy);
+      document.removeEventListener("cut", handleCut);
+      document.removeEventListener("paste", handlePaste);
+    };
+  });
+
+  // A selection belongs to the workflow it was made in, as does its history
+  useEffect(() => {
+    setSelectedNodeIds([]);
+    setIsHistoryOpen(false);
+  }, [selectedWorkflowId]);
+
   if (workflowsLoading || workflowLoading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -218,16 +427,85 @@ export default function WorkflowBuilder() {
         <div className="bg-card border-b border-border p-4">
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-4">
-              <h2 className="text-lg font-semibold" data-testid="text-workflow-name">
-                {currentWorkflow?.name || "No Workflow Selected"}
-              </h2>
+              <Button variant="ghost" size="sm" asChild title="All workflows" data-testid="button-all-workflows">
+                <Link href="/workflows">
+                  <ArrowLeft className="w-4 h-4" />
+                </Link>
+              </Button>
+              <Select value={selectedWorkflowId} onValueChange={(id) => navigate(`/workflows/${id}`)}>
+                <SelectTrigger className="w-64 text-lg font-semibold border-none shadow-none" data-testid="select-workflow">
+                  <SelectValue placeholder="Select a workflow">
+                    <span data-testid="text-workflow-name">{currentWorkflow?.name ?? "Select a workflow"}</span>
+                  </SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  {workflows.map(workflow => (
+                    <SelectItem key={workflow.id} value={workflow.id} data-testid={`option-workflow-${workflow.id}`}>
+                      {workflow.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                <div className="w-2 h-2 bg-success rounded-full"></div>
-                <span data-testid="text-status">Ready</span>
+                <div className={`w-2 h-2 rounded-full ${getRunStatusDotClass(canvasExecution?.status)}`}></div>
+                <span data-testid="text-status">{getRunStatusLabel(canvasExecution?.status)}</span>
               </div>
+              {history.hasUnsavedChanges && (
+                <span className="text-xs text-muted-foreground" data-testid="text-unsaved-changes">
+                  Unsaved changes
+                </span>
+              )}
             </div>
 
             <div className="flex items-center gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={history.undo}
+                disabled={!history.canUndo}
+                title="Undo (Ctrl+Z)"
+                data-testid="button-undo"
+              >
+                <Undo2 className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={history.redo}
+                disabled={!history.canRedo}
+                title="Redo (Ctrl+Shift+Z)"
+                data-testid="button-redo"
+              >
+                <Redo2 className="w-4 h-4" />
+              </Button>
+              {currentWorkflow && (
+                <label className="flex items-center gap-2 text-sm text-muted-foreground mr-2">
+                  <Switch
+                    checked={!!currentWorkflow.active}
+                    onCheckedChange={(checked) => activateWorkflowMutation.mutate(checked)}
+                    disabled={activateWorkflowMutation.isPending}
+                    data-testid="switch-active"
+                  />
+                  {currentWorkflow.active ? "Active" : "Inactive"}
+                </label>
+              )}
+              <Button
+                variant={isHistoryOpen ? "secondary" : "ghost"}
+                size="sm"
+                onClick={() => setIsHistoryOpen(open => !open)}
+                disabled={!currentWorkflow}
+                title="Version history"
+                data-testid="button-history"
+              >
+                <History className="w-4 h-4" />
+              </Button>
+              {currentWorkflow && (
+                <Button variant="ghost" size="sm" asChild title="Executions" data-testid="button-executions">
+                  <Link href={`/workflows/${currentWorkflow.id}/executions`}>
+                    <ListChecks className="w-4 h-4" />
+                  </Link>
+                </Button>
+              )}
               <Button variant="ghost" size="sm" title="Settings" data-testid="button-settings">
                 <Settings className="w-4 h-4" />
               </Button>
@@ -235,30 +513,53 @@ export default function WorkflowBuilder() {
           </div>
         </div>
 
-        {/* Workflow Canvas */}
-        <div className="flex-1 relative overflow-hidden">
-          {currentWorkflow ? (
-            <WorkflowCanvas 
-              workflow={currentWorkflow} 
-              onNodeClick={handleNodeClick}
-              onNodeAdd={handleNodeAdd}
-              onNodeDelete={handleNodeDelete}
-              onConnectionAdd={handleConnectionAdd}
-              onConnectionDelete={handleConnectionDelete}
-              data-testid="workflow-canvas"
-            />
-          ) : (
-            <div className="absolute inset-0 flex items-center justify-center text-center">
-              <div className="max-w-md">
-                <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
-                  <svg className="w-8 h-8 text-muted-foreground" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 6v6m0 0v6m0-6h6m-6 0H6"></path>
-                  </svg>
+        <div className="flex-1 flex overflow-hidden">
+          {/* Workflow Canvas */}
+          <div className="flex-1 relative overflow-hidden">
+            {currentWorkflow ? (
+              <WorkflowCanvas 
+                workflow={currentWorkflow} 
+                onNodeClick={handleNodeClick}
+                onNodeAdd={handleNodeAdd}
+                onNodeDelete={handleNodeDelete}
+                onConnectionAdd={handleConnectionAdd}
+                selectedConnectionId={selectedConnectionId}
+                onConnectionSelect={handleConnectionSelect}
+                onNodesMove={handleNodesMove}
+                selectedNodeIds={selectedNodeIds}
+                onSelectionChange={handleSelectionChange}
+                diff={versionDiff}
+                execution={canvasExecution}
+                onNodeExecute={handleNodeExecute}
+                data-testid="workflow-canvas"
+              />
+            ) : (
+              <div className="absolute inset-0 flex items-center justify-center text-center">
+                <div className="max-w-md">
+                  <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
+                    <svg className="w-8 h-8 text-muted-foreground" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 6v6m0 0v6m0-6h6m-6 0H6"></path>
+                    </svg>
+                  </div>
+                  <h3 className="text-lg font-medium mb-2">Workflow Not Found</h3>
+                  <p className="text-muted-foreground mb-4">It may have been deleted. Pick another one from the list.</p>
+                  <Button variant="outline" asChild data-testid="button-back-to-workflows">
+                    <Link href="/workflows">All workflows</Link>
+                  </Button>
                 </div>
-                <h3 className="text-lg font-medium mb-2">No Workflow Selected</h3>
-                <p className="text-muted-foreground">Select a workflow to start building your automation</p>
               </div>
-            </div>
+            )}
+          </div>
+
+          {/* Version History */}
+          {isHistoryOpen && currentWorkflow && (
+            <WorkflowHistoryPanel
+              workflowId={currentWorkflow.id}
+              currentVersion={currentWorkflow.version}
+              onDiffChange={setVersionDiff}
+              onBeforeRestore={history.flush}
+              onClose={() => setIsHistoryOpen(false)}
+            />
           )}
         </div>
       </div>
@@ -266,11 +567,25 @@ export default function WorkflowBuilder() {
       {/* Execution Modal */}
       {isExecutionModalOpen && currentExecutionId && (
         <ExecutionModal
-          executionId={currentExecutionId}
+          stream={executionStream}
           isOpen={isExecutionModalOpen}
-          onClose={() => {
-            setIsExecutionModalOpen(false);
-            setCurrentExecutionId(null);
+          onClose={() => setIsExecutionModalOpen(false)}
+          showRunLink
+          onExecutionStarted={(started) => setCurrentExecutionId(started.id)}
+        />
+      )}
+
+      {/* Node Data From The Current Run */}
+      {runDataNodeId && canvasExecution && (
+        <NodeRunDataDialog
+          workflowId={canvasExecution.workflowId}
+          executionId={canvasExecution.id}
+          nodeId={runDataNodeId}
+          isOpen={!!runDataNodeId}
+          onClose={() => setRunDataNodeId(null)}
+          onConfigure={() => {
+            setRunDataNodeId(null);
+            openNodeConfig(runDataNodeId);
           }}
         />
       )}
@@ -286,13 +601,12 @@ export default function WorkflowBuilder() {
             setSelectedNodeId(null);
           }}
           onSave={(updatedNode) => {
-            const updatedWorkflow = {
-              ...currentWorkflow,
-              nodes: currentWorkflow.nodes.map(node => 
+            history.apply(workflow => ({
+              ...workflow,
+              nodes: workflow.nodes.map(node => 
                 node.id === updatedNode.id ? updatedNode : node
               )
-            };
-            updateWorkflowMutation.mutate(updatedWorkflow);
+            }));
             setIsConfigPanelOpen(false);
           }}
         />
@@ -0,0 +1,279 @@
+import React, { useMemo, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { getRunStatusDotClass, getRunStatusLabel } from "@/lib/execution-status";
+import { type Workflow, type WorkflowSummary } from "@shared/schema";
+import { WorkflowDetailsDialog, type WorkflowDetails } from "@/components/workflow-details-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { ListChecks, MoreHorizontal, Pencil, Plus, Search, Trash2, Workflow as WorkflowIcon } from "lucide-react";
+
+function formatRelative(timestamp: string) {
+  return formatDistanceToNow(new Date(timestamp), { addSuffix: true });
+}
+
+/**
+ * All workflows with search, their latest run and actions to create, open,
+ * rename and delete them
+ */
+export default function Workflows() {
+  const [search, setSearch] = useState("");
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [renaming, setRenaming] = useState<WorkflowSummary | null>(null);
+  const [deleting, setDeleting] = useState<WorkflowSummary | null>(null);
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: workflows = [], isLoading } = useQuery<WorkflowSummary[]>({
+    queryKey: ["/api/workflows"],
+  });
+
+  const visibleWorkflows = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return workflows
+      .filter(workflow => !query ||
+        workflow.name.toLowerCase().includes(query) ||
+        workflow.description?.toLowerCase().includes(query))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }, [workflows, search]);
+
+  const createWorkflowMutation = useMutation({
+    mutationFn: async (details: WorkflowDetails) => {
+      const response = await apiRequest("POST", "/api/workflows", { ...details, nodes: [], connections: [] });
+      return response.json();
+    },
+    onSuccess: (workflow: Workflow) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/workflows"] });
+      setIsCreateOpen(false);
+      navigate(`/workflows/${workflow.id}`);
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to create workflow", variant: "destructive" });
+    },
+  });
+
+  const renameWorkflowMutation = useMutation({
+    mutationFn: async ({ id, details }: { id: string; details: WorkflowDetails }) => {
+      // An empty description clears it; undefined would be dropped from the JSON
+      return apiRequest("PATCH", `/api/workflows/${id}`, { name: details.name, description: details.description ?? "" });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/workflows"] });
+      setRenaming(null);
+      toast({ title: "Success", description: "Workflow updated" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to update workflow", variant: "destructive" });
+    },
+  });
+
+  const deleteWorkflowMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/workflows/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/workflows"] });
+      setDeleting(null);
+      toast({ title: "Success", description: "Workflow deleted" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to delete workflow", variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-6xl mx-auto p-6 space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-primary rounded-lg flex items-center justify-center">
+              <WorkflowIcon className="w-6 h-6 text-primary-foreground" />
+            </div>
+            <div>
+              <h1 className="text-xl font-semibold">Workflows</h1>
+              <p className="text-sm text-muted-foreground">Mini N8N Workflow Engine</p>
+            </div>
+          </div>
+          <Button onClick={() => setIsCreateOpen(true)} data-testid="button-new-workflow">
+            <Plus className="w-4 h-4 mr-2" />
+            New Workflow
+          </Button>
+        </div>
+
+        <div className="relative max-w-sm">
+          <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search workflows"
+            className="pl-9"
+            data-testid="input-search-workflows"
+          />
+        </div>
+
+        <div className="bg-card border rounded-lg">
+          <Table data-testid="table-workflows">
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Nodes</TableHead>
+                <TableHead>Last Updated</TableHead>
+                <TableHead>Last Execution</TableHead>
+                <TableHead className="w-12"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">Loading workflows...</TableCell>
+                </TableRow>
+              )}
+              {!isLoading && visibleWorkflows.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground" data-testid="text-no-workflows">
+                    {search ? "No workflows match your search" : "No workflows yet. Create one to get started."}
+                  </TableCell>
+                </TableRow>
+              )}
+              {visibleWorkflows.map(workflow => (
+                <TableRow key={workflow.id} data-testid={`row-workflow-${workflow.id}`}>
+                  <TableCell>
+                    <Link
+                      href={`/workflows/${workflow.id}`}
+                      className="font-medium hover:underline"
+                      data-testid={`link-workflow-${workflow.id}`}
+                    >
+                      {workflow.name}
+                    </Link>
+                    {workflow.description && (
+                      <div className="text-xs text-muted-foreground truncate max-w-md">{workflow.description}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={workflow.active ? "default" : "secondary"}>
+                      {workflow.active ? "Active" : "Inactive"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">{workflow.nodes.length}</TableCell>
+                  <TableCell className="text-muted-foreground" title={new Date(workflow.updatedAt).toLocaleString()}>
+                    {formatRelative(workflow.updatedAt)}
+                  </TableCell>
+                  <TableCell>
+                    {workflow.lastExecution ? (
+                      <div className="flex items-center gap-2 text-sm" data-testid={`text-last-execution-${workflow.id}`}>
+                        <div className={`w-2 h-2 rounded-full ${getRunStatusDotClass(workflow.lastExecution.status)}`}></div>
+                        <span>{getRunStatusLabel(workflow.lastExecution.status)}</span>
+                        <span className="text-muted-foreground">{formatRelative(workflow.lastExecution.startedAt)}</span>
+                      </div>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">Never run</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="sm" data-testid={`button-workflow-actions-${workflow.id}`}>
+                          <MoreHorizontal className="w-4 h-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onSelect={() => navigate(`/workflows/${workflow.id}`)}>
+                          <WorkflowIcon className="w-4 h-4 mr-2" />
+                          Open
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onSelect={() => navigate(`/workflows/${workflow.id}/executions`)}
+                          data-testid={`button-workflow-executions-${workflow.id}`}
+                        >
+                          <ListChecks className="w-4 h-4 mr-2" />
+                          Executions
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onSelect={() => setRenaming(workflow)} data-testid={`button-rename-workflow-${workflow.id}`}>
+                          <Pencil className="w-4 h-4 mr-2" />
+                          Rename
+                        </DropdownMenuItem>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem
+                          className="text-destructive focus:text-destructive"
+                          onSelect={() => setDeleting(workflow)}
+                          data-testid={`button-delete-workflow-${workflow.id}`}
+                        >
+                          <Trash2 className="w-4 h-4 mr-2" />
+                          Delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      <WorkflowDetailsDialog
+        isOpen={isCreateOpen}
+        title="New Workflow"
+        submitLabel="Create"
+        isPending={createWorkflowMutation.isPending}
+        onClose={() => setIsCreateOpen(false)}
+        onSubmit={(details) => createWorkflowMutation.mutate(details)}
+      />
+
+      <WorkflowDetailsDialog
+        isOpen={!!renaming}
+        title="Rename Workflow"
+        submitLabel="Save"
+        initialValues={renaming ?? undefined}
+        isPending={renameWorkflowMutation.isPending}
+        onClose={() => setRenaming(null)}
+        onSubmit={(details) => renaming && renameWorkflowMutation.mutate({ id: renaming.id, details })}
+      />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleting?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The workflow is removed and its webhooks and schedules stop. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-delete">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => deleting && deleteWorkflowMutation.mutate(deleting.id)}
+              data-testid="button-confirm-delete"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { getNextCronTime, parseCron } from "./cron";
+
+function next(expression: string, after: string, timezone?: string): string {
+  return getNextCronTime(parseCron(expression), new Date(after), timezone).toISOString();
+}
+
+const sorted = (values: Set<number>) => Array.from(values).sort((a, b) => a - b);
+
+describe("parseCron", () => {
+  test("expands lists, ranges and steps", () => {
+    const schedule = parseCron("*/15 0-6/2 1,15,20-22 * *");
+    assert.deepEqual(sorted(schedule.minute.values), [0, 15, 30, 45]);
+    assert.deepEqual(sorted(schedule.hour.values), [0, 2, 4, 6]);
+    assert.deepEqual(sorted(schedule.dayOfMonth.values), [1, 15, 20, 21, 22]);
+    assert.equal(schedule.month.wildcard, true);
+    assert.equal(schedule.dayOfMonth.wildcard, false);
+
+    // A single value with a step runs from that value to the end of the range
+    assert.deepEqual(sorted(parseCron("50/5 * * * *").minute.values), [50, 55]);
+  });
+
+  test("accepts month and weekday names, and 7 for Sunday", () => {
+    const schedule = parseCron("0 0 * jan-mar,DEC MON-fri,7");
+    assert.deepEqual(sorted(schedule.month.values), [1, 2, 3, 12]);
+    assert.deepEqual(sorted(schedule.dayOfWeek.values), [0, 1, 2, 3, 4, 5]);
+  });
+
+  test("expands the @ shortcuts", () => {
+    assert.deepEqual(parseCron("@daily"), parseCron("0 0 * * *"));
+    assert.deepEqual(parseCron("@Hourly"), parseCron("0 * * * *"));
+    assert.deepEqual(parseCron("@weekly"), parseCron("0 0 * * 0"));
+    assert.deepEqual(parseCron("@monthly"), parseCron("0 0 1 * *"));
+    assert.deepEqual(parseCron("@yearly"), parseCron("@annually"));
+  });
+
+  test("rejects invalid expressions with a descriptive error", () => {
+    assert.throws(() => parseCron("* * *"), { message: 'Cron expression "* * *" must have 5 fields' });
+    assert.throws(() => parseCron("60 * * * *"), { message: 'minute range "60" is outside 0-59' });
+    assert.throws(() => parseCron("* 5-2 * * *"), { message: 'hour range "5-2" is outside 0-23' });
+    assert.throws(() => parseCron("*/0 * * * *"), { message: 'Invalid step "0" in minute' });
+    assert.throws(() => parseCron("* * 0 * *"), { message: 'day-of-month range "0" is outside 1-31' });
+    assert.throws(() => parseCron("* * * FOO *"), { message: 'Invalid month value "FOO"' });
+  });
+});
+
+describe("getNextCronTime", () => {
+  test("returns the first matching minute strictly after the given time", () => {
+    assert.equal(next("*/15 * * * *", "2026-01-01T10:07:30Z"), "2026-01-01T10:15:00.000Z");
+    assert.equal(next("*/15 * * * *", "2026-01-01T10:15:00Z"), "2026-01-01T10:30:00.000Z");
+    assert.equal(next("0 9 * * MON", "2026-01-01T00:00:00Z"), "2026-01-05T09:00:00.000Z");
+    assert.equal(next("@yearly", "2026-06-01T00:00:00Z"), "2027-01-01T00:00:00.000Z");
+  });
+
+  test("matches either day field when both are restricted", () => {
+    // The 13th or any Friday
+    assert.equal(next("0 0 13 * 5", "2026-02-01T00:00:00Z"), "2026-02-06T00:00:00.000Z");
+    assert.equal(next("0 0 13 * 5", "2026-02-10T00:00:00Z"), "2026-02-13T00:00:00.000Z");
+    // Only the 1st when the weekday is a wildcard
+    assert.equal(next("0 0 1 * *", "2026-02-01T00:00:00Z"), "2026-03-01T00:00:00.000Z");
+  });
+
+  test("runs at local time in the schedule's timezone across DST changes", () => {
+    const zone = "America/New_York";
+    // 09:00 EST, then 09:00 EDT once clocks go forward on March 8
+    assert.equal(next("0 9 * * *", "2026-03-06T15:00:00Z", zone), "2026-03-07T14:00:00.000Z");
+    assert.equal(next("0 9 * * *", "2026-03-07T15:00:00Z", zone), "2026-03-08T13:00:00.000Z");
+    // 02:30 does not exist on March 8
+    assert.equal(next("30 2 * * *", "2026-03-07T12:00:00Z", zone), "2026-03-09T06:30:00.000Z");
+    // 01:30 happens twice on November 1 and only runs the first time
+    assert.equal(next("30 1 * * *", "2026-10-31T12:00:00Z", zone), "2026-11-01T05:30:00.000Z");
+    assert.equal(next("30 1 * * *", "2026-11-01T05:30:00Z", zone), "2026-11-02T06:30:00.000Z");
+  });
+
+  test("gives up on schedules with no run in the next five years", () => {
+    assert.equal(next("0 0 29 2 *", "2026-01-01T00:00:00Z"), "2028-02-29T00:00:00.000Z");
+    assert.throws(() => next("0 0 30 2 *", "2026-01-01T00:00:00Z"), { message: "Cron expression has no upcoming run" });
+  });
+
+  test("rejects unknown timezones", () => {
+    assert.throws(() => next("@daily", "2026-01-01T00:00:00Z", "Mars/Base"), RangeError);
+  });
+});
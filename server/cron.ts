@@ -0,0 +1,201 @@
+/**
+ * Minimal five-field cron parser (minute hour day-of-month month day-of-week)
+ * with timezone-aware next-run calculation. Supports "*", lists, ranges,
+ * steps, month/weekday names and the @hourly/@daily/@weekly/@monthly/@yearly
+ * shortcuts.
+ */
+
+interface CronField {
+  values: Set<number>;
+  // True when the field was "*" (matters for the day-of-month/day-of-week rule)
+  wildcard: boolean;
+}
+
+export interface CronSchedule {
+  minute: CronField;
+  hour: CronField;
+  dayOfMonth: CronField;
+  month: CronField;
+  dayOfWeek: CronField;
+}
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number;
+}
+
+const SHORTCUTS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *"
+};
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const WEEKDAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+function parseValue(value: string, names: string[] | undefined, offset: number, fieldName: string): number {
+  const index = names?.indexOf(value.toUpperCase()) ?? -1;
+  if (index !== -1) {
+    return index + offset;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid ${fieldName} value "${value}"`);
+  }
+  return Number(value);
+}
+
+function parseField(
+  source: string,
+  fieldName: string,
+  min: number,
+  max: number,
+  names?: string[],
+  nameOffset = 0
+): CronField {
+  const values = new Set<number>();
+
+  for (const part of source.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepText}" in ${fieldName}`);
+    }
+
+    let start = min;
+    let end = max;
+    if (range !== "*") {
+      const [from, to] = range.split("-");
+      start = parseValue(from, names, nameOffset, fieldName);
+      end = to === undefined ? (stepText === undefined ? start : max) : parseValue(to, names, nameOffset, fieldName);
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new Error(`${fieldName} range "${part}" is outside ${min}-${max}`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return { values, wildcard: source === "*" };
+}
+
+/**
+ * Parse a cron expression, throwing a descriptive error when it is invalid
+ */
+export function parseCron(expression: string): CronSchedule {
+  const normalized = SHORTCUTS[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields`);
+  }
+
+  const dayOfWeek = parseField(fields[4], "day-of-week", 0, 7, WEEKDAY_NAMES);
+  // 7 is an alias for Sunday
+  if (dayOfWeek.values.delete(7)) {
+    dayOfWeek.values.add(0);
+  }
+
+  return {
+    minute: parseField(fields[0], "minute", 0, 59),
+    hour: parseField(fields[1], "hour", 0, 23),
+    dayOfMonth: parseField(fields[2], "day-of-month", 1, 31),
+    month: parseField(fields[3], "month", 1, 12, MONTH_NAMES, 1),
+    dayOfWeek
+  };
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getZonedParts(date: Date, timezone: string): ZonedParts {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      weekday: "short"
+    });
+    formatters.set(timezone, formatter);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAY_NAMES.indexOf(parts.weekday.toUpperCase())
+  };
+}
+
+function matchesDay(schedule: CronSchedule, parts: ZonedParts): boolean {
+  const domMatch = schedule.dayOfMonth.values.has(parts.day);
+  const dowMatch = schedule.dayOfWeek.values.has(parts.weekday);
+
+  // Standard cron: when both day fields are restricted, either may match
+  if (!schedule.dayOfMonth.wildcard && !schedule.dayOfWeek.wildcard) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+const MINUTE = 60 * 1000;
+const SEARCH_LIMIT = 5 * 366 * 24 * 60 * MINUTE;
+// Clocks go back by an hour, or half an hour in a few zones
+const DST_SHIFTS = [30 * MINUTE, 60 * MINUTE];
+
+/**
+ * True when the wall-clock time at `time` already occurred earlier that
+ * night, i.e. it falls in the hour repeated when clocks go back
+ */
+function isRepeatedLocalTime(time: number, parts: ZonedParts, timezone: string): boolean {
+  return DST_SHIFTS.some(shift => {
+    const earlier = getZonedParts(new Date(time - shift), timezone);
+    return earlier.day === parts.day && earlier.hour === parts.hour && earlier.minute === parts.minute;
+  });
+}
+
+/**
+ * First time strictly after `after` that matches the schedule in `timezone`.
+ * Times skipped when clocks go forward never match, and times repeated when
+ * they go back only match the first time round.
+ */
+export function getNextCronTime(schedule: CronSchedule, after: Date, timezone = "UTC"): Date {
+  let time = Math.floor(after.getTime() / MINUTE) * MINUTE + MINUTE;
+  const limit = time + SEARCH_LIMIT;
+
+  while (time < limit) {
+    const parts = getZonedParts(new Date(time), timezone);
+
+    if (!schedule.month.values.has(parts.month) || !matchesDay(schedule, parts)) {
+      // Jump to the next local midnight
+      time += ((23 - parts.hour) * 60 + (60 - parts.minute)) * MINUTE;
+    } else if (!schedule.hour.values.has(parts.hour)) {
+      time += (60 - parts.minute) * MINUTE;
+    } else if (!schedule.minute.values.has(parts.minute) || isRepeatedLocalTime(time, parts, timezone)) {
+      time += MINUTE;
+    } else {
+      return new Date(time);
+    }
+  }
+
+  throw new Error("Cron expression has no upcoming run");
+}
@@ -0,0 +1,16 @@
+import pg from "pg";
+import { drizzle } from "drizzle-orm/node-postgres";
+import { type PgDatabase, type PgQueryResultHKT } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+
+// Any Postgres driver will do, e.g. PGlite in tests
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+/**
+ * Connect Drizzle to the Postgres database at `connectionString`
+ */
+export function createDatabase(connectionString: string): { pool: pg.Pool; db: Database } {
+  const pool = new pg.Pool({ connectionString });
+  const db = drizzle({ client: pool, schema });
+  return { pool, db };
+}
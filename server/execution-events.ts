@@ -0,0 +1,32 @@
+import { EventEmitter } from "events";
+import { type ExecutionEvent } from "@shared/schema";
+
+type ExecutionEventListener = (event: ExecutionEvent) => void;
+
+/**
+ * In-process pub/sub for live execution events, keyed by execution id
+ */
+export class ExecutionEventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open socket, so the default warning threshold is too low
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(event: ExecutionEvent): void {
+    this.emitter.emit(event.executionId, event);
+  }
+
+  /**
+   * Listen to one execution's events; returns the unsubscribe function
+   */
+  subscribe(executionId: string, listener: ExecutionEventListener): () => void {
+    this.emitter.on(executionId, listener);
+    return () => {
+      this.emitter.off(executionId, listener);
+    };
+  }
+}
+
+export const executionEvents = new ExecutionEventBus();
@@ -0,0 +1,24 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { ExecutionRegistry } from "./execution-registry";
+
+describe("ExecutionRegistry", () => {
+  test("cancel waits for the engine to finish the run", async () => {
+    const registry = new ExecutionRegistry();
+    const signal = registry.register("run");
+    signal.addEventListener("abort", () => setTimeout(() => registry.unregister("run"), 10));
+
+    assert.equal(await registry.cancel("run"), true);
+    assert.equal(registry.isRunning("run"), false);
+    assert.equal(await registry.cancel("run"), false);
+  });
+
+  test("cancel gives up on a run that ignores the signal", async () => {
+    const registry = new ExecutionRegistry();
+    const signal = registry.register("stuck");
+
+    assert.equal(await registry.cancel("stuck", 20), false);
+    assert.equal(signal.aborted, true);
+    assert.equal(registry.isRunning("stuck"), true);
+  });
+});
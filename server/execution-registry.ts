@@ -0,0 +1,67 @@
+// How long a stop request waits for the engine before closing the run out itself
+const CANCEL_TIMEOUT_MS = 10_000;
+
+interface RunningExecution {
+  controller: AbortController;
+  finished: Promise<void>;
+  markFinished: () => void;
+}
+
+/**
+ * In-process registry of running executions, used to cancel them
+ */
+export class ExecutionRegistry {
+  private running: Map<string, RunningExecution> = new Map();
+
+  /**
+   * Register an execution and return the signal the engine should watch
+   */
+  register(executionId: string): AbortSignal {
+    let markFinished!: () => void;
+    const finished = new Promise<void>(resolve => {
+      markFinished = resolve;
+    });
+
+    const controller = new AbortController();
+    this.running.set(executionId, { controller, finished, markFinished });
+    return controller.signal;
+  }
+
+  /**
+   * Remove an execution once the engine has written its final status
+   */
+  unregister(executionId: string): void {
+    const entry = this.running.get(executionId);
+    if (!entry) return;
+
+    this.running.delete(executionId);
+    entry.markFinished();
+  }
+
+  isRunning(executionId: string): boolean {
+    return this.running.has(executionId);
+  }
+
+  /**
+   * Abort a running execution and wait until the engine has stopped it.
+   * Returns false when the execution is not running in this process, or
+   * when a node ignoring the signal keeps it from stopping within `timeoutMs`.
+   */
+  async cancel(executionId: string, timeoutMs = CANCEL_TIMEOUT_MS): Promise<boolean> {
+    const entry = this.running.get(executionId);
+    if (!entry) return false;
+
+    entry.controller.abort();
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<false>(resolve => {
+      timer = setTimeout(() => resolve(false), timeoutMs);
+    });
+    try {
+      return await Promise.race([entry.finished.then(() => true), timedOut]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+export const executionRegistry = new ExecutionRegistry();
@@ -0,0 +1,90 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "http";
+import { type AddressInfo } from "net";
+import { WebSocket } from "ws";
+import { type ExecutionEvent, type ExecutionSocketMessage } from "@shared/schema";
+import { MemStorage } from "./storage";
+import { executionEvents } from "./execution-events";
+import { EXECUTION_SOCKET_PATH, registerExecutionSocket } from "./execution-socket";
+
+function logEvent(executionId: string, sequence: number): ExecutionEvent {
+  return {
+    type: "log",
+    executionId,
+    log: { sequence, timestamp: new Date().toISOString(), level: "info", message: `line ${sequence}` }
+  };
+}
+
+describe("execution socket", () => {
+  const storage = new MemStorage();
+  let server: Server;
+  let socketUrl: string;
+
+  before(async () => {
+    server = createServer();
+    registerExecutionSocket(server, storage);
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    socketUrl = `ws://127.0.0.1:${(server.address() as AddressInfo).port}${EXECUTION_SOCKET_PATH}`;
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  // Connect and collect every message until the socket closes
+  function connect(executionId: string) {
+    const ws = new WebSocket(`${socketUrl}?executionId=${executionId}`);
+    const messages: ExecutionSocketMessage[] = [];
+    ws.on("message", data => messages.push(JSON.parse(data.toString())));
+    const closed = new Promise<number>(resolve => ws.on("close", code => resolve(code)));
+    return { ws, messages, closed };
+  }
+
+  async function waitFor(condition: () => boolean) {
+    for (let i = 0; i < 200; i++) {
+      if (condition()) return;
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    throw new Error("Timed out waiting for condition");
+  }
+
+  test("sends events published while the snapshot is read once, after the snapshot and in order", async () => {
+    const workflow = await storage.createWorkflow({ name: "Socket", nodes: [], connections: [] });
+    const { id } = await storage.createExecution({ workflowId: workflow.id, status: "running" });
+
+    // Published before the client connects, so not part of its stream
+    executionEvents.publish(logEvent(id, 1));
+
+    // Events land on both sides of the storage read the snapshot comes from
+    const getExecution = storage.getExecution.bind(storage);
+    storage.getExecution = async (executionId) => {
+      executionEvents.publish(logEvent(executionId, 2));
+      const execution = await getExecution(executionId);
+      executionEvents.publish(logEvent(executionId, 3));
+      return execution;
+    };
+
+    try {
+      const client = connect(id);
+      await waitFor(() => client.messages.length === 3);
+      executionEvents.publish(logEvent(id, 4));
+      await waitFor(() => client.messages.length === 4);
+      client.ws.close();
+      await client.closed;
+
+      assert.deepEqual(
+        client.messages.map(message => message.type === "log" ? message.log.sequence : message.type),
+        ["snapshot", 2, 3, 4]
+      );
+    } finally {
+      storage.getExecution = getExecution;
+    }
+  });
+
+  test("closes the socket for an unknown execution", async () => {
+    const client = connect("missing");
+    assert.equal(await client.closed, 4404);
+    assert.deepEqual(client.messages, []);
+  });
+});
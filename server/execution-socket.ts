@@ -0,0 +1,69 @@
+import type { Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import { type ExecutionEvent, type ExecutionSocketMessage } from "@shared/schema";
+import { type IStorage } from "./storage";
+import { executionEvents } from "./execution-events";
+
+export const EXECUTION_SOCKET_PATH = "/ws/executions";
+
+/**
+ * Stream an execution's events to clients connecting to
+ * /ws/executions?executionId=<id>
+ */
+export function registerExecutionSocket(server: Server, storage: IStorage) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  // Only claim our own path so other upgrades (e.g. Vite HMR) keep working
+  server.on("upgrade", (req, socket, head) => {
+    const { pathname } = new URL(req.url ?? "", "http://localhost");
+    if (pathname !== EXECUTION_SOCKET_PATH) return;
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      wss.emit("connection", ws, req);
+    });
+  });
+
+  wss.on("connection", async (ws: WebSocket, req) => {
+    const { searchParams } = new URL(req.url ?? "", "http://localhost");
+    const executionId = searchParams.get("executionId");
+    if (!executionId) {
+      ws.close(1008, "executionId is required");
+      return;
+    }
+
+    const send = (message: ExecutionSocketMessage) => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify(message));
+      }
+    };
+
+    // Subscribe before reading the snapshot so no event slips in between;
+    // events that arrive meanwhile are held until the snapshot is out
+    let queued: ExecutionEvent[] | undefined = [];
+    const unsubscribe = executionEvents.subscribe(executionId, (event) => {
+      if (queued) {
+        queued.push(event);
+      } else {
+        send(event);
+      }
+    });
+    ws.on("close", unsubscribe);
+
+    try {
+      const execution = await storage.getExecution(executionId);
+      if (!execution) {
+        ws.close(4404, "Execution not found");
+        return;
+      }
+
+      const { logs, ...snapshot } = execution;
+      send({ type: "snapshot", execution: snapshot });
+
+      const pending = queued;
+      queued = undefined;
+      pending.forEach(send);
+    } catch (error) {
+      ws.close(1011, "Failed to load execution");
+    }
+  });
+}
@@ -0,0 +1,279 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "http";
+import { type AddressInfo } from "net";
+import { type Connection, type Execution, type InsertWorkflow, type WorkflowNode } from "@shared/schema";
+import { MemStorage } from "./storage";
+import { PartialExecutionError, retryExecution, startExecution, startPartialExecution } from "./executions";
+
+const design: InsertWorkflow = {
+  name: "Versioned",
+  nodes: [
+    { id: "start", type: "StartNode", position: { x: 0, y: 0 }, params: {} },
+    { id: "log", type: "LogMessageNode", position: { x: 200, y: 0 }, params: { message: "v1" } }
+  ],
+  connections: [{ id: "c1", from: "start", to: "log" }]
+};
+
+async function runToEnd(
+  storage: MemStorage,
+  started: { execution: Execution; finished: Promise<void> }
+): Promise<Execution> {
+  await started.finished;
+  return (await storage.getExecution(started.execution.id))!;
+}
+
+describe("startExecution", () => {
+  test("records the workflow version each run used", async () => {
+    const storage = new MemStorage();
+    const workflow = await storage.createWorkflow(design);
+    const first = await runToEnd(storage, await startExecution(storage, workflow, { triggerType: "manual" }));
+    assert.equal(first.workflowVersion, 1);
+
+    // Saving the design bumps the version; toggling activation doesn't
+    const edited = (await storage.updateWorkflow(workflow.id, {
+      nodes: [design.nodes[0], { ...design.nodes[1], params: { message: "v2" } }]
+    }))!;
+    assert.equal(edited.version, 2);
+    const activated = (await storage.updateWorkflow(workflow.id, { active: true }))!;
+    assert.equal(activated.version, 2);
+    const second = await runToEnd(storage, await startExecution(storage, activated, { triggerType: "manual" }));
+    assert.equal(second.workflowVersion, 2);
+    assert.equal(second.results?.log?.[0].logMessage, "v2");
+
+    // The earlier run still points at the version it ran
+    assert.equal((await storage.getExecution(first.id))?.workflowVersion, 1);
+    const { executions } = await storage.listExecutions(workflow.id, { limit: 10, sort: "startedAt", order: "desc" });
+    const versions = new Map(executions.map(execution => [execution.id, execution.workflowVersion]));
+    assert.deepEqual(versions, new Map([[first.id, 1], [second.id, 2]]));
+  });
+
+  test("records no version for a workflow saved before versioning", async () => {
+    const storage = new MemStorage();
+    const workflow = await storage.createWorkflow(design);
+    const execution = await runToEnd(storage, await startExecution(storage, { ...workflow, version: undefined }, { triggerType: "manual" }));
+    assert.equal(execution.workflowVersion, undefined);
+    assert.equal(execution.status, "completed");
+  });
+});
+
+function node(id: string, type: WorkflowNode["type"], params: Record<string, any> = {}): WorkflowNode {
+  return { id, type, position: { x: 0, y: 0 }, params };
+}
+
+function connect(from: string, to: string): Connection {
+  return { id: `${from}-${to}`, from, to };
+}
+
+function messages(execution: Execution): string[] {
+  return execution.logs.map(log => log.message);
+}
+
+// Nodes the engine actually ran, rather than took over
+function executedNodeIds(execution: Execution): string[] {
+  return messages(execution)
+    .filter(message => message.startsWith("Executing Node: "))
+    .map(message => message.split(" ")[2])
+    .sort();
+}
+
+describe("retryExecution", () => {
+  // Answers /fail with a 500 while `failing` is set, and anything else with its path
+  let server: Server;
+  let baseUrl: string;
+  let failing: boolean;
+  let requests: string[];
+
+  before(async () => {
+    server = createServer((req, res) => {
+      requests.push(req.url ?? "");
+      res.statusCode = failing && req.url === "/fail" ? 500 : 200;
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify({ path: req.url }));
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    failing = true;
+    requests = [];
+  });
+
+  // start -> fetch -> done -> flaky -> after, where flaky fails at first
+  async function failedRun(storage: MemStorage) {
+    const workflow = await storage.createWorkflow({
+      name: "Retry",
+      nodes: [
+        node("start", "StartNode"),
+        node("fetch", "FetchApiNode", { url: `${baseUrl}/fetch` }),
+        node("done", "LogMessageNode", { message: "{{ data.path }}" }),
+        node("flaky", "FetchApiNode", { url: `${baseUrl}/fail` }),
+        node("after", "LogMessageNode")
+      ],
+      connections: [connect("start", "fetch"), connect("fetch", "done"), connect("done", "flaky"), connect("flaky", "after")]
+    });
+    const failed = await runToEnd(storage, await startExecution(storage, workflow, { triggerType: "manual" }));
+    assert.equal(failed.status, "failed");
+    assert.deepEqual(failed.nodeStatuses, { start: "success", fetch: "success", done: "success", flaky: "error" });
+    failing = false;
+    requests = [];
+    return { workflow, failed };
+  }
+
+  test("keeps the results of nodes that succeeded and resumes at the failed node", async () => {
+    const storage = new MemStorage();
+    const { workflow, failed } = await failedRun(storage);
+
+    const retried = await runToEnd(storage, await retryExecution(storage, failed, workflow, { resume: true }));
+    assert.equal(retried.status, "completed");
+    assert.equal(retried.retryOf, failed.id);
+    assert.deepEqual(requests, ["/fail"]);
+    assert.deepEqual(executedNodeIds(retried), ["after", "flaky"]);
+    assert.ok(messages(retried).includes(`Reusing results of start, fetch, done from execution ${failed.id}`));
+    assert.deepEqual(retried.results?.done, failed.results?.done);
+    assert.deepEqual(retried.nodeStatuses, { start: "success", fetch: "success", done: "success", flaky: "success", after: "success" });
+  });
+
+  test("runs every node again when re-running", async () => {
+    const storage = new MemStorage();
+    const { workflow, failed } = await failedRun(storage);
+
+    const rerun = await runToEnd(storage, await retryExecution(storage, failed, workflow, { resume: false }));
+    assert.equal(rerun.status, "completed");
+    assert.equal(rerun.retryOf, failed.id);
+    assert.deepEqual([...requests].sort(), ["/fail", "/fetch"]);
+    assert.deepEqual(executedNodeIds(rerun), ["after", "done", "fetch", "flaky", "start"]);
+  });
+
+  test("runs again every node downstream of one whose definition changed", async () => {
+    const storage = new MemStorage();
+    const { workflow, failed } = await failedRun(storage);
+    const current = (await storage.updateWorkflow(workflow.id, {
+      nodes: workflow.nodes.map(n => n.id === "fetch" ? { ...n, params: { url: `${baseUrl}/fetch?v=2` } } : n)
+    }))!;
+
+    // By default the version the execution ran is retried, so fetch still holds
+    const asRan = await runToEnd(storage, await retryExecution(storage, failed, current, { resume: true }));
+    assert.equal(asRan.workflowVersion, 1);
+    assert.deepEqual(executedNodeIds(asRan), ["after", "flaky"]);
+
+    requests = [];
+    const onCurrent = await runToEnd(storage, await retryExecution(storage, failed, current, { resume: true, useCurrentWorkflow: true }));
+    assert.equal(onCurrent.workflowVersion, 2);
+    // done succeeded unchanged, but its input comes from fetch, which runs again
+    assert.deepEqual(executedNodeIds(onCurrent), ["after", "done", "fetch", "flaky"]);
+    assert.ok(messages(onCurrent).includes(`Reusing results of start from execution ${failed.id}`));
+    assert.deepEqual([...requests].sort(), ["/fail", "/fetch?v=2"]);
+    assert.equal(onCurrent.results?.done?.[0].logMessage, "/fetch?v=2");
+  });
+
+  test("re-runs with the input the trigger received", async () => {
+    const storage = new MemStorage();
+    const workflow = await storage.createWorkflow({
+      name: "Webhook rerun",
+      nodes: [node("hook", "WebhookNode", { path: "orders" }), node("log", "LogMessageNode", { message: "order {{ body.id }}" })],
+      connections: [connect("hook", "log")]
+    });
+    const triggerData = { method: "POST", path: "/orders", headers: {}, query: {}, body: { id: 42 } };
+    const original = await runToEnd(storage, await startExecution(storage, workflow, {
+      triggerType: "webhook",
+      triggerNodeId: "hook",
+      triggerData
+    }));
+
+    const rerun = await runToEnd(storage, await retryExecution(storage, original, workflow, { resume: false }));
+    assert.equal(rerun.triggerType, "manual");
+    assert.equal(rerun.triggerNodeId, "hook");
+    assert.deepEqual(rerun.nodeInputs?.hook, [triggerData]);
+    assert.equal(rerun.results?.log?.[0].logMessage, "order 42");
+    assert.deepEqual(executedNodeIds(rerun), ["hook", "log"]);
+  });
+});
+
+describe("startPartialExecution", () => {
+  // start -> if -> yes (true branch) / no (false branch)
+  async function branchingWorkflow(storage: MemStorage, condition: string) {
+    return storage.createWorkflow({
+      name: "Partial",
+      nodes: [
+        node("start", "StartNode"),
+        node("if", "IfNode", { condition }),
+        node("yes", "LogMessageNode", { message: "yes" }),
+        node("no", "LogMessageNode", { message: "no" })
+      ],
+      connections: [
+        connect("start", "if"),
+        { id: "if-yes", from: "if", to: "yes", fromOutput: "true" },
+        { id: "if-no", from: "if", to: "no", fromOutput: "false" }
+      ]
+    });
+  }
+
+  test("runs from a node with what the latest run fed it", async () => {
+    const storage = new MemStorage();
+    const workflow = await branchingWorkflow(storage, "true");
+    const previous = await runToEnd(storage, await startExecution(storage, workflow, { triggerType: "manual" }));
+
+    const partial = await runToEnd(storage, await startPartialExecution(storage, workflow, {
+      triggerType: "manual",
+      partial: { nodeId: "yes", mode: "from" }
+    }));
+    assert.equal(partial.status, "completed");
+    assert.deepEqual(partial.partial, { nodeId: "yes", mode: "from" });
+    assert.deepEqual(executedNodeIds(partial), ["yes"]);
+    assert.deepEqual(partial.nodeInputs?.yes, previous.results?.if);
+  });
+
+  test("runs from a node without inputs even when nothing ran before", async () => {
+    const storage = new MemStorage();
+    const workflow = await branchingWorkflow(storage, "true");
+
+    const partial = await runToEnd(storage, await startPartialExecution(storage, workflow, {
+      triggerType: "manual",
+      partial: { nodeId: "start", mode: "from" }
+    }));
+    assert.deepEqual(executedNodeIds(partial), ["if", "start", "yes"]);
+  });
+
+  test("refuses to run from a node no earlier run has reached", async () => {
+    const storage = new MemStorage();
+    const workflow = await branchingWorkflow(storage, "true");
+
+    await assert.rejects(
+      startPartialExecution(storage, workflow, { triggerType: "manual", partial: { nodeId: "yes", mode: "from" } }),
+      new PartialExecutionError("No earlier execution has data for the nodes before yes. Execute up to yes first.")
+    );
+    assert.deepEqual(await storage.getExecutionsByWorkflow(workflow.id), []);
+  });
+
+  test("refuses to run from a node on the branch the latest run didn't take", async () => {
+    const storage = new MemStorage();
+    const workflow = await branchingWorkflow(storage, "false");
+    const previous = await runToEnd(storage, await startExecution(storage, workflow, { triggerType: "manual" }));
+
+    await assert.rejects(
+      startPartialExecution(storage, workflow, { triggerType: "manual", partial: { nodeId: "yes", mode: "from" } }),
+      new PartialExecutionError(
+        `The latest execution with data for the nodes before yes (${previous.id}) took no branch leading to it, so it has no input.`
+      )
+    );
+    assert.equal((await storage.getExecutionsByWorkflow(workflow.id)).length, 1);
+  });
+
+  test("runs up to a node without needing an earlier run", async () => {
+    const storage = new MemStorage();
+    const workflow = await branchingWorkflow(storage, "true");
+
+    const partial = await runToEnd(storage, await startPartialExecution(storage, workflow, {
+      triggerType: "manual",
+      partial: { nodeId: "if", mode: "upTo" }
+    }));
+    assert.equal(partial.status, "completed");
+    assert.deepEqual(executedNodeIds(partial), ["if", "start"]);
+  });
+});
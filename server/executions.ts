@@ -0,0 +1,191 @@
+import { type Workflow, type Execution, type ExecutionTriggerType, type PartialExecution, type RetryExecutionOptions } from "@shared/schema";
+import { type IStorage } from "./storage";
+import { WorkflowEngine, getPartialNodeIds, type WorkflowRunOptions } from "./workflow-engine";
+import { connectionKey, isSameNodeDefinition } from "./workflow-diff";
+
+/**
+ * A partial execution that cannot start, e.g. because nothing feeds its node
+ */
+export class PartialExecutionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PartialExecutionError";
+  }
+}
+
+export interface StartExecutionOptions extends WorkflowRunOptions {
+  triggerType: ExecutionTriggerType;
+  // Earlier execution this one retries or re-runs
+  retryOf?: string;
+}
+
+/**
+ * Create an execution record and run the workflow in the background.
+ * Shared by the execute route and every trigger so runs start the same way.
+ */
+export async function startExecution(
+  storage: IStorage,
+  workflow: Workflow,
+  options: StartExecutionOptions
+): Promise<{ execution: Execution; finished: Promise<void> }> {
+  const { triggerType, retryOf, ...runOptions } = options;
+
+  const execution = await storage.createExecution({
+    workflowId: workflow.id,
+    // Workflows saved before versioning have no version to point at
+    workflowVersion: workflow.version || undefined,
+    retryOf,
+    status: "running",
+    triggerType,
+    triggerNodeId: runOptions.triggerNodeId,
+    concurrency: runOptions.concurrency,
+    partial: runOptions.partial
+  });
+
+  const engine = new WorkflowEngine(storage);
+  const finished = engine.executeWorkflow(workflow, execution.id, runOptions).catch(console.error);
+
+  return { execution, finished };
+}
+
+// Nodes a partial execution leaves alone
+function getNodesOutside(workflow: Workflow, partial: PartialExecution): string[] {
+  const partialNodeIds = getPartialNodeIds(workflow, partial);
+  return workflow.nodes.map(node => node.id).filter(nodeId => !partialNodeIds.has(nodeId));
+}
+
+/**
+ * Latest execution in which every node feeding `nodeId` succeeded, so its
+ * data can start a run from that node
+ */
+function findSourceExecution(storage: IStorage, workflow: Workflow, nodeId: string) {
+  const upstream = workflow.connections.filter(c => c.to === nodeId).map(c => c.from);
+  return storage.findLatestExecution(workflow.id, {
+    nodeStatuses: { nodeIds: upstream, statuses: ["success"] }
+  });
+}
+
+/**
+ * Run part of a workflow. Running from a node feeds it, and anything else
+ * outside the part, what the latest run reaching that node produced.
+ * Throws a PartialExecutionError when the node has inputs and no run has
+ * reached it, or when that run would hand it no items.
+ */
+export async function startPartialExecution(
+  storage: IStorage,
+  workflow: Workflow,
+  options: StartExecutionOptions & { partial: PartialExecution }
+): Promise<{ execution: Execution; finished: Promise<void> }> {
+  if (options.partial.mode === "upTo") {
+    return startExecution(storage, workflow, options);
+  }
+
+  const { nodeId } = options.partial;
+  const source = await findSourceExecution(storage, workflow, nodeId);
+  if (workflow.connections.some(c => c.to === nodeId)) {
+    if (!source) {
+      throw new PartialExecutionError(
+        `No earlier execution has data for the nodes before ${nodeId}. Execute up to ${nodeId} first.`
+      );
+    }
+    // Otherwise the node would be skipped without running
+    if (!new WorkflowEngine(storage).receivesReusedInput(workflow, source, nodeId)) {
+      throw new PartialExecutionError(
+        `The latest execution with data for the nodes before ${nodeId} (${source.id}) took no branch leading to it, so it has no input.`
+      );
+    }
+  }
+  return startExecution(storage, workflow, {
+    ...options,
+    reuse: source && { execution: source, nodeIds: getNodesOutside(workflow, options.partial) }
+  });
+}
+
+/**
+ * The workflow as an execution ran it: the saved version it recorded, or the
+ * current definition for runs from before versioning
+ */
+async function getExecutedWorkflow(storage: IStorage, execution: Execution, current: Workflow): Promise<Workflow> {
+  const version = execution.workflowVersion === undefined
+    ? undefined
+    : await storage.getWorkflowVersion(current.id, execution.workflowVersion);
+  if (!version) return current;
+  return {
+    ...current,
+    name: version.name,
+    description: version.description,
+    nodes: version.nodes,
+    connections: version.connections,
+    version: version.version
+  };
+}
+
+/**
+ * Nodes whose results from `previous` still hold when running `workflow`:
+ * they succeeded, are defined as they were then and only take input from
+ * other such nodes, over the same connections
+ */
+function getReusableNodeIds(workflow: Workflow, previous: Execution, previousWorkflow: Workflow): string[] {
+  const incomingKeys = (target: Workflow, nodeId: string) =>
+    target.connections.filter(c => c.to === nodeId).map(connectionKey).sort().join(",");
+
+  const reusable = new Set(workflow.nodes
+    .filter(node => {
+      const before = previousWorkflow.nodes.find(n => n.id === node.id);
+      return previous.nodeStatuses?.[node.id] === "success" &&
+        previous.results?.[node.id] !== undefined &&
+        !!before && isSameNodeDefinition(before, node) &&
+        incomingKeys(previousWorkflow, node.id) === incomingKeys(workflow, node.id);
+    })
+    .map(node => node.id));
+
+  // Drop nodes downstream of anything that runs again, until nothing changes
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const nodeId of Array.from(reusable)) {
+      if (workflow.connections.some(c => c.to === nodeId && !reusable.has(c.from))) {
+        reusable.delete(nodeId);
+        changed = true;
+      }
+    }
+  }
+  return Array.from(reusable);
+}
+
+/**
+ * Run a finished execution again with the same trigger input, over the same
+ * part of the workflow. With `resume`, nodes that succeeded keep their
+ * results and the run picks up at the node that failed; otherwise every node
+ * runs again, apart from those a partial run took from an earlier one.
+ */
+export async function retryExecution(
+  storage: IStorage,
+  previous: Execution,
+  current: Workflow,
+  options: RetryExecutionOptions & { resume: boolean }
+): Promise<{ execution: Execution; finished: Promise<void> }> {
+  const executed = await getExecutedWorkflow(storage, previous, current);
+  const workflow = options.useCurrentWorkflow ? current : executed;
+  const triggerData = previous.triggerNodeId ? previous.nodeInputs?.[previous.triggerNodeId]?.[0] : undefined;
+  const { partial } = previous;
+
+  // A partial run that ended up on a workflow without its node runs in full
+  const keepsPartial = !!partial && workflow.nodes.some(node => node.id === partial.nodeId);
+  let reuseNodeIds: string[] | undefined;
+  if (options.resume) {
+    reuseNodeIds = getReusableNodeIds(workflow, previous, executed);
+  } else if (keepsPartial && partial.mode === "from") {
+    reuseNodeIds = getNodesOutside(workflow, partial);
+  }
+
+  return startExecution(storage, workflow, {
+    triggerType: "manual",
+    triggerNodeId: previous.triggerNodeId,
+    triggerData,
+    concurrency: options.concurrency ?? previous.concurrency,
+    retryOf: previous.id,
+    partial: keepsPartial ? partial : undefined,
+    reuse: reuseNodeIds && { execution: previous, nodeIds: reuseNodeIds }
+  });
+}
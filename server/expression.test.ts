@@ -0,0 +1,231 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { type Connection, type Execution, type WorkflowNode } from "@shared/schema";
+import { evaluateExpression, parseExpression, resolveParameters, resolveTemplate, type ExpressionContext } from "./expression";
+import { MemStorage } from "./storage";
+import { WorkflowEngine } from "./workflow-engine";
+import { ExecutionRegistry } from "./execution-registry";
+import { ExecutionEventBus } from "./execution-events";
+
+const context: ExpressionContext = {
+  data: {
+    name: "Ann",
+    count: 3,
+    user: { address: { city: "Oslo" }, tags: ["a", "b"] },
+    items: [{ name: "first" }, { name: "second" }]
+  }
+};
+
+function evaluate(source: string, scope: ExpressionContext = context): unknown {
+  return evaluateExpression(source, scope);
+}
+
+async function runWorkflow(nodes: WorkflowNode[], connections: Connection[]): Promise<Execution> {
+  const storage = new MemStorage();
+  const engine = new WorkflowEngine(storage, new ExecutionRegistry(), new ExecutionEventBus());
+  const workflow = await storage.createWorkflow({ name: "Expression test", nodes, connections });
+  const execution = await storage.createExecution({ workflowId: workflow.id, status: "running" });
+  await engine.executeWorkflow(workflow, execution.id);
+  return (await storage.getExecution(execution.id))!;
+}
+
+describe("evaluateExpression", () => {
+  test("applies operator precedence", () => {
+    assert.equal(evaluate("1 + 2 * 3"), 7);
+    assert.equal(evaluate("(1 + 2) * 3"), 9);
+    assert.equal(evaluate("10 - 4 - 3"), 3);
+    assert.equal(evaluate("-2 * 3 + 7 % 4"), -3);
+    assert.equal(evaluate("1 + 2 > 2 && 2 * 2 === 4"), true);
+    assert.equal(evaluate("false || true && false"), false);
+    assert.equal(evaluate("!false === true"), true);
+    assert.equal(evaluate("null ?? 1 + 1"), 2);
+    assert.equal(evaluate("1 > 2 ? 'a' : 2 > 1 ? 'b' : 'c'"), "b");
+  });
+
+  test("adds numbers but joins text, and compares strings alphabetically", () => {
+    assert.equal(evaluate("{{name}} + '!'"), "Ann!");
+    assert.equal(evaluate("'n' + {{count}}"), "n3");
+    assert.equal(evaluate("true + 1"), 2);
+    assert.equal(evaluate("{{user.tags}} + ''"), "a,b");
+    assert.equal(evaluate("'10' * '2' - '1'"), 19);
+    assert.equal(evaluate("'10' < '9'"), true);
+    assert.equal(evaluate("'10' < 9"), false);
+    assert.equal(evaluate("{{name}} >= 'Ann' && {{missing}} < 1"), false);
+  });
+
+  test("reads paths into the input item", () => {
+    assert.equal(evaluate("{{name}}"), "Ann");
+    assert.equal(evaluate("{{ user.address.city }}"), "Oslo");
+    assert.equal(evaluate("{{items[1].name}}"), "second");
+    assert.equal(evaluate("{{user['tags'][0]}}"), "a");
+    assert.equal(evaluate("{{items.length}} + {{name.length}}"), 5);
+    assert.equal(evaluate("{{user.missing.deeper}}"), undefined);
+    assert.equal(evaluate("{{count}} === 3 && contains(lower(name), 'an')"), true);
+  });
+
+  test("rejects invalid syntax with the position of the problem", () => {
+    assert.throws(() => parseExpression(""), { name: "ExpressionError", message: "Expression is empty" });
+    assert.throws(() => parseExpression("1 +"), { message: "Unexpected end of expression at position 3" });
+    assert.throws(() => parseExpression("(1 + 2"), { message: 'Expected ")" but found end of expression at position 6' });
+    assert.throws(() => parseExpression("1 2"), { message: 'Unexpected "2" at position 2' });
+    assert.throws(() => parseExpression("'open"), { message: "Unterminated string literal at position 0" });
+    assert.throws(() => parseExpression("1 # 2"), { message: 'Unexpected character "#" at position 2' });
+    assert.throws(() => parseExpression("user.'name'"), {
+      message: 'Expected property name but found string "name" at position 5'
+    });
+  });
+
+  test("blocks __proto__, prototype and constructor", () => {
+    for (const source of [
+      "{{__proto__}}",
+      "{{constructor}}",
+      "{{user.constructor}}",
+      "{{user['__proto__']}}",
+      "{{name['constructor']}}",
+      "{{user['proto' + 'type']}}"
+    ]) {
+      assert.throws(() => evaluate(source), { name: "ExpressionError", message: /^Access to "\w+" is not allowed$/ }, source);
+    }
+  });
+
+  test("only reads own properties of the data", () => {
+    const data = Object.assign(Object.create({ inherited: "secret" }), { own: "visible" });
+    assert.equal(evaluate("{{own}}", { data }), "visible");
+    assert.equal(evaluate("{{inherited}}", { data }), undefined);
+    assert.equal(evaluate("{{toString}}"), undefined);
+    assert.equal(evaluate("{{user.hasOwnProperty}}"), undefined);
+    assert.equal(evaluate("{{name.toUpperCase}}"), undefined);
+    assert.equal(evaluate("{{items.map}}"), undefined);
+  });
+
+  test("only calls whitelisted helpers", () => {
+    assert.equal(evaluate("upper(name)"), "ANN");
+    assert.equal(evaluate("join(split('a-b', '-'), '+')"), "a+b");
+    assert.throws(() => evaluate("eval('1 + 1')"), { message: 'Unknown function "eval" at position 0' });
+    assert.throws(() => evaluate("constructor('return 1')"), { message: 'Unknown function "constructor" at position 0' });
+    assert.throws(() => evaluate("hasOwnProperty('name')"), { message: 'Unknown function "hasOwnProperty" at position 0' });
+    assert.throws(() => evaluate("name.toUpperCase()"), { message: "Only helper functions can be called at position 16" });
+    assert.throws(() => evaluate("(upper)(name)"), { message: "Only helper functions can be called at position 7" });
+    assert.throws(() => evaluate("lower(count)"), { message: "lower() expects a string but received number" });
+  });
+
+  test("reports which template failed to parse", () => {
+    assert.throws(() => resolveTemplate("Hi {{ name + }}", context), {
+      message: 'Invalid expression "{{ name + }}": Unexpected end of expression at position 8'
+    });
+    assert.throws(() => resolveTemplate("Hi {{ name", context), { message: 'Missing closing "}}" at position 3' });
+  });
+
+  test("IfNode logs why its condition could not be evaluated", async () => {
+    const execution = await runWorkflow([
+      { id: "start", type: "StartNode", position: { x: 0, y: 0 }, params: {} },
+      { id: "if", type: "IfNode", position: { x: 200, y: 0 }, params: { condition: "{{startTime}} ===" } }
+    ], [{ id: "c1", from: "start", to: "if", fromOutput: "main" }]);
+
+    assert.equal(execution.status, "failed");
+    assert.equal(execution.nodeStatuses?.if, "error");
+    const errors = execution.logs.filter(log => log.level === "error").map(log => log.message);
+    assert.deepEqual(errors, [
+      'ERROR: Failed to evaluate condition "{{startTime}} ===": Unexpected end of expression at position 17'
+    ]);
+  });
+});
+
+describe("resolveParameters", () => {
+  const scope: ExpressionContext = {
+    data: { id: 7, name: "Ann" },
+    variables: {
+      $json: { id: 7, name: "Ann" },
+      $node: { fetch: { json: { token: "abc" }, items: [{ token: "abc" }, { token: "def" }] } },
+      $env: { REGION: "eu" }
+    }
+  };
+
+  test("resolves $json, $node and $env in nested parameters", () => {
+    const resolved = resolveParameters({
+      url: "https://api.test/users/{{ $json.id }}?region={{ $env.REGION }}",
+      headers: { Authorization: "Bearer {{ $node['fetch'].json.token }}" },
+      ids: ["{{ $json.id }}", "{{ $node.fetch.items[1].token }}", 3],
+      body: "{{ $json }}"
+    }, scope);
+
+    assert.deepEqual(resolved, {
+      url: "https://api.test/users/7?region=eu",
+      headers: { Authorization: "Bearer abc" },
+      ids: [7, "def", 3],
+      body: { id: 7, name: "Ann" }
+    });
+  });
+
+  test("leaves raw keys for the node to evaluate", () => {
+    const resolved = resolveParameters({ condition: "{{ $json.id }} > 5", message: "{{ name }}" }, scope, ["condition"]);
+    assert.deepEqual(resolved, { condition: "{{ $json.id }} > 5", message: "Ann" });
+  });
+
+  test("names the parameter an expression failed in", () => {
+    assert.throws(() => resolveParameters({ url: "{{ $secret }}" }, scope), {
+      message: 'Parameter "url": Invalid expression "{{ $secret }}": Unknown variable "$secret" at position 1'
+    });
+  });
+
+  describe("in a workflow run", () => {
+    const saved = { ...process.env };
+
+    before(() => {
+      process.env.WORKFLOW_ENV_WHITELIST = "PUBLIC_REGION";
+      process.env.PUBLIC_REGION = "eu-north";
+      process.env.SECRET_TOKEN = "hunter2";
+    });
+
+    after(() => {
+      process.env = saved;
+    });
+
+    test("exposes whitelisted env variables, the workflow, the execution and upstream nodes", async () => {
+      const execution = await runWorkflow([
+        {
+          id: "start",
+          type: "StartNode",
+          position: { x: 0, y: 0 },
+          params: {
+            user: "ann",
+            workflowId: "{{ $workflow.id }}",
+            workflowName: "{{ $workflow.name }}",
+            executionId: "{{ $execution.id }}",
+            region: "{{ $env.PUBLIC_REGION }}",
+            secret: "{{ $env.SECRET_TOKEN }}"
+          }
+        },
+        {
+          id: "log",
+          type: "LogMessageNode",
+          position: { x: 200, y: 0 },
+          params: { message: "{{ $json.user }} in {{ $node['start'].json.region }}" }
+        }
+      ], [{ id: "c1", from: "start", to: "log" }]);
+
+      assert.equal(execution.status, "completed");
+      const [start] = execution.results?.start ?? [];
+      assert.equal(start.workflowId, execution.workflowId);
+      assert.equal(start.workflowName, "Expression test");
+      assert.equal(start.executionId, execution.id);
+      assert.equal(start.region, "eu-north");
+      assert.equal(start.secret, undefined);
+      assert.equal(execution.results?.log?.[0].logMessage, "ann in eu-north");
+    });
+
+    test("keeps env variables outside the whitelist unreadable", async () => {
+      const execution = await runWorkflow([
+        { id: "start", type: "StartNode", position: { x: 0, y: 0 }, params: {} },
+        {
+          id: "log",
+          type: "LogMessageNode",
+          position: { x: 200, y: 0 },
+          params: { message: "{{ $env }}|{{ $env['SECRET_TOKEN'] }}|{{ keys($env) }}" }
+        }
+      ], [{ id: "c1", from: "start", to: "log" }]);
+
+      assert.equal(execution.results?.log?.[0].logMessage, '{"PUBLIC_REGION":"eu-north"}||["PUBLIC_REGION"]');
+    });
+  });
+});
@@ -0,0 +1,579 @@
+import { type INodeData } from "@shared/schema";
+
+/**
+ * Sandboxed expression language used by node parameters.
+ *
+ * Expressions support literals, `{{ path }}` access into the input item,
+ * `$variables`, member access, arithmetic, comparisons, boolean logic, the
+ * ternary operator and a fixed set of helper functions. Nothing is ever
+ * handed to `eval`, and member access only reads own properties of the data.
+ */
+
+export interface ExpressionContext {
+  // The input item bare identifiers resolve against
+  data: INodeData;
+  // Values exposed as `$name`
+  variables?: Record<string, unknown>;
+}
+
+export class ExpressionError extends Error {
+  constructor(message: string, public readonly position?: number) {
+    super(position === undefined ? message : `${message} at position ${position}`);
+    this.name = "ExpressionError";
+  }
+}
+
+type TokenType = "number" | "string" | "identifier" | "operator" | "eof";
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+type ExpressionNode =
+  | { type: "Literal"; value: unknown }
+  | { type: "Array"; elements: ExpressionNode[] }
+  | { type: "Identifier"; name: string; position: number }
+  | { type: "Member"; object: ExpressionNode; property: ExpressionNode }
+  | { type: "Call"; callee: string; args: ExpressionNode[]; position: number }
+  | { type: "Unary"; operator: string; argument: ExpressionNode }
+  | { type: "Binary"; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { type: "Logical"; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { type: "Conditional"; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode };
+
+// Longest operators first so "===" wins over "=="
+const OPERATORS = [
+  "===", "!==", "{{", "}}", "==", "!=", "<=", ">=", "&&", "||", "??",
+  "<", ">", "!", "+", "-", "*", "/", "%", "(", ")", "[", "]", ",", ".", "?", ":"
+];
+
+const KEYWORDS: Record<string, unknown> = {
+  true: true,
+  false: false,
+  null: null,
+  undefined: undefined
+};
+
+const FORBIDDEN_PROPERTIES = new Set(["__proto__", "prototype", "constructor"]);
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === "." && /[0-9]/.test(source[i + 1] ?? ""))) {
+      const match = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(source.slice(i))!;
+      tokens.push({ type: "number", value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const start = i;
+      let value = "";
+      i++;
+      while (i < source.length && source[i] !== char) {
+        if (source[i] === "\\" && i + 1 < source.length) {
+          const escaped = source[i + 1];
+          value += escaped === "n" ? "\n" : escaped === "t" ? "\t" : escaped;
+          i += 2;
+        } else {
+          value += source[i++];
+        }
+      }
+      if (i >= source.length) {
+        throw new ExpressionError("Unterminated string literal", start);
+      }
+      i++;
+      tokens.push({ type: "string", value, position: start });
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(source.slice(i))!;
+      tokens.push({ type: "identifier", value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, i));
+    if (!operator) {
+      throw new ExpressionError(`Unexpected character "${char}"`, i);
+    }
+    tokens.push({ type: "operator", value: operator, position: i });
+    i += operator.length;
+  }
+
+  tokens.push({ type: "eof", value: "", position: source.length });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    if (this.peek().type === "eof") {
+      throw new ExpressionError("Expression is empty");
+    }
+    const node = this.parseConditional();
+    const next = this.peek();
+    if (next.type !== "eof") {
+      throw new ExpressionError(`Unexpected ${describe(next)}`, next.position);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private matchOperator(...operators: string[]): string | undefined {
+    const token = this.peek();
+    if (token.type === "operator" && operators.includes(token.value)) {
+      this.index++;
+      return token.value;
+    }
+    return undefined;
+  }
+
+  private expectOperator(operator: string): void {
+    const token = this.peek();
+    if (token.type !== "operator" || token.value !== operator) {
+      throw new ExpressionError(`Expected "${operator}" but found ${describe(token)}`, token.position);
+    }
+    this.index++;
+  }
+
+  private parseConditional(): ExpressionNode {
+    const test = this.parseBinary(0);
+    if (!this.matchOperator("?")) {
+      return test;
+    }
+    const consequent = this.parseConditional();
+    this.expectOperator(":");
+    const alternate = this.parseConditional();
+    return { type: "Conditional", test, consequent, alternate };
+  }
+
+  // Precedence levels from loosest to tightest
+  private static readonly LEVELS: string[][] = [
+    ["??"],
+    ["||"],
+    ["&&"],
+    ["==", "!=", "===", "!=="],
+    ["<", "<=", ">", ">="],
+    ["+", "-"],
+    ["*", "/", "%"]
+  ];
+
+  private parseBinary(level: number): ExpressionNode {
+    if (level >= Parser.LEVELS.length) {
+      return this.parseUnary();
+    }
+    let left = this.parseBinary(level + 1);
+    let operator: string | undefined;
+    while ((operator = this.matchOperator(...Parser.LEVELS[level]))) {
+      const right = this.parseBinary(level + 1);
+      left = level <= 2
+        ? { type: "Logical", operator, left, right }
+        : { type: "Binary", operator, left, right };
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    const operator = this.matchOperator("!", "-", "+");
+    if (operator) {
+      return { type: "Unary", operator, argument: this.parseUnary() };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): ExpressionNode {
+    let node = this.parsePrimary();
+    while (true) {
+      if (this.matchOperator(".")) {
+        const token = this.next();
+        if (token.type !== "identifier") {
+          throw new ExpressionError(`Expected property name but found ${describe(token)}`, token.position);
+        }
+        node = { type: "Member", object: node, property: { type: "Literal", value: token.value } };
+      } else if (this.matchOperator("[")) {
+        const property = this.parseConditional();
+        this.expectOperator("]");
+        node = { type: "Member", object: node, property };
+      } else if (this.peek().type === "operator" && this.peek().value === "(") {
+        throw new ExpressionError("Only helper functions can be called", this.peek().position);
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case "number":
+        return { type: "Literal", value: Number(token.value) };
+      case "string":
+        return { type: "Literal", value: token.value };
+      case "identifier":
+        if (Object.prototype.hasOwnProperty.call(KEYWORDS, token.value)) {
+          return { type: "Literal", value: KEYWORDS[token.value] };
+        }
+        if (this.matchOperator("(")) {
+          return { type: "Call", callee: token.value, args: this.parseArguments(), position: token.position };
+        }
+        return { type: "Identifier", name: token.value, position: token.position };
+      case "operator":
+        if (token.value === "(") {
+          const node = this.parseConditional();
+          this.expectOperator(")");
+          return node;
+        }
+        if (token.value === "{{") {
+          const node = this.parseConditional();
+          this.expectOperator("}}");
+          return node;
+        }
+        if (token.value === "[") {
+          const elements: ExpressionNode[] = [];
+          if (!this.matchOperator("]")) {
+            do {
+              elements.push(this.parseConditional());
+            } while (this.matchOperator(","));
+            this.expectOperator("]");
+          }
+          return { type: "Array", elements };
+        }
+        break;
+    }
+
+    throw new ExpressionError(`Unexpected ${describe(token)}`, token.position);
+  }
+
+  private parseArguments(): ExpressionNode[] {
+    const args: ExpressionNode[] = [];
+    if (this.matchOperator(")")) {
+      return args;
+    }
+    do {
+      args.push(this.parseConditional());
+    } while (this.matchOperator(","));
+    this.expectOperator(")");
+    return args;
+  }
+}
+
+function describe(token: Token): string {
+  switch (token.type) {
+    case "eof":
+      return "end of expression";
+    case "string":
+      return `string "${token.value}"`;
+    default:
+      return `"${token.value}"`;
+  }
+}
+
+function toText(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function expectString(name: string, value: unknown): string {
+  if (typeof value !== "string") {
+    throw new ExpressionError(`${name}() expects a string but received ${value === null ? "null" : typeof value}`);
+  }
+  return value;
+}
+
+function expectArray(name: string, value: unknown): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new ExpressionError(`${name}() expects an array but received ${value === null ? "null" : typeof value}`);
+  }
+  return value;
+}
+
+const HELPERS: Record<string, (...args: unknown[]) => unknown> = {
+  length: (value) => {
+    if (typeof value === "string" || Array.isArray(value)) return value.length;
+    if (value && typeof value === "object") return Object.keys(value).length;
+    return 0;
+  },
+  lower: (value) => expectString("lower", value).toLowerCase(),
+  upper: (value) => expectString("upper", value).toUpperCase(),
+  trim: (value) => expectString("trim", value).trim(),
+  contains: (haystack, needle) => {
+    if (Array.isArray(haystack)) return haystack.includes(needle);
+    return expectString("contains", haystack).includes(toText(needle));
+  },
+  startsWith: (value, prefix) => expectString("startsWith", value).startsWith(toText(prefix)),
+  endsWith: (value, suffix) => expectString("endsWith", value).endsWith(toText(suffix)),
+  replace: (value, search, replacement) =>
+    expectString("replace", value).split(toText(search)).join(toText(replacement)),
+  split: (value, separator) => expectString("split", value).split(toText(separator)),
+  join: (value, separator = ",") => expectArray("join", value).map(toText).join(toText(separator)),
+  first: (value) => expectArray("first", value)[0],
+  last: (value) => {
+    const array = expectArray("last", value);
+    return array[array.length - 1];
+  },
+  isEmpty: (value) => {
+    if (value === undefined || value === null || value === "") return true;
+    if (Array.isArray(value)) return value.length === 0;
+    if (typeof value === "object") return Object.keys(value).length === 0;
+    return false;
+  },
+  keys: (value) => (value && typeof value === "object" ? Object.keys(value) : []),
+  number: (value) => Number(value),
+  string: (value) => toText(value),
+  abs: (value) => Math.abs(Number(value)),
+  round: (value, digits = 0) => {
+    const factor = Math.pow(10, Number(digits));
+    return Math.round(Number(value) * factor) / factor;
+  },
+  min: (...values) => Math.min(...values.flat().map(Number)),
+  max: (...values) => Math.max(...values.flat().map(Number))
+};
+
+function readProperty(object: unknown, property: unknown): unknown {
+  const key = typeof property === "number" ? property : toText(property);
+  if (typeof key === "string" && FORBIDDEN_PROPERTIES.has(key)) {
+    throw new ExpressionError(`Access to "${key}" is not allowed`);
+  }
+  if (object === null || object === undefined) {
+    return undefined;
+  }
+  if ((typeof object === "string" || Array.isArray(object)) && key === "length") {
+    return object.length;
+  }
+  if (typeof object === "object" && Object.prototype.hasOwnProperty.call(object, key)) {
+    return (object as Record<string | number, unknown>)[key];
+  }
+  if (typeof object === "string" && typeof key === "number") {
+    return object[key];
+  }
+  return undefined;
+}
+
+// `+` adds numbers, booleans and nulls, and joins anything else as text
+function add(left: unknown, right: unknown): unknown {
+  const isNumeric = (value: unknown) => value == null || typeof value === "number" || typeof value === "boolean";
+  if (isNumeric(left) && isNumeric(right)) return Number(left) + Number(right);
+  return String(left) + String(right);
+}
+
+// Two strings compare alphabetically; anything else compares as numbers
+function compare(operator: "<" | "<=" | ">" | ">=", left: unknown, right: unknown): boolean {
+  const [a, b] = typeof left === "string" && typeof right === "string"
+    ? [left, right]
+    : [Number(left), Number(right)];
+  switch (operator) {
+    case "<": return a < b;
+    case "<=": return a <= b;
+    case ">": return a > b;
+    default: return a >= b;
+  }
+}
+
+function evaluateNode(node: ExpressionNode, context: ExpressionContext): unknown {
+  switch (node.type) {
+    case "Literal":
+      return node.value;
+    case "Array":
+      return node.elements.map(element => evaluateNode(element, context));
+    case "Identifier":
+      if (node.name.startsWith("$")) {
+        const variables = context.variables ?? { $json: context.data };
+        if (!Object.prototype.hasOwnProperty.call(variables, node.name)) {
+          throw new ExpressionError(`Unknown variable "${node.name}"`, node.position);
+        }
+        return variables[node.name];
+      }
+      return readProperty(context.data, node.name);
+    case "Member":
+      return readProperty(evaluateNode(node.object, context), evaluateNode(node.property, context));
+    case "Call": {
+      const helper = Object.prototype.hasOwnProperty.call(HELPERS, node.callee) ? HELPERS[node.callee] : undefined;
+      if (!helper) {
+        throw new ExpressionError(`Unknown function "${node.callee}"`, node.position);
+      }
+      return helper(...node.args.map(arg => evaluateNode(arg, context)));
+    }
+    case "Unary": {
+      const argument = evaluateNode(node.argument, context);
+      switch (node.operator) {
+        case "!": return !argument;
+        case "-": return -(argument as number);
+        default: return +(argument as number);
+      }
+    }
+    case "Logical": {
+      const left = evaluateNode(node.left, context);
+      switch (node.operator) {
+        case "&&": return left ? evaluateNode(node.right, context) : left;
+        case "||": return left ? left : evaluateNode(node.right, context);
+        default: return left ?? evaluateNode(node.right, context);
+      }
+    }
+    case "Binary": {
+      const left = evaluateNode(node.left, context);
+      const right = evaluateNode(node.right, context);
+      switch (node.operator) {
+        case "==": return left == right;
+        case "!=": return left != right;
+        case "===": return left === right;
+        case "!==": return left !== right;
+        case "<":
+        case "<=":
+        case ">":
+        case ">=":
+          return compare(node.operator, left, right);
+        case "+": return add(left, right);
+        case "-": return Number(left) - Number(right);
+        case "*": return Number(left) * Number(right);
+        case "/": return Number(left) / Number(right);
+        default: return Number(left) % Number(right);
+      }
+    }
+    case "Conditional":
+      return evaluateNode(node.test, context)
+        ? evaluateNode(node.consequent, context)
+        : evaluateNode(node.alternate, context);
+  }
+}
+
+/**
+ * Parse an expression, throwing an ExpressionError on invalid syntax
+ */
+export function parseExpression(source: string): ExpressionNode {
+  return new Parser(tokenize(source)).parse();
+}
+
+/**
+ * Evaluate a full expression such as `{{status}} === 200 && contains(lower(name), "bob")`
+ */
+export function evaluateExpression(source: string, context: ExpressionContext): unknown {
+  return evaluateNode(parseExpression(source), context);
+}
+
+/**
+ * Find the "}}" closing the "{{" at `start`, skipping quoted strings
+ */
+function findTemplateEnd(template: string, start: number): number {
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let i = start; i < template.length; i++) {
+    const char = template[i];
+    if (quote) {
+      if (char === "\\") i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (template.startsWith("{{", i)) {
+      depth++;
+      i++;
+    } else if (template.startsWith("}}", i)) {
+      depth--;
+      if (depth === 0) return i;
+      i++;
+    }
+  }
+
+  throw new ExpressionError('Missing closing "}}"', start);
+}
+
+/**
+ * Returns true when a string contains at least one `{{ }}` expression
+ */
+export function isTemplate(value: unknown): value is string {
+  return typeof value === "string" && value.includes("{{");
+}
+
+/**
+ * Resolve every `{{ expression }}` in a text template. A template made of a
+ * single expression keeps the expression's type; otherwise the results are
+ * interpolated into the surrounding text.
+ */
+export function resolveTemplate(template: string, context: ExpressionContext): unknown {
+  let result = "";
+  let cursor = 0;
+  let start: number;
+
+  while ((start = template.indexOf("{{", cursor)) !== -1) {
+    const end = findTemplateEnd(template, start);
+    const source = template.slice(start + 2, end);
+    let value: unknown;
+    try {
+      value = evaluateExpression(source, context);
+    } catch (error: any) {
+      throw new ExpressionError(`Invalid expression "{{${source}}}": ${error.message}`);
+    }
+
+    if (start === 0 && end + 2 === template.length) {
+      return value;
+    }
+    result += template.slice(cursor, start) + toText(value);
+    cursor = end + 2;
+  }
+
+  return result + template.slice(cursor);
+}
+
+function resolveValue(value: unknown, context: ExpressionContext): unknown {
+  if (isTemplate(value)) {
+    return resolveTemplate(value, context);
+  }
+  if (Array.isArray(value)) {
+    return value.map(entry => resolveValue(entry, context));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, resolveValue(entry, context)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Resolve the templates in every parameter, including strings nested in
+ * objects and arrays. Keys listed in `rawKeys` are passed through untouched
+ * for nodes that evaluate them as expressions themselves.
+ */
+export function resolveParameters(
+  params: Record<string, any>,
+  context: ExpressionContext,
+  rawKeys: readonly string[] = []
+): Record<string, any> {
+  const resolved: Record<string, any> = {};
+  for (const [key, value] of Object.entries(params)) {
+    if (rawKeys.includes(key)) {
+      resolved[key] = value;
+      continue;
+    }
+    try {
+      resolved[key] = resolveValue(value, context);
+    } catch (error: any) {
+      throw new ExpressionError(`Parameter "${key}": ${error.message}`);
+    }
+  }
+  return resolved;
+}
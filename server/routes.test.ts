@@ -0,0 +1,175 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import express from "express";
+import { type Server } from "http";
+import { type AddressInfo } from "net";
+import { type Execution, type ExecutionLogPage } from "@shared/schema";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+
+describe("routes", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    const app = express();
+    app.use(express.json());
+    server = await registerRoutes(app);
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  function request(method: string, path: string, body?: unknown) {
+    return fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+  }
+
+  async function finished(executionId: string): Promise<Execution> {
+    for (let i = 0; i < 100; i++) {
+      const execution = await storage.getExecution(executionId);
+      if (execution && execution.status !== "running") return execution;
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    throw new Error(`Execution ${executionId} did not finish`);
+  }
+
+  describe("GET /api/executions/:id/logs", () => {
+    let executionId: string;
+
+    before(async () => {
+      const workflow = await storage.createWorkflow({ name: "Logs", nodes: [], connections: [] });
+      const execution = await storage.createExecution({ workflowId: workflow.id, status: "completed" });
+      executionId = execution.id;
+      for (let n = 1; n <= 7; n++) {
+        await storage.appendExecutionLog(executionId, { timestamp: new Date().toISOString(), level: "info", message: `line ${n}` });
+      }
+    });
+
+    async function page(query: string): Promise<ExecutionLogPage> {
+      const res = await request("GET", `/api/executions/${executionId}/logs?${query}`);
+      assert.equal(res.status, 200);
+      return res.json();
+    }
+
+    test("pages through a log larger than the limit", async () => {
+      const first = await page("limit=3");
+      assert.deepEqual(first.logs.map(log => log.sequence), [1, 2, 3]);
+      assert.equal(first.nextAfter, 3);
+      assert.equal(first.hasMore, true);
+
+      const second = await page(`after=${first.nextAfter}&limit=3`);
+      assert.deepEqual(second.logs.map(log => log.sequence), [4, 5, 6]);
+      assert.equal(second.nextAfter, 6);
+      assert.equal(second.hasMore, true);
+
+      // The last page holds the one remaining line
+      const last = await page(`after=${second.nextAfter}&limit=3`);
+      assert.deepEqual(last.logs.map(log => log.message), ["line 7"]);
+      assert.equal(last.nextAfter, 7);
+      assert.equal(last.hasMore, false);
+    });
+
+    test("reports no more lines when a page ends exactly at the end of the log", async () => {
+      const exact = await page("after=4&limit=3");
+      assert.deepEqual(exact.logs.map(log => log.sequence), [5, 6, 7]);
+      assert.equal(exact.nextAfter, 7);
+      assert.equal(exact.hasMore, false);
+
+      // Polling past the end keeps the cursor where it is
+      const empty = await page("after=7&limit=3");
+      assert.deepEqual(empty, { logs: [], nextAfter: 7, hasMore: false });
+    });
+
+    test("rejects invalid paging parameters and unknown executions", async () => {
+      for (const query of ["limit=0", "limit=1001", "limit=2.5", "after=-1", "after=abc"]) {
+        assert.equal((await request("GET", `/api/executions/${executionId}/logs?${query}`)).status, 400, query);
+      }
+      assert.equal((await request("GET", "/api/executions/missing/logs")).status, 404);
+    });
+  });
+
+  describe("POST /api/workflows/:id/execute with a partial run", () => {
+    test("explains why it cannot run from a node no run has reached", async () => {
+      const workflow = await storage.createWorkflow({
+        name: "Partial route",
+        nodes: [
+          { id: "start", type: "StartNode", position: { x: 0, y: 0 }, params: {} },
+          { id: "log", type: "LogMessageNode", position: { x: 200, y: 0 }, params: {} }
+        ],
+        connections: [{ id: "c1", from: "start", to: "log" }]
+      });
+
+      const from = await request("POST", `/api/workflows/${workflow.id}/execute`, { partial: { nodeId: "log", mode: "from" } });
+      assert.equal(from.status, 409);
+      assert.deepEqual(await from.json(), { error: "No earlier execution has data for the nodes before log. Execute up to log first." });
+
+      const missing = await request("POST", `/api/workflows/${workflow.id}/execute`, { partial: { nodeId: "nope", mode: "upTo" } });
+      assert.equal(missing.status, 400);
+
+      const upTo = await request("POST", `/api/workflows/${workflow.id}/execute`, { partial: { nodeId: "log", mode: "upTo" } });
+      assert.equal(upTo.status, 201);
+      const started: Execution = await upTo.json();
+      assert.deepEqual(started.partial, { nodeId: "log", mode: "upTo" });
+      await finished(started.id);
+    });
+  });
+
+  describe("POST /api/executions/:id/:action(retry|rerun)", () => {
+    async function executionWithStatus(status: Execution["status"]): Promise<Execution> {
+      const workflow = await storage.createWorkflow({
+        name: "Retry route",
+        nodes: [{ id: "start", type: "StartNode", position: { x: 0, y: 0 }, params: {} }],
+        connections: []
+      });
+      return storage.createExecution({ workflowId: workflow.id, workflowVersion: workflow.version, status });
+    }
+
+    test("starts a new run pointing back at the execution", async () => {
+      const failed = await executionWithStatus("failed");
+      for (const action of ["retry", "rerun"]) {
+        const res = await request("POST", `/api/executions/${failed.id}/${action}`, { concurrency: 1 });
+        assert.equal(res.status, 201, action);
+        const started: Execution = await res.json();
+        assert.equal(started.retryOf, failed.id);
+        assert.equal(started.concurrency, 1);
+        assert.equal((await finished(started.id)).status, "completed");
+      }
+    });
+
+    test("only retries failed or stopped executions, but re-runs any finished one", async () => {
+      const stopped = await executionWithStatus("stopped");
+      const retried = await request("POST", `/api/executions/${stopped.id}/retry`);
+      assert.equal(retried.status, 201);
+      await finished((await retried.json()).id);
+
+      const completed = await executionWithStatus("completed");
+      const retry = await request("POST", `/api/executions/${completed.id}/retry`);
+      assert.equal(retry.status, 409);
+      assert.deepEqual(await retry.json(), { error: "Only failed or stopped executions can be retried" });
+      const rerun = await request("POST", `/api/executions/${completed.id}/rerun`);
+      assert.equal(rerun.status, 201);
+      await finished((await rerun.json()).id);
+
+      const running = await executionWithStatus("running");
+      for (const action of ["retry", "rerun"]) {
+        const res = await request("POST", `/api/executions/${running.id}/${action}`);
+        assert.equal(res.status, 409, action);
+        assert.deepEqual(await res.json(), { error: "Execution is still running" });
+      }
+    });
+
+    test("rejects invalid options and unknown executions", async () => {
+      const failed = await executionWithStatus("failed");
+      assert.equal((await request("POST", `/api/executions/${failed.id}/retry`, { concurrency: 0 })).status, 400);
+      assert.equal((await request("POST", `/api/executions/${failed.id}/retry`, { useCurrentWorkflow: "yes" })).status, 400);
+      assert.equal((await request("POST", "/api/executions/missing/retry")).status, 404);
+    });
+  });
+});
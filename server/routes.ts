@@ -1,15 +1,74 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertWorkflowSchema, insertExecutionSchema, type Workflow, type Execution } from "@shared/schema";
-import { WorkflowEngine } from "./workflow-engine";
+import { insertWorkflowSchema, insertExecutionSchema, executeWorkflowOptionsSchema, executionListQuerySchema, retryExecutionOptionsSchema, type Workflow, type WorkflowSummary, type Execution, type ExecutionLogPage, type NodeRunData } from "@shared/schema";
+import { executionRegistry } from "./execution-registry";
+import { startExecution, startPartialExecution, retryExecution, PartialExecutionError } from "./executions";
+import { webhookRegistry, registerWebhookRoutes } from "./webhooks";
+import { workflowScheduler } from "./scheduler";
+import { executionEvents } from "./execution-events";
+import { registerExecutionSocket } from "./execution-socket";
+import { diffWorkflowVersions } from "./workflow-diff";
+
+const DEFAULT_LOG_PAGE_SIZE = 200;
+const MAX_LOG_PAGE_SIZE = 1000;
+const DEFAULT_VERSION_PAGE_SIZE = 50;
+const MAX_VERSION_PAGE_SIZE = 200;
+
+// Version number from a route or query parameter, or undefined when invalid
+function parseVersion(value: unknown): number | undefined {
+  const version = Number(value);
+  return Number.isInteger(version) && version >= 1 ? version : undefined;
+}
+
+// Comma-separated query parameter as a list
+function parseList(value: unknown): unknown {
+  return typeof value === "string" ? value.split(",").filter(Boolean) : value;
+}
+
+/**
+ * Bring a workflow's webhooks and schedules in line with its saved definition
+ */
+function syncTriggers(workflow: Workflow) {
+  webhookRegistry.register(workflow);
+  workflowScheduler.schedule(workflow);
+}
+
+function removeTriggers(workflowId: string) {
+  webhookRegistry.unregister(workflowId);
+  workflowScheduler.unschedule(workflowId);
+}
+
+function toNodeRunData(execution: Omit<Execution, "logs">, nodeId: string): NodeRunData {
+  return {
+    executionId: execution.id,
+    nodeId,
+    status: execution.nodeStatuses?.[nodeId],
+    run: execution.nodeRuns?.[nodeId],
+    input: execution.nodeInputs?.[nodeId] ?? [],
+    output: execution.results?.[nodeId] ?? []
+  };
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Get all workflows
+  // Register webhook routes for the workflows that already exist
+  for (const workflow of await storage.getAllWorkflows()) {
+    webhookRegistry.register(workflow);
+  }
+  registerWebhookRoutes(app, storage);
+
+  // Get all workflows with their latest execution
   app.get("/api/workflows", async (_req, res) => {
     try {
-      const workflows = await storage.getAllWorkflows();
-      res.json(workflows);
+      const [workflows, latestExecutions] = await Promise.all([
+        storage.getAllWorkflows(),
+        storage.getLatestExecutions()
+      ]);
+      const summaries: WorkflowSummary[] = workflows.map(workflow => ({
+        ...workflow,
+        lastExecution: latestExecutions.get(workflow.id)
+      }));
+      res.json(summaries);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch workflows" });
     }
@@ -32,7 +91,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/workflows", async (req, res) => {
     try {
       const validatedData = insertWorkflowSchema.parse(req.body);
+      const conflicts = webhookRegistry.findConflicts(undefined, validatedData);
+      if (conflicts.length > 0) {
+        return res.status(409).json({ error: "Webhook path already in use", details: conflicts });
+      }
       const workflow = await storage.createWorkflow(validatedData);
+      syncTriggers(workflow);
       res.status(201).json(workflow);
     } catch (error) {
       res.status(400).json({ error: "Invalid workflow data", details: error });
@@ -43,10 +107,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put("/api/workflows/:id", async (req, res) => {
     try {
       const validatedData = insertWorkflowSchema.parse(req.body);
+      const conflicts = webhookRegistry.findConflicts(req.params.id, validatedData);
+      if (conflicts.length > 0) {
+        return res.status(409).json({ error: "Webhook path already in use", details: conflicts });
+      }
       const workflow = await storage.updateWorkflow(req.params.id, validatedData);
       if (!workflow) {
         return res.status(404).json({ error: "Workflow not found" });
       }
+      syncTriggers(workflow);
+      res.json(workflow);
+    } catch (error) {
+      res.status(400).json({ error: "Invalid workflow data", details: error });
+    }
+  });
+
+  // Update some fields of a workflow, e.g. its name or its nodes
+  app.patch("/api/workflows/:id", async (req, res) => {
+    try {
+      const validatedData = insertWorkflowSchema.partial().parse(req.body);
+      const existing = await storage.getWorkflow(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Workflow not found" });
+      }
+      const conflicts = webhookRegistry.findConflicts(existing.id, { ...existing, ...validatedData });
+      if (conflicts.length > 0) {
+        return res.status(409).json({ error: "Webhook path already in use", details: conflicts });
+      }
+      const workflow = await storage.updateWorkflow(existing.id, validatedData);
+      if (!workflow) {
+        return res.status(404).json({ error: "Workflow not found" });
+      }
+      syncTriggers(workflow);
       res.json(workflow);
     } catch (error) {
       res.status(400).json({ error: "Invalid workflow data", details: error });
@@ -60,12 +152,153 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!deleted) {
         return res.status(404).json({ error: "Workflow not found" });
       }
+      removeTriggers(req.params.id);
       res.status(204).send();
     } catch (error) {
       res.status(500).json({ error: "Failed to delete workflow" });
     }
   });
 
+  // List saved versions of a workflow, newest first
+  app.get("/api/workflows/:id/versions", async (req, res) => {
+    try {
+      const before = req.query.before === undefined ? undefined : parseVersion(req.query.before);
+      const limit = req.query.limit === undefined ? DEFAULT_VERSION_PAGE_SIZE : Number(req.query.limit);
+      if ((req.query.before !== undefined && before === undefined) ||
+          !Number.isInteger(limit) || limit < 1 || limit > MAX_VERSION_PAGE_SIZE) {
+        return res.status(400).json({ error: "Invalid version pagination parameters" });
+      }
+
+      const workflow = await storage.getWorkflow(req.params.id);
+      if (!workflow) {
+        return res.status(404).json({ error: "Workflow not found" });
+      }
+      res.json(await storage.getWorkflowVersions(workflow.id, before, limit));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch workflow versions" });
+    }
+  });
+
+  // Diff two versions; `to` defaults to the latest
+  app.get("/api/workflows/:id/versions/diff", async (req, res) => {
+    try {
+      const workflow = await storage.getWorkflow(req.params.id);
+      if (!workflow) {
+        return res.status(404).json({ error: "Workflow not found" });
+      }
+
+      const fromVersion = parseVersion(req.query.from);
+      const toVersion = req.query.to === undefined ? workflow.version : parseVersion(req.query.to);
+      if (fromVersion === undefined || toVersion === undefined) {
+        return res.status(400).json({ error: "Invalid version numbers" });
+      }
+
+      const [from, to] = await Promise.all([
+        storage.getWorkflowVersion(workflow.id, fromVersion),
+        storage.getWorkflowVersion(workflow.id, toVersion)
+      ]);
+      if (!from || !to) {
+        return res.status(404).json({ error: "Version not found" });
+      }
+      res.json(diffWorkflowVersions(from, to));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to diff workflow versions" });
+    }
+  });
+
+  // Get one saved version
+  app.get("/api/workflows/:id/versions/:version", async (req, res) => {
+    try {
+      const version = parseVersion(req.params.version);
+      if (version === undefined) {
+        return res.status(400).json({ error: "Invalid version number" });
+      }
+      const workflowVersion = await storage.getWorkflowVersion(req.params.id, version);
+      if (!workflowVersion) {
+        return res.status(404).json({ error: "Version not found" });
+      }
+      res.json(workflowVersion);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch workflow version" });
+    }
+  });
+
+  // Save an older version's design as the newest version
+  app.post("/api/workflows/:id/versions/:version/restore", async (req, res) => {
+    try {
+      const version = parseVersion(req.params.version);
+      if (version === undefined) {
+        return res.status(400).json({ error: "Invalid version number" });
+      }
+      const existing = await storage.getWorkflow(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Workflow not found" });
+      }
+      const restored = await storage.getWorkflowVersion(existing.id, version);
+      if (!restored) {
+        return res.status(404).json({ error: "Version not found" });
+      }
+
+      const design = {
+        name: restored.name,
+        description: restored.description,
+        nodes: restored.nodes,
+        connections: restored.connections
+      };
+      const conflicts = webhookRegistry.findConflicts(existing.id, { ...existing, ...design });
+      if (conflicts.length > 0) {
+        return res.status(409).json({ error: "Webhook path already in use", details: conflicts });
+      }
+
+      const workflow = await storage.updateWorkflow(existing.id, design, { restoredFrom: version });
+      if (!workflow) {
+        return res.status(404).json({ error: "Workflow not found" });
+      }
+      syncTriggers(workflow);
+      res.json(workflow);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to restore workflow version" });
+    }
+  });
+
+  // Activate or deactivate workflow triggers
+  app.post("/api/workflows/:id/:action(activate|deactivate)", async (req, res) => {
+    try {
+      const existing = await storage.getWorkflow(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Workflow not found" });
+      }
+
+      const active = req.params.action === "activate";
+      const conflicts = webhookRegistry.findConflicts(existing.id, { ...existing, active });
+      if (conflicts.length > 0) {
+        return res.status(409).json({ error: "Webhook path already in use", details: conflicts });
+      }
+
+      const workflow = await storage.updateWorkflow(existing.id, { active });
+      if (!workflow) {
+        return res.status(404).json({ error: "Workflow not found" });
+      }
+      syncTriggers(workflow);
+      res.json(workflow);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update workflow activation" });
+    }
+  });
+
+  // Get upcoming scheduled runs
+  app.get("/api/workflows/:id/schedules", async (req, res) => {
+    try {
+      const workflow = await storage.getWorkflow(req.params.id);
+      if (!workflow) {
+        return res.status(404).json({ error: "Workflow not found" });
+      }
+      res.json({ nextRuns: workflowScheduler.getNextRuns(workflow.id) });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch schedules" });
+    }
+  });
+
   // Execute workflow
   app.post("/api/workflows/:id/execute", async (req, res) => {
     try {
@@ -74,15 +307,66 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Workflow not found" });
       }
 
-      const execution = await storage.createExecution({
-        workflowId: workflow.id,
-        status: "running"
-      });
+      const options = executeWorkflowOptionsSchema.safeParse(req.body ?? {});
+      if (!options.success) {
+        return res.status(400).json({ error: "Invalid execution options", details: options.error });
+      }
+
+      const { partial } = options.data;
+      if (partial) {
+        if (!workflow.nodes.some(node => node.id === partial.nodeId)) {
+          return res.status(400).json({ error: "Node not found in workflow" });
+        }
+        const started = await startPartialExecution(storage, workflow, {
+          ...options.data,
+          partial,
+          triggerType: "manual"
+        });
+        return res.status(201).json(started.execution);
+      }
 
       // Start workflow execution in background
-      const engine = new WorkflowEngine(storage);
-      engine.executeWorkflow(workflow, execution.id).catch(console.error);
+      const { execution } = await startExecution(storage, workflow, {
+        ...options.data,
+        triggerType: "manual"
+      });
+
+      res.status(201).json(execution);
+    } catch (error) {
+      if (error instanceof PartialExecutionError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to start workflow execution" });
+    }
+  });
 
+  // Retry an execution from the node that failed, or re-run it from the start,
+  // with the same trigger input
+  app.post("/api/executions/:id/:action(retry|rerun)", async (req, res) => {
+    try {
+      const options = retryExecutionOptionsSchema.safeParse(req.body ?? {});
+      if (!options.success) {
+        return res.status(400).json({ error: "Invalid execution options", details: options.error });
+      }
+
+      const previous = await storage.getExecution(req.params.id);
+      if (!previous) {
+        return res.status(404).json({ error: "Execution not found" });
+      }
+      const resume = req.params.action === "retry";
+      if (previous.status === "running") {
+        return res.status(409).json({ error: "Execution is still running" });
+      }
+      if (resume && previous.status !== "failed" && previous.status !== "stopped") {
+        return res.status(409).json({ error: "Only failed or stopped executions can be retried" });
+      }
+
+      const workflow = await storage.getWorkflow(previous.workflowId);
+      if (!workflow) {
+        return res.status(404).json({ error: "Workflow not found" });
+      }
+
+      const { execution } = await retryExecution(storage, previous, workflow, { ...options.data, resume });
       res.status(201).json(execution);
     } catch (error) {
       res.status(500).json({ error: "Failed to start workflow execution" });
@@ -102,11 +386,92 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get executions for a workflow
+  // Get execution log lines after a sequence number
+  app.get("/api/executions/:id/logs", async (req, res) => {
+    try {
+      const after = req.query.after === undefined ? 0 : Number(req.query.after);
+      const limit = req.query.limit === undefined ? DEFAULT_LOG_PAGE_SIZE : Number(req.query.limit);
+      if (!Number.isInteger(after) || after < 0 || !Number.isInteger(limit) || limit < 1 || limit > MAX_LOG_PAGE_SIZE) {
+        return res.status(400).json({ error: "Invalid log pagination parameters" });
+      }
+
+      const execution = await storage.getExecution(req.params.id);
+      if (!execution) {
+        return res.status(404).json({ error: "Execution not found" });
+      }
+
+      // Fetch one extra line to learn whether another page follows
+      const logs = await storage.getExecutionLogs(req.params.id, after, limit + 1);
+      const page: ExecutionLogPage = {
+        logs: logs.slice(0, limit),
+        nextAfter: logs.length > 0 ? logs[Math.min(logs.length, limit) - 1].sequence : after,
+        hasMore: logs.length > limit
+      };
+      res.json(page);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch execution logs" });
+    }
+  });
+
+  // Get one node's input and output items from the workflow's latest run of it
+  app.get("/api/workflows/:id/nodes/:nodeId/data", async (req, res) => {
+    try {
+      const { nodeId } = req.params;
+      const latest = await storage.findLatestExecution(req.params.id, {
+        nodeStatuses: { nodeIds: [nodeId], statuses: ["success", "error"] }
+      });
+
+      if (!latest) {
+        return res.status(404).json({ error: "Node has no data from any execution" });
+      }
+      res.json(toNodeRunData(latest, nodeId));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch node data" });
+    }
+  });
+
+  // Get one node's input and output items from an execution
+  app.get("/api/executions/:id/nodes/:nodeId", async (req, res) => {
+    try {
+      const execution = await storage.getExecution(req.params.id);
+      if (!execution) {
+        return res.status(404).json({ error: "Execution not found" });
+      }
+
+      if (!execution.nodeStatuses?.[req.params.nodeId]) {
+        return res.status(404).json({ error: "Node did not run in this execution" });
+      }
+      res.json(toNodeRunData(execution, req.params.nodeId));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch node data" });
+    }
+  });
+
+  // List a workflow's executions, filtered, sorted and a page at a time
   app.get("/api/workflows/:id/executions", async (req, res) => {
     try {
-      const executions = await storage.getExecutionsByWorkflow(req.params.id);
-      res.json(executions);
+      const query = executionListQuerySchema.safeParse({
+        ...req.query,
+        status: parseList(req.query.status),
+        triggerType: parseList(req.query.triggerType),
+        error: req.query.error || undefined,
+        limit: req.query.limit === undefined ? undefined : Number(req.query.limit)
+      });
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid execution filters", details: query.error });
+      }
+
+      const workflow = await storage.getWorkflow(req.params.id);
+      if (!workflow) {
+        return res.status(404).json({ error: "Workflow not found" });
+      }
+      if (query.data.cursor) {
+        const cursor = await storage.getExecution(query.data.cursor);
+        if (cursor?.workflowId !== workflow.id) {
+          return res.status(400).json({ error: "Invalid cursor" });
+        }
+      }
+      res.json(await storage.listExecutions(workflow.id, query.data));
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch executions" });
     }
@@ -115,13 +480,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Stop execution
   app.post("/api/executions/:id/stop", async (req, res) => {
     try {
-      const execution = await storage.updateExecution(req.params.id, {
-        status: "stopped",
-        completedAt: new Date().toISOString()
-      });
-      if (!execution) {
+      const existing = await storage.getExecution(req.params.id);
+      if (!existing) {
         return res.status(404).json({ error: "Execution not found" });
       }
+
+      // Abort the run and wait for the engine to record where it stopped
+      const cancelled = await executionRegistry.cancel(req.params.id);
+      if (!cancelled) {
+        const current = await storage.getExecution(req.params.id);
+        if (!current) {
+          return res.status(404).json({ error: "Execution not found" });
+        }
+        if (current.status !== "running") {
+          return res.status(409).json({ error: "Execution is not running" });
+        }
+        // Not running in this process (e.g. lost on restart) or stuck in a
+        // node that ignores the signal; close it out like the engine would
+        const nodeStatuses = Object.fromEntries(
+          Object.entries(current.nodeStatuses ?? {}).map(([nodeId, status]) =>
+            [nodeId, status === "running" ? "idle" : status]
+          )
+        );
+        const completedAt = new Date().toISOString();
+        const stopped = await storage.updateExecution(req.params.id, {
+          status: "stopped",
+          completedAt,
+          currentNodeId: undefined,
+          currentNodeIds: [],
+          nodeStatuses
+        });
+        executionEvents.publish({
+          type: "execution-status",
+          executionId: req.params.id,
+          status: "stopped",
+          timestamp: completedAt,
+          completedAt,
+          execution: stopped
+        });
+      }
+
+      const execution = await storage.getExecution(req.params.id);
       res.json(execution);
     } catch (error) {
       res.status(500).json({ error: "Failed to stop execution" });
@@ -129,5 +528,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   const httpServer = createServer(app);
+  registerExecutionSocket(httpServer, storage);
   return httpServer;
 }
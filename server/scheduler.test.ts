@@ -0,0 +1,164 @@
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type ServerResponse } from "http";
+import { type AddressInfo } from "net";
+import { type InsertWorkflow, type WorkflowNode } from "@shared/schema";
+import { MemStorage } from "./storage";
+import { WorkflowScheduler } from "./scheduler";
+
+const NOW = Date.parse("2026-01-01T12:00:00.000Z");
+
+function scheduleNode(params: Record<string, any>): WorkflowNode {
+  return { id: "schedule", type: "ScheduleTriggerNode", position: { x: 0, y: 0 }, params };
+}
+
+function scheduledWorkflow(params: Record<string, any>, nodes: WorkflowNode[] = []): InsertWorkflow {
+  return {
+    name: "Scheduled",
+    active: true,
+    nodes: [scheduleNode(params), ...nodes],
+    connections: nodes.map(node => ({ id: `schedule-${node.id}`, from: "schedule", to: node.id }))
+  };
+}
+
+// Let pending promise callbacks and I/O run while setTimeout is mocked
+async function waitFor(condition: () => boolean | Promise<boolean>) {
+  for (let i = 0; i < 1000; i++) {
+    if (await condition()) return;
+    await new Promise(resolve => setImmediate(resolve));
+  }
+  throw new Error("Timed out waiting for condition");
+}
+
+describe("WorkflowScheduler", () => {
+  let storage: MemStorage;
+  let scheduler: WorkflowScheduler;
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ["setTimeout", "Date"], now: NOW });
+    storage = new MemStorage();
+    scheduler = new WorkflowScheduler(storage);
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    mock.timers.reset();
+  });
+
+  test("records runs missed since the last scheduled run when it starts", async () => {
+    const workflow = await storage.createWorkflow(scheduledWorkflow({ mode: "interval", intervalValue: 1, intervalUnit: "hours" }));
+    const last = await storage.createExecution({
+      workflowId: workflow.id,
+      status: "completed",
+      triggerType: "schedule",
+      triggerNodeId: "schedule"
+    });
+    await storage.updateExecution(last.id, { startedAt: "2026-01-01T07:00:00.000Z" });
+
+    await scheduler.start();
+
+    const missed = (await storage.getExecutionsByWorkflow(workflow.id)).filter(e => e.status === "missed");
+    assert.equal(missed.length, 1);
+    assert.equal(missed[0].triggerNodeId, "schedule");
+    assert.deepEqual(missed[0].logs.map(log => log.message), [
+      "Missed 5 scheduled run(s) between 2026-01-01T08:00:00.000Z and 2026-01-01T12:00:00.000Z while the server was not running"
+    ]);
+    assert.deepEqual(scheduler.getNextRuns(workflow.id), { schedule: "2026-01-01T13:00:00.000Z" });
+  });
+
+  test("records nothing for a schedule that has never run or is up to date", async () => {
+    const never = await storage.createWorkflow(scheduledWorkflow({ cronExpression: "@hourly" }));
+    const upToDate = await storage.createWorkflow(scheduledWorkflow({ cronExpression: "@hourly" }));
+    const last = await storage.createExecution({
+      workflowId: upToDate.id,
+      status: "completed",
+      triggerType: "schedule",
+      triggerNodeId: "schedule"
+    });
+    await storage.updateExecution(last.id, { startedAt: "2026-01-01T12:00:00.000Z" });
+
+    await scheduler.start();
+
+    assert.deepEqual(await storage.getExecutionsByWorkflow(never.id), []);
+    assert.equal((await storage.getExecutionsByWorkflow(upToDate.id)).length, 1);
+  });
+
+  test("arms cron schedules in their timezone and drops them when deactivated", async () => {
+    const workflow = await storage.createWorkflow(scheduledWorkflow({
+      cronExpression: "0 9 * * *",
+      timezone: "America/New_York"
+    }));
+
+    scheduler.schedule(workflow);
+    // 09:00 EST is 14:00 UTC
+    assert.deepEqual(scheduler.getNextRuns(workflow.id), { schedule: "2026-01-01T14:00:00.000Z" });
+
+    scheduler.schedule({ ...workflow, active: false });
+    assert.deepEqual(scheduler.getNextRuns(workflow.id), {});
+  });
+
+  describe("with a run still in progress", () => {
+    let held: ServerResponse[];
+    let closeServer: () => Promise<void>;
+    let url: string;
+
+    beforeEach(async () => {
+      // Requests hang until released, keeping the scheduled run going
+      held = [];
+      const server = createServer((req, res) => {
+        held.push(res);
+      });
+      await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+      closeServer = () => new Promise(resolve => server.close(() => resolve()));
+    });
+
+    afterEach(async () => {
+      // Let the runs finish while the clock is still mocked, so their timers
+      // are cleared from the mock they were set on
+      for (const res of held) res.end("{}");
+      await waitFor(async () => {
+        const workflows = await storage.getAllWorkflows();
+        const runs = await Promise.all(workflows.map(workflow => storage.getExecutionsByWorkflow(workflow.id)));
+        return runs.flat().every(run => run.status !== "running");
+      });
+      await closeServer();
+    });
+
+    async function fireTwice(preventOverlap: boolean) {
+      const fetch: WorkflowNode = { id: "fetch", type: "FetchApiNode", position: { x: 0, y: 0 }, params: { url } };
+      const workflow = await storage.createWorkflow(scheduledWorkflow(
+        // Shorter than the request timeout, which the mocked clock also drives
+        { mode: "interval", intervalValue: 10, intervalUnit: "seconds", preventOverlap },
+        [fetch]
+      ));
+      scheduler.schedule(workflow);
+
+      mock.timers.tick(10_000);
+      await waitFor(() => held.length === 1);
+      mock.timers.tick(10_000);
+      await waitFor(async () => (await storage.getExecutionsByWorkflow(workflow.id)).length === (preventOverlap ? 1 : 2));
+      // Give a second run the chance to reach the server
+      for (let i = 0; i < 20; i++) await new Promise(resolve => setImmediate(resolve));
+      return workflow;
+    }
+
+    test("skips a run while the previous one is in progress when preventing overlap", async () => {
+      const workflow = await fireTwice(true);
+
+      assert.equal(held.length, 1);
+      const runs = await storage.getExecutionsByWorkflow(workflow.id);
+      assert.equal(runs.length, 1);
+      assert.equal(runs[0].triggerType, "schedule");
+      assert.deepEqual(scheduler.getNextRuns(workflow.id), { schedule: "2026-01-01T12:00:30.000Z" });
+    });
+
+    test("starts overlapping runs otherwise", async () => {
+      const workflow = await fireTwice(false);
+
+      await waitFor(() => held.length === 2);
+      const runs = await storage.getExecutionsByWorkflow(workflow.id);
+      assert.deepEqual(runs.map(run => run.status), ["running", "running"]);
+    });
+  });
+});
@@ -0,0 +1,272 @@
+import { type Workflow, type WorkflowNode } from "@shared/schema";
+import { storage, type IStorage } from "./storage";
+import { startExecution } from "./executions";
+import { parseCron, getNextCronTime, type CronSchedule } from "./cron";
+import { log } from "./vite";
+
+type ScheduleConfig =
+  | { mode: "cron"; expression: string; schedule: CronSchedule; timezone: string; preventOverlap: boolean }
+  | { mode: "interval"; intervalMs: number; preventOverlap: boolean };
+
+interface ScheduledTrigger {
+  workflowId: string;
+  nodeId: string;
+  config: ScheduleConfig;
+  timer?: NodeJS.Timeout;
+  nextRunAt?: Date;
+  running: boolean;
+}
+
+const INTERVAL_UNITS: Record<string, number> = {
+  seconds: 1000,
+  minutes: 60 * 1000,
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000
+};
+
+// setTimeout overflows past ~24.8 days, so long waits are re-armed in steps
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+const MAX_MISSED_RUNS = 1000;
+
+/**
+ * Read a ScheduleTriggerNode's params, throwing when they are invalid
+ */
+export function getScheduleConfig(node: WorkflowNode): ScheduleConfig {
+  const params = node.params || {};
+  const preventOverlap = Boolean(params.preventOverlap);
+
+  if (params.mode === "interval") {
+    const unit = INTERVAL_UNITS[params.intervalUnit || "minutes"];
+    const intervalMs = Number(params.intervalValue) * unit;
+    if (!unit || !Number.isFinite(intervalMs) || intervalMs < 1000) {
+      throw new Error("Interval must be at least one second");
+    }
+    return { mode: "interval", intervalMs, preventOverlap };
+  }
+
+  const timezone = params.timezone || "UTC";
+  const expression = String(params.cronExpression || "");
+  const schedule = parseCron(expression);
+  // Fails fast on unknown timezones
+  getNextCronTime(schedule, new Date(), timezone);
+  return { mode: "cron", expression, schedule, timezone, preventOverlap };
+}
+
+// When two configs fire at the same times; preventOverlap doesn't change that
+function isSameTiming(a: ScheduleConfig, b: ScheduleConfig): boolean {
+  if (a.mode === "interval") {
+    return b.mode === "interval" && a.intervalMs === b.intervalMs;
+  }
+  return b.mode === "cron" && a.expression === b.expression && a.timezone === b.timezone;
+}
+
+function getNextRunTime(config: ScheduleConfig, after: Date): Date {
+  if (config.mode === "interval") {
+    return new Date(after.getTime() + config.intervalMs);
+  }
+  return getNextCronTime(config.schedule, after, config.timezone);
+}
+
+/**
+ * In-process scheduler firing ScheduleTriggerNodes of active workflows
+ */
+export class WorkflowScheduler {
+  private triggers: Map<string, ScheduledTrigger> = new Map();
+  private storage: IStorage;
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  /**
+   * Schedule every active workflow and record runs missed while the server was down
+   */
+  async start(): Promise<void> {
+    for (const workflow of await this.storage.getAllWorkflows()) {
+      await this.recordMissedRuns(workflow);
+      this.schedule(workflow);
+    }
+    log(`started with ${this.triggers.size} schedule(s)`, "scheduler");
+  }
+
+  stop(): void {
+    for (const trigger of Array.from(this.triggers.values())) {
+      clearTimeout(trigger.timer);
+    }
+    this.triggers.clear();
+  }
+
+  /**
+   * Bring a workflow's schedules in line with its current ScheduleTriggerNodes.
+   * Called on every save, so schedules whose timing is unchanged keep their
+   * next run, and a trigger whose run is in flight stays marked as running.
+   */
+  schedule(workflow: Workflow): void {
+    const configs = new Map<string, ScheduleConfig>();
+    if (workflow.active) {
+      for (const node of workflow.nodes.filter(n => n.type === "ScheduleTriggerNode")) {
+        try {
+          configs.set(node.id, getScheduleConfig(node));
+        } catch (error: any) {
+          log(`Invalid schedule for ${workflow.id}/${node.id}: ${error.message}`, "scheduler");
+        }
+      }
+    }
+
+    for (const [key, trigger] of Array.from(this.triggers.entries())) {
+      if (trigger.workflowId === workflow.id && !configs.has(trigger.nodeId)) {
+        clearTimeout(trigger.timer);
+        this.triggers.delete(key);
+      }
+    }
+
+    for (const [nodeId, config] of Array.from(configs.entries())) {
+      const key = `${workflow.id}:${nodeId}`;
+      const existing = this.triggers.get(key);
+      if (existing) {
+        const retime = !isSameTiming(existing.config, config);
+        existing.config = config;
+        if (retime) {
+          clearTimeout(existing.timer);
+          this.arm(existing, new Date());
+        }
+        continue;
+      }
+
+      const trigger: ScheduledTrigger = { workflowId: workflow.id, nodeId, config, running: false };
+      this.triggers.set(key, trigger);
+      this.arm(trigger, new Date());
+    }
+  }
+
+  unschedule(workflowId: string): void {
+    for (const [key, trigger] of Array.from(this.triggers.entries())) {
+      if (trigger.workflowId === workflowId) {
+        clearTimeout(trigger.timer);
+        this.triggers.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Next fire time per ScheduleTriggerNode of a workflow
+   */
+  getNextRuns(workflowId: string): Record<string, string | undefined> {
+    const nextRuns: Record<string, string | undefined> = {};
+    for (const trigger of Array.from(this.triggers.values())) {
+      if (trigger.workflowId === workflowId) {
+        nextRuns[trigger.nodeId] = trigger.nextRunAt?.toISOString();
+      }
+    }
+    return nextRuns;
+  }
+
+  private arm(trigger: ScheduledTrigger, after: Date) {
+    try {
+      trigger.nextRunAt = getNextRunTime(trigger.config, after);
+    } catch (error: any) {
+      log(`No upcoming run for ${trigger.workflowId}/${trigger.nodeId}: ${error.message}`, "scheduler");
+      return;
+    }
+    this.wait(trigger);
+  }
+
+  private wait(trigger: ScheduledTrigger) {
+    const scheduledAt = trigger.nextRunAt!;
+    const delay = Math.max(0, scheduledAt.getTime() - Date.now());
+
+    trigger.timer = setTimeout(() => {
+      if (delay > MAX_TIMER_DELAY) {
+        this.wait(trigger);
+        return;
+      }
+      this.fire(trigger, scheduledAt).catch(error =>
+        log(`Scheduled run of ${trigger.workflowId} failed to start: ${error.message}`, "scheduler")
+      );
+    }, Math.min(delay, MAX_TIMER_DELAY));
+  }
+
+  private async fire(trigger: ScheduledTrigger, scheduledAt: Date) {
+    this.arm(trigger, scheduledAt);
+
+    if (trigger.running && trigger.config.preventOverlap) {
+      log(`Skipping scheduled run of ${trigger.workflowId}: previous run still in progress`, "scheduler");
+      return;
+    }
+
+    // Always run the latest saved definition
+    const workflow = await this.storage.getWorkflow(trigger.workflowId);
+    if (!workflow?.active || !workflow.nodes.some(n => n.id === trigger.nodeId)) {
+      return;
+    }
+
+    trigger.running = true;
+    try {
+      const { finished } = await startExecution(this.storage, workflow, {
+        triggerType: "schedule",
+        triggerNodeId: trigger.nodeId,
+        triggerData: {
+          scheduledAt: scheduledAt.toISOString(),
+          firedAt: new Date().toISOString()
+        }
+      });
+      await finished;
+    } finally {
+      trigger.running = false;
+    }
+  }
+
+  /**
+   * Record one "missed" execution per schedule whose runs fell between its
+   * last recorded run and now
+   */
+  private async recordMissedRuns(workflow: Workflow) {
+    if (!workflow.active) return;
+
+    const now = new Date();
+
+    for (const node of workflow.nodes.filter(n => n.type === "ScheduleTriggerNode")) {
+      let config: ScheduleConfig;
+      try {
+        config = getScheduleConfig(node);
+      } catch {
+        continue;
+      }
+
+      const lastExecution = await this.storage.findLatestExecution(workflow.id, {
+        triggerType: "schedule",
+        triggerNodeId: node.id
+      });
+      if (!lastExecution) continue;
+      const lastRun = new Date(lastExecution.startedAt);
+
+      const missed: Date[] = [];
+      let next = getNextRunTime(config, lastRun);
+      while (next <= now && missed.length < MAX_MISSED_RUNS) {
+        missed.push(next);
+        next = getNextRunTime(config, next);
+      }
+      if (missed.length === 0) continue;
+
+      const count = missed.length >= MAX_MISSED_RUNS ? `${MAX_MISSED_RUNS}+` : String(missed.length);
+      const message = `Missed ${count} scheduled run(s) between ${missed[0].toISOString()} and ${missed[missed.length - 1].toISOString()} while the server was not running`;
+
+      const execution = await this.storage.createExecution({
+        workflowId: workflow.id,
+        status: "missed",
+        triggerType: "schedule",
+        triggerNodeId: node.id
+      });
+      await this.storage.updateExecution(execution.id, { completedAt: now.toISOString() });
+      await this.storage.appendExecutionLog(execution.id, {
+        timestamp: now.toISOString(),
+        level: "warn",
+        message,
+        nodeId: node.id
+      });
+      log(`${workflow.id}/${node.id}: ${message}`, "scheduler");
+    }
+  }
+}
+
+export const workflowScheduler = new WorkflowScheduler(storage);
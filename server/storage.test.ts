@@ -0,0 +1,330 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { createRequire } from "module";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import * as schema from "@shared/schema";
+import { type ExecutionListQuery, type InsertWorkflow } from "@shared/schema";
+import { DbStorage, MemStorage } from "./storage";
+
+// drizzle-kit's ESM build can't load its CommonJS dependencies
+const { generateDrizzleJson, generateMigration } =
+  createRequire(import.meta.url)("drizzle-kit/api") as typeof import("drizzle-kit/api");
+
+const sampleWorkflow: InsertWorkflow = {
+  name: "Storage test",
+  nodes: [
+    { id: "start", type: "StartNode", position: { x: 0, y: 0 }, params: {} },
+    { id: "log", type: "LogMessageNode", position: { x: 200, y: 0 }, params: { message: "hi" } }
+  ],
+  connections: [{ id: "c1", from: "start", to: "log" }]
+};
+
+describe("DbStorage", () => {
+  let client: PGlite;
+  let storage: DbStorage;
+
+  before(async () => {
+    // Embedded Postgres with the tables `npm run db:push` would create
+    client = new PGlite();
+    const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+    for (const statement of statements) {
+      await client.exec(statement);
+    }
+    storage = new DbStorage(drizzle({ client, schema }));
+  });
+
+  after(async () => {
+    await client.close();
+  });
+
+  test("creates, updates and deletes workflows, recording a version per design change", async () => {
+    const created = await storage.createWorkflow(sampleWorkflow);
+    assert.equal(created.version, 1);
+    assert.deepEqual(await storage.getWorkflow(created.id), created);
+
+    const renamed = await storage.updateWorkflow(created.id, { name: "Renamed" });
+    assert.equal(renamed?.name, "Renamed");
+    assert.equal(renamed?.version, 2);
+
+    // Activation is not part of the design
+    const activated = await storage.updateWorkflow(created.id, { active: true });
+    assert.equal(activated?.active, true);
+    assert.equal(activated?.version, 2);
+
+    const versions = await storage.getWorkflowVersions(created.id);
+    assert.deepEqual(versions.map(v => [v.version, v.name]), [[2, "Renamed"], [1, "Storage test"]]);
+
+    assert.equal(await storage.deleteWorkflow(created.id), true);
+    assert.equal(await storage.getWorkflow(created.id), undefined);
+    assert.equal(await storage.updateWorkflow(created.id, { name: "Gone" }), undefined);
+    assert.deepEqual(await storage.getWorkflowVersions(created.id), []);
+  });
+
+  test("reads IfNode connections saved without an output as its true branch", async () => {
+    const created = await storage.createWorkflow({
+      name: "Legacy if",
+      nodes: [
+        { id: "if", type: "IfNode", position: { x: 0, y: 0 }, params: { condition: "true" } },
+        { id: "log", type: "LogMessageNode", position: { x: 200, y: 0 }, params: {} }
+      ],
+      connections: [{ id: "c1", from: "if", to: "log" }]
+    });
+
+    assert.equal(created.connections[0].fromOutput, "true");
+    assert.equal((await storage.getWorkflowVersion(created.id, 1))?.connections[0].fromOutput, "true");
+  });
+
+  test("numbers log lines in order, even when appended concurrently", async () => {
+    const workflow = await storage.createWorkflow(sampleWorkflow);
+    const execution = await storage.createExecution({ workflowId: workflow.id, status: "running" });
+
+    await Promise.all(Array.from({ length: 10 }, (_, i) => storage.appendExecutionLog(execution.id, {
+      timestamp: new Date().toISOString(),
+      level: "info",
+      message: `line ${i}`
+    })));
+
+    const logs = await storage.getExecutionLogs(execution.id);
+    assert.deepEqual(logs.map(log => log.sequence), [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    assert.deepEqual((await storage.getExecutionLogs(execution.id, 7)).map(log => log.sequence), [8, 9, 10]);
+    assert.deepEqual((await storage.getExecutionLogs(execution.id, 2, 3)).map(log => log.sequence), [3, 4, 5]);
+    assert.deepEqual((await storage.getExecution(execution.id))?.logs, logs);
+
+    assert.equal(await storage.appendExecutionLog("missing", {
+      timestamp: new Date().toISOString(),
+      level: "info",
+      message: "lost"
+    }), undefined);
+  });
+
+  test("updateExecution writes only the given fields and leaves the log out", async () => {
+    const workflow = await storage.createWorkflow(sampleWorkflow);
+    const execution = await storage.createExecution({
+      workflowId: workflow.id,
+      status: "running",
+      triggerType: "manual",
+      currentNodeId: "start"
+    });
+    await storage.appendExecutionLog(execution.id, { timestamp: new Date().toISOString(), level: "info", message: "started" });
+
+    const updated = await storage.updateExecution(execution.id, {
+      nodeStatuses: { start: "success" },
+      results: { start: [{ ok: true }] }
+    });
+    assert.equal(updated?.status, "running");
+    assert.equal(updated?.triggerType, "manual");
+    assert.deepEqual(updated?.results, { start: [{ ok: true }] });
+    assert.equal("logs" in (updated ?? {}), false);
+
+    // Fields passed as undefined are cleared; the rest keep their values
+    const completedAt = new Date().toISOString();
+    await storage.updateExecution(execution.id, { status: "completed", completedAt, currentNodeId: undefined });
+    const stored = await storage.getExecution(execution.id);
+    assert.equal(stored?.status, "completed");
+    assert.equal(stored?.completedAt, completedAt);
+    assert.equal(stored?.currentNodeId, undefined);
+    assert.deepEqual(stored?.nodeStatuses, { start: "success" });
+    assert.deepEqual(stored?.logs.map(log => log.message), ["started"]);
+
+    assert.equal(await storage.updateExecution("missing", { status: "failed" }), undefined);
+  });
+
+  test("findLatestExecution returns the most recent matching run", async () => {
+    const workflow = await storage.createWorkflow(sampleWorkflow);
+    const runs = [
+      { triggerType: "schedule" as const, triggerNodeId: "cron", startedAt: "2026-01-01T00:00:00.000Z" },
+      { triggerType: "schedule" as const, triggerNodeId: "cron", startedAt: "2026-01-03T00:00:00.000Z" },
+      { triggerType: "schedule" as const, triggerNodeId: "other", startedAt: "2026-01-04T00:00:00.000Z" },
+      { triggerType: "manual" as const, triggerNodeId: "cron", startedAt: "2026-01-05T00:00:00.000Z" }
+    ];
+    const ids: string[] = [];
+    for (const { startedAt, ...run } of runs) {
+      const execution = await storage.createExecution({ workflowId: workflow.id, status: "completed", ...run });
+      await storage.updateExecution(execution.id, { startedAt });
+      ids.push(execution.id);
+    }
+
+    const latest = await storage.findLatestExecution(workflow.id, { triggerType: "schedule", triggerNodeId: "cron" });
+    assert.equal(latest?.id, ids[1]);
+    assert.equal((await storage.findLatestExecution(workflow.id, {}))?.id, ids[3]);
+    assert.equal(await storage.findLatestExecution(workflow.id, { triggerNodeId: "missing" }), undefined);
+  });
+
+  test("findLatestExecution can require nodes to have ended with given statuses", async () => {
+    const workflow = await storage.createWorkflow(sampleWorkflow);
+    const runs = [
+      { nodeStatuses: { start: "success" as const, log: "success" as const }, startedAt: "2026-01-01T00:00:00.000Z" },
+      { nodeStatuses: { start: "success" as const, log: "error" as const }, startedAt: "2026-01-02T00:00:00.000Z" },
+      { nodeStatuses: { start: "success" as const, log: "skipped" as const }, startedAt: "2026-01-03T00:00:00.000Z" }
+    ];
+    const ids: string[] = [];
+    for (const { startedAt, nodeStatuses } of runs) {
+      const execution = await storage.createExecution({ workflowId: workflow.id, status: "completed" });
+      await storage.updateExecution(execution.id, { startedAt, nodeStatuses });
+      ids.push(execution.id);
+    }
+
+    const withData = await storage.findLatestExecution(workflow.id, {
+      nodeStatuses: { nodeIds: ["log"], statuses: ["success", "error"] }
+    });
+    assert.equal(withData?.id, ids[1]);
+    const succeeded = await storage.findLatestExecution(workflow.id, {
+      nodeStatuses: { nodeIds: ["start", "log"], statuses: ["success"] }
+    });
+    assert.equal(succeeded?.id, ids[0]);
+    assert.equal(await storage.findLatestExecution(workflow.id, {
+      nodeStatuses: { nodeIds: ["missing"], statuses: ["success"] }
+    }), undefined);
+  });
+
+  test("deleting a workflow removes its executions and their logs", async () => {
+    const workflow = await storage.createWorkflow(sampleWorkflow);
+    const execution = await storage.createExecution({ workflowId: workflow.id, status: "running" });
+    await storage.appendExecutionLog(execution.id, { timestamp: new Date().toISOString(), level: "info", message: "hi" });
+    assert.equal((await storage.getExecutionsByWorkflow(workflow.id)).length, 1);
+
+    await storage.deleteWorkflow(workflow.id);
+    assert.equal(await storage.getExecution(execution.id), undefined);
+    assert.deepEqual(await storage.getExecutionLogs(execution.id), []);
+  });
+
+  describe("listExecutions", () => {
+    // Follow nextCursor to the end, returning the ids in the order listed
+    async function listAll(workflowId: string, query: Omit<ExecutionListQuery, "cursor">): Promise<string[]> {
+      const ids: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await storage.listExecutions(workflowId, { ...query, cursor });
+        assert.ok(page.executions.length <= query.limit);
+        ids.push(...page.executions.map(e => e.id));
+        cursor = page.nextCursor;
+      } while (cursor);
+      return ids;
+    }
+
+    async function createRun(workflowId: string, startedAt: string, durationMs?: number) {
+      const execution = await storage.createExecution({ workflowId, status: durationMs === undefined ? "running" : "completed" });
+      await storage.updateExecution(execution.id, {
+        startedAt,
+        completedAt: durationMs === undefined ? undefined : new Date(Date.parse(startedAt) + durationMs).toISOString()
+      });
+      return execution.id;
+    }
+
+    test("pages by duration with ties broken by id and running runs last in both orders", async () => {
+      const workflow = await storage.createWorkflow(sampleWorkflow);
+      const durations = [30_000, 10_000, 20_000, 10_000, undefined, undefined];
+      const runs: { id: string; durationMs?: number }[] = [];
+      for (let index = 0; index < durations.length; index++) {
+        const durationMs = durations[index];
+        runs.push({ id: await createRun(workflow.id, `2026-01-0${index + 1}T00:00:00.000Z`, durationMs), durationMs });
+      }
+
+      const byId = (a: { id: string }, b: { id: string }) => (a.id < b.id ? -1 : 1);
+      const finished = runs.filter(run => run.durationMs !== undefined);
+      const running = runs.filter(run => run.durationMs === undefined).sort(byId);
+      const ascending = [...finished].sort((a, b) => a.durationMs! - b.durationMs! || byId(a, b));
+      const expected = {
+        asc: [...ascending, ...running].map(run => run.id),
+        desc: [...ascending.reverse(), ...running.reverse()].map(run => run.id)
+      };
+
+      for (const order of ["asc", "desc"] as const) {
+        for (const limit of [1, 2, 4]) {
+          assert.deepEqual(await listAll(workflow.id, { sort: "duration", order, limit }), expected[order], `${order}, limit ${limit}`);
+        }
+      }
+
+      const [first] = (await storage.listExecutions(workflow.id, { sort: "duration", order: "desc", limit: 1 })).executions;
+      assert.equal(first.durationMs, 30_000);
+    });
+
+    test("pages by start time and resumes after a cursor that has left the filtered set", async () => {
+      const workflow = await storage.createWorkflow(sampleWorkflow);
+      const ids: string[] = [];
+      for (let day = 1; day <= 4; day++) {
+        ids.push(await createRun(workflow.id, `2026-01-0${day}T00:00:00.000Z`, 1000));
+      }
+      assert.deepEqual(await listAll(workflow.id, { sort: "startedAt", order: "asc", limit: 3 }), ids);
+
+      const query = { status: ["completed" as const], sort: "startedAt" as const, order: "desc" as const, limit: 2 };
+      const first = await storage.listExecutions(workflow.id, query);
+      assert.deepEqual(first.executions.map(e => e.id), [ids[3], ids[2]]);
+      assert.equal(first.nextCursor, ids[2]);
+
+      await storage.updateExecution(ids[2], { status: "failed" });
+      const second = await storage.listExecutions(workflow.id, { ...query, cursor: first.nextCursor });
+      assert.deepEqual(second.executions.map(e => e.id), [ids[1], ids[0]]);
+      assert.equal(second.nextCursor, undefined);
+    });
+
+    test("finds runs by error text, ignoring case and treating wildcards literally", async () => {
+      const workflow = await storage.createWorkflow(sampleWorkflow);
+      const log = (level: "info" | "error", message: string) => ({ timestamp: new Date().toISOString(), level, message });
+      const http = await createRun(workflow.id, "2026-01-01T00:00:00.000Z", 1000);
+      await storage.appendExecutionLog(http, log("error", "ERROR: HTTP 500: Internal Server Error"));
+      await storage.appendExecutionLog(http, log("error", "Workflow execution failed: HTTP 500"));
+      const quota = await createRun(workflow.id, "2026-01-02T00:00:00.000Z", 1000);
+      await storage.appendExecutionLog(quota, log("error", "ERROR: quota at 100%"));
+      const info = await createRun(workflow.id, "2026-01-03T00:00:00.000Z", 1000);
+      await storage.appendExecutionLog(info, log("info", "Output: HTTP 500 expected"));
+
+      const find = async (error: string) =>
+        (await storage.listExecutions(workflow.id, { error, sort: "startedAt", order: "asc", limit: 10 })).executions;
+
+      const matches = await find("http 500");
+      assert.deepEqual(matches.map(e => e.id), [http]);
+      // The run's last error line is listed
+      assert.equal(matches[0].error, "Workflow execution failed: HTTP 500");
+      assert.deepEqual((await find("100%")).map(e => e.id), [quota]);
+      assert.deepEqual((await find("%")).map(e => e.id), [quota]);
+      assert.deepEqual(await find("_"), []);
+      assert.deepEqual(await find("timeout"), []);
+    });
+  });
+});
+
+describe("MemStorage", () => {
+  test("deleting a workflow removes its executions and their logs", async () => {
+    const storage = new MemStorage();
+    const workflow = await storage.createWorkflow(sampleWorkflow);
+    const other = await storage.createWorkflow(sampleWorkflow);
+    const execution = await storage.createExecution({ workflowId: workflow.id, status: "running" });
+    const kept = await storage.createExecution({ workflowId: other.id, status: "running" });
+    await storage.appendExecutionLog(execution.id, { timestamp: new Date().toISOString(), level: "info", message: "hi" });
+
+    await storage.deleteWorkflow(workflow.id);
+    assert.equal(await storage.getExecution(execution.id), undefined);
+    assert.deepEqual(await storage.getExecutionsByWorkflow(workflow.id), []);
+    assert.deepEqual(await storage.getExecutionLogs(execution.id), []);
+    assert.equal(await storage.appendExecutionLog(execution.id, {
+      timestamp: new Date().toISOString(),
+      level: "info",
+      message: "lost"
+    }), undefined);
+    assert.equal((await storage.getExecution(kept.id))?.id, kept.id);
+  });
+
+  test("listExecutions resumes after the cursor once it has left the filtered set", async () => {
+    const storage = new MemStorage();
+    const workflow = await storage.createWorkflow(sampleWorkflow);
+    const ids: string[] = [];
+    for (let day = 1; day <= 4; day++) {
+      const execution = await storage.createExecution({ workflowId: workflow.id, status: "completed" });
+      await storage.updateExecution(execution.id, { startedAt: `2026-01-0${day}T00:00:00.000Z` });
+      ids.push(execution.id);
+    }
+
+    const query = { status: ["completed" as const], sort: "startedAt" as const, order: "desc" as const, limit: 2 };
+    const first = await storage.listExecutions(workflow.id, query);
+    assert.deepEqual(first.executions.map(e => e.id), [ids[3], ids[2]]);
+    assert.equal(first.nextCursor, ids[2]);
+
+    // The cursor run no longer matches the status filter
+    await storage.updateExecution(ids[2], { status: "failed" });
+    const second = await storage.listExecutions(workflow.id, { ...query, cursor: first.nextCursor });
+    assert.deepEqual(second.executions.map(e => e.id), [ids[1], ids[0]]);
+    assert.equal(second.nextCursor, undefined);
+  });
+});
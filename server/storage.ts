@@ -1,5 +1,28 @@
-import { type User, type InsertUser, type Workflow, type InsertWorkflow, type Execution, type InsertExecution } from "@shared/schema";
+import {
+  users, workflows, workflowVersions, executions, executionLogs,
+  type User, type InsertUser, type Workflow, type InsertWorkflow, type WorkflowVersion, type Execution, type InsertExecution,
+  type ExecutionLog, type InsertExecutionLog, type ExecutionSummary, type ExecutionListQuery, type ExecutionListItem,
+  type ExecutionListPage, type ExecutionTriggerType, type NodeStatus, migrateIfNodeConnections
+} from "@shared/schema";
 import { randomUUID } from "crypto";
+import { and, asc, desc, eq, exists, gt, gte, ilike, inArray, lt, sql } from "drizzle-orm";
+import { createDatabase, type Database } from "./db";
+
+export interface WorkflowSaveOptions {
+  // Older version whose design is being saved again
+  restoredFrom?: number;
+}
+
+// An execution without its log, which is stored and read separately
+type ExecutionRecord = Omit<Execution, "logs">;
+
+// What the execution found by findLatestExecution must match
+export interface LatestExecutionFilter {
+  triggerType?: ExecutionTriggerType;
+  triggerNodeId?: string;
+  // Every one of these nodes ended with one of the statuses
+  nodeStatuses?: { nodeIds: string[]; statuses: NodeStatus[] };
+}
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
@@ -10,25 +33,71 @@ export interface IStorage {
   getWorkflow(id: string): Promise<Workflow | undefined>;
   getAllWorkflows(): Promise<Workflow[]>;
   createWorkflow(workflow: InsertWorkflow): Promise<Workflow>;
-  updateWorkflow(id: string, workflow: Partial<InsertWorkflow>): Promise<Workflow | undefined>;
+  updateWorkflow(id: string, workflow: Partial<InsertWorkflow>, options?: WorkflowSaveOptions): Promise<Workflow | undefined>;
   deleteWorkflow(id: string): Promise<boolean>;
+
+  // Workflow version methods. Creating a workflow or saving its design adds a version.
+  getWorkflowVersions(workflowId: string, before?: number, limit?: number): Promise<WorkflowVersion[]>;
+  getWorkflowVersion(workflowId: string, version: number): Promise<WorkflowVersion | undefined>;
   
   // Execution methods
   getExecution(id: string): Promise<Execution | undefined>;
   getExecutionsByWorkflow(workflowId: string): Promise<Execution[]>;
+  // One page of a workflow's executions, filtered and sorted. The cursor must
+  // be an execution of the same workflow.
+  listExecutions(workflowId: string, query: ExecutionListQuery): Promise<ExecutionListPage>;
+  // Most recent execution of every workflow that has run, keyed by workflow id
+  getLatestExecutions(): Promise<Map<string, ExecutionSummary>>;
+  // Most recent execution of a workflow matching the filter, without its log
+  findLatestExecution(workflowId: string, filter: LatestExecutionFilter): Promise<ExecutionRecord | undefined>;
   createExecution(execution: InsertExecution): Promise<Execution>;
-  updateExecution(id: string, execution: Partial<Execution>): Promise<Execution | undefined>;
+  // Writes only the given fields and returns the execution without its log
+  updateExecution(id: string, execution: Partial<ExecutionRecord>): Promise<ExecutionRecord | undefined>;
+
+  // Execution log methods. Logs are append-only and numbered per execution.
+  appendExecutionLog(executionId: string, log: InsertExecutionLog): Promise<ExecutionLog | undefined>;
+  getExecutionLogs(executionId: string, after?: number, limit?: number): Promise<ExecutionLog[]>;
+}
+
+// Fields that make up a workflow's design; saving any of them adds a version
+const DESIGN_FIELDS = ["name", "description", "nodes", "connections"] as const;
+
+function changesDesign(update: Partial<InsertWorkflow>): boolean {
+  return DESIGN_FIELDS.some(field => field in update);
+}
+
+function getDurationMs(startedAt: string, completedAt?: string): number | undefined {
+  return completedAt ? Date.parse(completedAt) - Date.parse(startedAt) : undefined;
+}
+
+// Escape LIKE wildcards so error searches match text literally
+function escapeLike(text: string): string {
+  return text.replace(/[\\%_]/g, char => `\\${char}`);
+}
+
+function toExecutionSummary(execution: ExecutionRecord): ExecutionSummary {
+  return {
+    id: execution.id,
+    status: execution.status,
+    triggerType: execution.triggerType,
+    startedAt: execution.startedAt,
+    completedAt: execution.completedAt
+  };
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
   private workflows: Map<string, Workflow>;
-  private executions: Map<string, Execution>;
+  private workflowVersions: Map<string, WorkflowVersion[]>;
+  private executions: Map<string, ExecutionRecord>;
+  private executionLogs: Map<string, ExecutionLog[]>;
 
   constructor() {
     this.users = new Map();
     this.workflows = new Map();
+    this.workflowVersions = new Map();
     this.executions = new Map();
+    this.executionLogs = new Map();
     
     // Initialize with sample workflow
     this.initializeSampleWorkflow();
@@ -69,11 +138,28 @@ export class MemStorage implements IStorage {
         { id: "conn-1", from: "start-node", to: "fetch-node" },
         { id: "conn-2", from: "fetch-node", to: "log-node" }
       ],
+      version: 1,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString()
     };
     
     this.workflows.set(sampleWorkflow.id, sampleWorkflow);
+    this.recordVersion(sampleWorkflow);
+  }
+
+  private recordVersion(workflow: Workflow, restoredFrom?: number) {
+    const versions = this.workflowVersions.get(workflow.id) ?? [];
+    versions.push({
+      workflowId: workflow.id,
+      version: workflow.version!,
+      name: workflow.name,
+      description: workflow.description,
+      nodes: workflow.nodes,
+      connections: workflow.connections,
+      restoredFrom,
+      createdAt: workflow.updatedAt
+    });
+    this.workflowVersions.set(workflow.id, versions);
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -107,64 +193,583 @@ export class MemStorage implements IStorage {
     const workflow: Workflow = {
       ...insertWorkflow,
       id,
+      version: 1,
       createdAt: now,
       updatedAt: now
     };
     this.workflows.set(id, workflow);
+    this.recordVersion(workflow);
     return workflow;
   }
 
-  async updateWorkflow(id: string, updateData: Partial<InsertWorkflow>): Promise<Workflow | undefined> {
+  async updateWorkflow(id: string, updateData: Partial<InsertWorkflow>, options: WorkflowSaveOptions = {}): Promise<Workflow | undefined> {
     const existing = this.workflows.get(id);
     if (!existing) return undefined;
 
+    const design = changesDesign(updateData);
     const updated: Workflow = {
       ...existing,
       ...updateData,
+      version: design ? (existing.version ?? 0) + 1 : existing.version,
       updatedAt: new Date().toISOString()
     };
     this.workflows.set(id, updated);
+    if (design) {
+      this.recordVersion(updated, options.restoredFrom);
+    }
     return updated;
   }
 
   async deleteWorkflow(id: string): Promise<boolean> {
+    this.workflowVersions.delete(id);
+    // Cascade to the executions and their logs, like the foreign keys DbStorage uses
+    for (const execution of Array.from(this.executions.values())) {
+      if (execution.workflowId === id) {
+        this.executions.delete(execution.id);
+        this.executionLogs.delete(execution.id);
+      }
+    }
     return this.workflows.delete(id);
   }
 
+  async getWorkflowVersions(workflowId: string, before?: number, limit?: number): Promise<WorkflowVersion[]> {
+    const versions = (this.workflowVersions.get(workflowId) ?? [])
+      .filter(version => before === undefined || version.version < before)
+      .reverse();
+    return limit === undefined ? versions : versions.slice(0, limit);
+  }
+
+  async getWorkflowVersion(workflowId: string, version: number): Promise<WorkflowVersion | undefined> {
+    return this.workflowVersions.get(workflowId)?.find(v => v.version === version);
+  }
+
+  private withLogs(execution: ExecutionRecord): Execution {
+    return { ...execution, logs: [...(this.executionLogs.get(execution.id) ?? [])] };
+  }
+
   async getExecution(id: string): Promise<Execution | undefined> {
-    return this.executions.get(id);
+    const execution = this.executions.get(id);
+    return execution && this.withLogs(execution);
   }
 
   async getExecutionsByWorkflow(workflowId: string): Promise<Execution[]> {
-    return Array.from(this.executions.values()).filter(
-      (execution) => execution.workflowId === workflowId
-    );
+    return Array.from(this.executions.values())
+      .filter((execution) => execution.workflowId === workflowId)
+      .map((execution) => this.withLogs(execution));
+  }
+
+  async listExecutions(workflowId: string, query: ExecutionListQuery): Promise<ExecutionListPage> {
+    const startedAfter = query.startedAfter ? Date.parse(query.startedAfter) : -Infinity;
+    const startedBefore = query.startedBefore ? Date.parse(query.startedBefore) : Infinity;
+    const errorText = query.error?.toLowerCase();
+    const getErrors = (id: string) => (this.executionLogs.get(id) ?? []).filter(log => log.level === "error");
+
+    const matches = Array.from(this.executions.values()).filter(execution => {
+      const startedAt = Date.parse(execution.startedAt);
+      return execution.workflowId === workflowId &&
+        (!query.status || query.status.includes(execution.status)) &&
+        (!query.triggerType || (!!execution.triggerType && query.triggerType.includes(execution.triggerType))) &&
+        startedAt >= startedAfter && startedAt < startedBefore &&
+        (!errorText || getErrors(execution.id).some(log => log.message.toLowerCase().includes(errorText)));
+    });
+
+    const direction = query.order === "asc" ? 1 : -1;
+    const getSortKey = (execution: ExecutionRecord) => query.sort === "duration"
+      ? getDurationMs(execution.startedAt, execution.completedAt)
+      : Date.parse(execution.startedAt);
+    // Same order as DbStorage: missing keys last, then by id
+    const compare = (keyA: number | undefined, idA: string, keyB: number | undefined, idB: string) => {
+      if (keyA !== keyB) {
+        if (keyA === undefined) return 1;
+        if (keyB === undefined) return -1;
+        return (keyA - keyB) * direction;
+      }
+      return (idA < idB ? -1 : idA > idB ? 1 : 0) * direction;
+    };
+    matches.sort((a, b) => compare(getSortKey(a), a.id, getSortKey(b), b.id));
+
+    // Resume after the cursor's sort key and id, which still works once the
+    // cursor has left the filtered set
+    const cursor = query.cursor ? this.executions.get(query.cursor) : undefined;
+    const cursorKey = cursor && getSortKey(cursor);
+    const remaining = query.cursor
+      ? matches.filter(execution => compare(getSortKey(execution), execution.id, cursorKey, query.cursor!) > 0)
+      : matches;
+    const page = remaining.slice(0, query.limit);
+    return {
+      executions: page.map(execution => ({
+        ...toExecutionSummary(execution),
+        workflowVersion: execution.workflowVersion,
+        triggerNodeId: execution.triggerNodeId,
+        durationMs: getDurationMs(execution.startedAt, execution.completedAt),
+        error: getErrors(execution.id).pop()?.message
+      })),
+      nextCursor: remaining.length > query.limit ? page[page.length - 1].id : undefined
+    };
+  }
+
+  async getLatestExecutions(): Promise<Map<string, ExecutionSummary>> {
+    const latest = new Map<string, ExecutionSummary>();
+    for (const execution of Array.from(this.executions.values())) {
+      const current = latest.get(execution.workflowId);
+      if (!current || execution.startedAt >= current.startedAt) {
+        latest.set(execution.workflowId, toExecutionSummary(execution));
+      }
+    }
+    return latest;
+  }
+
+  async findLatestExecution(workflowId: string, filter: LatestExecutionFilter): Promise<ExecutionRecord | undefined> {
+    const latest = Array.from(this.executions.values())
+      .filter(execution =>
+        execution.workflowId === workflowId &&
+        (filter.triggerType === undefined || execution.triggerType === filter.triggerType) &&
+        (filter.triggerNodeId === undefined || execution.triggerNodeId === filter.triggerNodeId) &&
+        (!filter.nodeStatuses || filter.nodeStatuses.nodeIds.every(nodeId => {
+          const status = execution.nodeStatuses?.[nodeId];
+          return !!status && filter.nodeStatuses!.statuses.includes(status);
+        })))
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt))[0];
+    return latest && { ...latest };
   }
 
   async createExecution(insertExecution: InsertExecution): Promise<Execution> {
     const id = randomUUID();
     const now = new Date().toISOString();
-    const execution: Execution = {
+    const execution: ExecutionRecord = {
       ...insertExecution,
       id,
-      startedAt: now,
-      logs: []
+      startedAt: now
     };
     this.executions.set(id, execution);
-    return execution;
+    this.executionLogs.set(id, []);
+    return this.withLogs(execution);
   }
 
-  async updateExecution(id: string, updateData: Partial<Execution>): Promise<Execution | undefined> {
+  async updateExecution(id: string, updateData: Partial<ExecutionRecord>): Promise<ExecutionRecord | undefined> {
     const existing = this.executions.get(id);
     if (!existing) return undefined;
 
-    const updated: Execution = {
+    const updated: ExecutionRecord = {
       ...existing,
       ...updateData
     };
     this.executions.set(id, updated);
-    return updated;
+    return { ...updated };
+  }
+
+  async appendExecutionLog(executionId: string, insertLog: InsertExecutionLog): Promise<ExecutionLog | undefined> {
+    const logs = this.executionLogs.get(executionId);
+    if (!logs) return undefined;
+
+    const log: ExecutionLog = { ...insertLog, sequence: logs.length + 1 };
+    logs.push(log);
+    return log;
+  }
+
+  async getExecutionLogs(executionId: string, after = 0, limit?: number): Promise<ExecutionLog[]> {
+    const logs = this.executionLogs.get(executionId) ?? [];
+    // Sequence numbers are 1-based array positions
+    return logs.slice(after, limit === undefined ? undefined : after + limit);
+  }
+}
+
+type WorkflowRow = typeof workflows.$inferSelect;
+type WorkflowVersionRow = typeof workflowVersions.$inferSelect;
+type ExecutionRow = typeof executions.$inferSelect;
+type ExecutionLogRow = typeof executionLogs.$inferSelect;
+
+function toWorkflow(row: WorkflowRow): Workflow {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description ?? undefined,
+    active: row.active,
+    nodes: row.nodes,
+    connections: migrateIfNodeConnections(row.nodes, row.connections),
+    version: row.version,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString()
+  };
+}
+
+function toWorkflowVersion(row: WorkflowVersionRow): WorkflowVersion {
+  return {
+    workflowId: row.workflowId,
+    version: row.version,
+    name: row.name,
+    description: row.description ?? undefined,
+    nodes: row.nodes,
+    connections: migrateIfNodeConnections(row.nodes, row.connections),
+    restoredFrom: row.restoredFrom ?? undefined,
+    createdAt: row.createdAt.toISOString()
+  };
+}
+
+// Version row holding the design a workflow row was just saved with
+function toVersionColumns(row: WorkflowRow, restoredFrom?: number): typeof workflowVersions.$inferInsert {
+  return {
+    workflowId: row.id,
+    version: row.version,
+    name: row.name,
+    description: row.description,
+    nodes: row.nodes,
+    connections: row.connections,
+    restoredFrom,
+    createdAt: row.updatedAt
+  };
+}
+
+function toExecutionLog(row: ExecutionLogRow): ExecutionLog {
+  return {
+    sequence: row.sequence,
+    timestamp: row.timestamp.toISOString(),
+    level: row.level,
+    message: row.message,
+    nodeId: row.nodeId ?? undefined
+  };
+}
+
+function toExecutionRecord(row: ExecutionRow): ExecutionRecord {
+  return {
+    id: row.id,
+    workflowId: row.workflowId,
+    workflowVersion: row.workflowVersion ?? undefined,
+    retryOf: row.retryOf ?? undefined,
+    status: row.status,
+    triggerType: row.triggerType ?? undefined,
+    triggerNodeId: row.triggerNodeId ?? undefined,
+    startedAt: row.startedAt.toISOString(),
+    completedAt: row.completedAt?.toISOString(),
+    currentNodeId: row.currentNodeId ?? undefined,
+    currentNodeIds: row.currentNodeIds ?? undefined,
+    concurrency: row.concurrency ?? undefined,
+    partial: row.partial ?? undefined,
+    results: row.results ?? undefined,
+    nodeStatuses: row.nodeStatuses ?? undefined,
+    itemLineage: row.itemLineage ?? undefined,
+    nodeInputs: row.nodeInputs ?? undefined,
+    nodeRuns: row.nodeRuns ?? undefined
+  };
+}
+
+function toExecution(row: ExecutionRow, logs: ExecutionLog[]): Execution {
+  return { ...toExecutionRecord(row), logs };
+}
+
+/**
+ * Column values for a partial update. Keys passed as undefined clear the
+ * column, matching how MemStorage spreads updates.
+ */
+function toColumns(data: Record<string, unknown>): Record<string, unknown> {
+  const columns: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    columns[key] = value ?? null;
+  }
+  return columns;
+}
+
+/**
+ * Postgres-backed storage. Create the tables with `npm run db:push`.
+ */
+export class DbStorage implements IStorage {
+  private db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async getWorkflow(id: string): Promise<Workflow | undefined> {
+    const [row] = await this.db.select().from(workflows).where(eq(workflows.id, id));
+    return row && toWorkflow(row);
+  }
+
+  async getAllWorkflows(): Promise<Workflow[]> {
+    const rows = await this.db.select().from(workflows).orderBy(asc(workflows.createdAt));
+    return rows.map(toWorkflow);
+  }
+
+  async createWorkflow(insertWorkflow: InsertWorkflow): Promise<Workflow> {
+    return this.db.transaction(async (tx) => {
+      const [row] = await tx.insert(workflows).values({
+        ...insertWorkflow,
+        active: insertWorkflow.active ?? false,
+        version: 1
+      }).returning();
+      await tx.insert(workflowVersions).values(toVersionColumns(row));
+      return toWorkflow(row);
+    });
+  }
+
+  async updateWorkflow(id: string, updateData: Partial<InsertWorkflow>, options: WorkflowSaveOptions = {}): Promise<Workflow | undefined> {
+    const design = changesDesign(updateData);
+    return this.db.transaction(async (tx) => {
+      // Row lock on the workflow hands out version numbers one at a time
+      const [row] = await tx.update(workflows)
+        .set({
+          ...toColumns(updateData),
+          active: updateData.active ?? undefined,
+          ...(design ? { version: sql`${workflows.version} + 1` } : {}),
+          updatedAt: new Date()
+        })
+        .where(eq(workflows.id, id))
+        .returning();
+      if (!row) return undefined;
+
+      if (design) {
+        await tx.insert(workflowVersions).values(toVersionColumns(row, options.restoredFrom));
+      }
+      return toWorkflow(row);
+    });
+  }
+
+  async deleteWorkflow(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(workflows).where(eq(workflows.id, id)).returning({ id: workflows.id });
+    return deleted.length > 0;
+  }
+
+  async getWorkflowVersions(workflowId: string, before?: number, limit?: number): Promise<WorkflowVersion[]> {
+    const query = this.db.select().from(workflowVersions)
+      .where(and(
+        eq(workflowVersions.workflowId, workflowId),
+        before === undefined ? undefined : lt(workflowVersions.version, before)
+      ))
+      .orderBy(desc(workflowVersions.version));
+    const rows = limit === undefined ? await query : await query.limit(limit);
+    return rows.map(toWorkflowVersion);
+  }
+
+  async getWorkflowVersion(workflowId: string, version: number): Promise<WorkflowVersion | undefined> {
+    const [row] = await this.db.select().from(workflowVersions)
+      .where(and(eq(workflowVersions.workflowId, workflowId), eq(workflowVersions.version, version)));
+    return row && toWorkflowVersion(row);
+  }
+
+  async getExecution(id: string): Promise<Execution | undefined> {
+    const [row] = await this.db.select().from(executions).where(eq(executions.id, id));
+    if (!row) return undefined;
+    return toExecution(row, await this.getLogs([id]).then(logs => logs.get(id) ?? []));
+  }
+
+  async getExecutionsByWorkflow(workflowId: string): Promise<Execution[]> {
+    const rows = await this.db.select().from(executions)
+      .where(eq(executions.workflowId, workflowId))
+      .orderBy(asc(executions.startedAt));
+    const logs = await this.getLogs(rows.map(row => row.id));
+    return rows.map(row => toExecution(row, logs.get(row.id) ?? []));
+  }
+
+  async listExecutions(workflowId: string, query: ExecutionListQuery): Promise<ExecutionListPage> {
+    // Null while running; NULLS LAST keeps those at the end in both orders
+    const sortKey = query.sort === "duration"
+      ? sql`(${executions.completedAt} - ${executions.startedAt})`
+      : sql`${executions.startedAt}`;
+    const direction = query.order === "asc" ? sql.raw("asc") : sql.raw("desc");
+    const after = query.order === "asc" ? sql.raw(">") : sql.raw("<");
+
+    const conditions = [
+      eq(executions.workflowId, workflowId),
+      query.status ? inArray(executions.status, query.status) : undefined,
+      query.triggerType ? inArray(executions.triggerType, query.triggerType) : undefined,
+      query.startedAfter ? gte(executions.startedAt, new Date(query.startedAfter)) : undefined,
+      query.startedBefore ? lt(executions.startedAt, new Date(query.startedBefore)) : undefined,
+      query.error ? exists(this.db.select({ id: executionLogs.id }).from(executionLogs).where(and(
+        eq(executionLogs.executionId, executions.id),
+        eq(executionLogs.level, "error"),
+        ilike(executionLogs.message, `%${escapeLike(query.error)}%`)
+      ))) : undefined
+    ];
+    if (query.cursor) {
+      // Compare against the cursor row in SQL so timestamps keep full precision
+      const cursorKey = sql`(select ${sortKey} from ${executions} where ${executions.id} = ${query.cursor})`;
+      conditions.push(sql`(
+        (${cursorKey} is not null and (
+          ${sortKey} ${after} ${cursorKey} or
+          (${sortKey} = ${cursorKey} and ${executions.id} ${after} ${query.cursor}) or
+          ${sortKey} is null
+        )) or
+        (${cursorKey} is null and ${sortKey} is null and ${executions.id} ${after} ${query.cursor})
+      )`);
+    }
+
+    // Fetch one extra row to learn whether another page follows
+    const rows = await this.db.select({
+      id: executions.id,
+      status: executions.status,
+      triggerType: executions.triggerType,
+      triggerNodeId: executions.triggerNodeId,
+      workflowVersion: executions.workflowVersion,
+      startedAt: executions.startedAt,
+      completedAt: executions.completedAt
+    }).from(executions)
+      .where(and(...conditions))
+      .orderBy(sql`${sortKey} ${direction} nulls last`, sql`${executions.id} ${direction}`)
+      .limit(query.limit + 1);
+    const page = rows.slice(0, query.limit);
+
+    const errors = new Map<string, string>();
+    if (page.length > 0) {
+      const errorLogs = await this.db.select({ executionId: executionLogs.executionId, message: executionLogs.message })
+        .from(executionLogs)
+        .where(and(inArray(executionLogs.executionId, page.map(row => row.id)), eq(executionLogs.level, "error")))
+        .orderBy(asc(executionLogs.sequence));
+      for (const log of errorLogs) {
+        errors.set(log.executionId, log.message);
+      }
+    }
+
+    return {
+      executions: page.map((row): ExecutionListItem => {
+        const startedAt = row.startedAt.toISOString();
+        const completedAt = row.completedAt?.toISOString();
+        return {
+          id: row.id,
+          status: row.status,
+          triggerType: row.triggerType ?? undefined,
+          triggerNodeId: row.triggerNodeId ?? undefined,
+          workflowVersion: row.workflowVersion ?? undefined,
+          startedAt,
+          completedAt,
+          durationMs: getDurationMs(startedAt, completedAt),
+          error: errors.get(row.id)
+        };
+      }),
+      nextCursor: rows.length > query.limit ? page[page.length - 1].id : undefined
+    };
+  }
+
+  async getLatestExecutions(): Promise<Map<string, ExecutionSummary>> {
+    const rows = await this.db.selectDistinctOn([executions.workflowId], {
+      workflowId: executions.workflowId,
+      id: executions.id,
+      status: executions.status,
+      triggerType: executions.triggerType,
+      startedAt: executions.startedAt,
+      completedAt: executions.completedAt
+    }).from(executions)
+      .orderBy(executions.workflowId, desc(executions.startedAt));
+
+    return new Map(rows.map(row => [row.workflowId, {
+      id: row.id,
+      status: row.status,
+      triggerType: row.triggerType ?? undefined,
+      startedAt: row.startedAt.toISOString(),
+      completedAt: row.completedAt?.toISOString()
+    }]));
+  }
+
+  async findLatestExecution(workflowId: string, filter: LatestExecutionFilter): Promise<ExecutionRecord | undefined> {
+    const [row] = await this.db.select().from(executions)
+      .where(and(
+        eq(executions.workflowId, workflowId),
+        filter.triggerType === undefined ? undefined : eq(executions.triggerType, filter.triggerType),
+        filter.triggerNodeId === undefined ? undefined : eq(executions.triggerNodeId, filter.triggerNodeId),
+        ...(filter.nodeStatuses?.nodeIds ?? []).map(nodeId =>
+          inArray(sql`${executions.nodeStatuses} ->> ${nodeId}`, filter.nodeStatuses!.statuses))
+      ))
+      .orderBy(desc(executions.startedAt))
+      .limit(1);
+    return row && toExecutionRecord(row);
+  }
+
+  async createExecution(insertExecution: InsertExecution): Promise<Execution> {
+    const [row] = await this.db.insert(executions).values(insertExecution).returning();
+    return toExecution(row, []);
+  }
+
+  async updateExecution(id: string, updateData: Partial<ExecutionRecord>): Promise<ExecutionRecord | undefined> {
+    const { id: _id, startedAt, completedAt, ...rest } = updateData;
+    const columns = toColumns(rest);
+    if (startedAt !== undefined) {
+      columns.startedAt = new Date(startedAt);
+    }
+    if ("completedAt" in updateData) {
+      columns.completedAt = completedAt ? new Date(completedAt) : null;
+    }
+
+    const [row] = Object.keys(columns).length > 0
+      ? await this.db.update(executions).set(columns).where(eq(executions.id, id)).returning()
+      : await this.db.select().from(executions).where(eq(executions.id, id));
+    return row && toExecutionRecord(row);
+  }
+
+  async appendExecutionLog(executionId: string, insertLog: InsertExecutionLog): Promise<ExecutionLog | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Row lock on the execution hands out sequence numbers one at a time
+      const [counter] = await tx.update(executions)
+        .set({ logCount: sql`${executions.logCount} + 1` })
+        .where(eq(executions.id, executionId))
+        .returning({ logCount: executions.logCount });
+      if (!counter) return undefined;
+
+      const [row] = await tx.insert(executionLogs).values({
+        executionId,
+        sequence: counter.logCount,
+        timestamp: new Date(insertLog.timestamp),
+        level: insertLog.level,
+        message: insertLog.message,
+        nodeId: insertLog.nodeId
+      }).returning();
+      return toExecutionLog(row);
+    });
+  }
+
+  async getExecutionLogs(executionId: string, after = 0, limit?: number): Promise<ExecutionLog[]> {
+    const query = this.db.select().from(executionLogs)
+      .where(and(eq(executionLogs.executionId, executionId), gt(executionLogs.sequence, after)))
+      .orderBy(asc(executionLogs.sequence));
+    const rows = limit === undefined ? await query : await query.limit(limit);
+    return rows.map(toExecutionLog);
+  }
+
+  private async getLogs(executionIds: string[]): Promise<Map<string, ExecutionLog[]>> {
+    const logs = new Map<string, ExecutionLog[]>();
+    if (executionIds.length === 0) return logs;
+
+    const rows = await this.db.select().from(executionLogs)
+      .where(inArray(executionLogs.executionId, executionIds))
+      .orderBy(asc(executionLogs.executionId), asc(executionLogs.sequence));
+    for (const row of rows) {
+      const list = logs.get(row.executionId) ?? [];
+      list.push(toExecutionLog(row));
+      logs.set(row.executionId, list);
+    }
+    return logs;
+  }
+}
+
+/**
+ * Pick the storage backend from STORAGE_DRIVER ("memory" or "postgres").
+ * Defaults to Postgres whenever DATABASE_URL is set.
+ */
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? "postgres" : "memory");
+
+  if (driver === "memory") {
+    return new MemStorage();
+  }
+  if (driver !== "postgres") {
+    throw new Error(`Unknown STORAGE_DRIVER "${driver}", expected "memory" or "postgres"`);
+  }
+  if (!process.env.DATABASE_URL) {
+    throw new Error("STORAGE_DRIVER=postgres requires DATABASE_URL");
   }
+  return new DbStorage(createDatabase(process.env.DATABASE_URL).db);
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -0,0 +1,176 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import express from "express";
+import { type Server } from "http";
+import { type AddressInfo } from "net";
+import { type Execution, type Workflow, type WorkflowNode } from "@shared/schema";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+import { WebhookRegistry } from "./webhooks";
+
+function webhookNode(id: string, params: Record<string, any>): WorkflowNode {
+  return { id, type: "WebhookNode", position: { x: 0, y: 0 }, params };
+}
+
+function webhookWorkflow(id: string, active: boolean, nodes: WorkflowNode[]): Workflow {
+  return { id, name: id, active, nodes, connections: [], createdAt: "", updatedAt: "" };
+}
+
+describe("WebhookRegistry", () => {
+  test("matches the method and path of active workflows' WebhookNodes", () => {
+    const registry = new WebhookRegistry();
+    registry.register(webhookWorkflow("wf", true, [
+      webhookNode("orders", { path: "/orders/", method: "put" }),
+      webhookNode("fallback", {})
+    ]));
+
+    assert.equal(registry.match("PUT", "orders")?.nodeId, "orders");
+    assert.equal(registry.match("put", "/orders"), registry.match("PUT", "orders"));
+    assert.equal(registry.match("POST", "orders"), undefined);
+    // Without a path the node id is used, and POST is the default method
+    assert.equal(registry.match("POST", "fallback")?.nodeId, "fallback");
+
+    registry.register(webhookWorkflow("wf", false, [webhookNode("orders", { path: "orders", method: "PUT" })]));
+    assert.equal(registry.match("PUT", "orders"), undefined);
+  });
+
+  test("reports routes another active workflow already uses", () => {
+    const registry = new WebhookRegistry();
+    registry.register(webhookWorkflow("first", true, [webhookNode("hook", { path: "orders" })]));
+
+    const second = { active: true, nodes: [webhookNode("hook", { path: "orders" }), webhookNode("other", { path: "free" })] };
+    assert.deepEqual(registry.findConflicts("second", second), ["POST /orders"]);
+    assert.deepEqual(registry.findConflicts(undefined, second), ["POST /orders"]);
+    // A workflow doesn't conflict with itself, and inactive workflows take no routes
+    assert.deepEqual(registry.findConflicts("first", second), []);
+    assert.deepEqual(registry.findConflicts("second", { ...second, active: false }), []);
+
+    // The first workflow keeps a path when another registers it anyway
+    registry.register(webhookWorkflow("second", true, second.nodes));
+    assert.equal(registry.match("POST", "orders")?.workflowId, "first");
+    registry.unregister("first");
+    assert.equal(registry.match("POST", "orders"), undefined);
+    assert.equal(registry.match("POST", "free")?.workflowId, "second");
+  });
+});
+
+describe("webhook routes", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    const app = express();
+    app.use(express.json());
+    server = await registerRoutes(app);
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  function request(method: string, path: string, body?: unknown, headers: Record<string, string> = {}) {
+    return fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { "Content-Type": "application/json", ...headers },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+  }
+
+  async function createWorkflow(name: string, params: Record<string, any>, active = true): Promise<Workflow> {
+    const res = await request("POST", "/api/workflows", {
+      name,
+      active,
+      nodes: [webhookNode("hook", params)],
+      connections: []
+    });
+    assert.equal(res.status, 201);
+    return res.json();
+  }
+
+  async function finished(executionId: string): Promise<Execution> {
+    for (let i = 0; i < 100; i++) {
+      const execution = await storage.getExecution(executionId);
+      if (execution && execution.status !== "running") return execution;
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    throw new Error(`Execution ${executionId} did not finish`);
+  }
+
+  test("checks the token header and keeps it out of the stored request", async () => {
+    await createWorkflow("Header auth", {
+      path: "header-auth",
+      authMode: "header",
+      authHeaderName: "X-Api-Key",
+      authHeaderValue: "s3cret"
+    });
+
+    assert.equal((await request("POST", "/webhook/header-auth", {})).status, 401);
+    assert.equal((await request("POST", "/webhook/header-auth", {}, { "x-api-key": "wrong" })).status, 401);
+    assert.equal((await request("POST", "/webhook/header-auth", {}, { "x-api-key": "s3cret0" })).status, 401);
+
+    const res = await request("POST", "/webhook/header-auth?source=test", { id: 7 }, {
+      "X-Api-Key": "s3cret",
+      Authorization: "Bearer other",
+      "X-Trace": "abc"
+    });
+    assert.equal(res.status, 202);
+    const execution = await finished((await res.json()).executionId);
+    assert.equal(execution.triggerType, "webhook");
+
+    const [trigger] = execution.nodeInputs?.hook ?? [];
+    assert.equal(trigger.method, "POST");
+    assert.deepEqual(trigger.body, { id: 7 });
+    assert.deepEqual(trigger.query, { source: "test" });
+    assert.equal(trigger.headers["x-trace"], "abc");
+    assert.equal(trigger.headers["x-api-key"], undefined);
+    assert.equal(trigger.headers.authorization, undefined);
+    assert.doesNotMatch(JSON.stringify(execution), /s3cret|Bearer other/);
+  });
+
+  test("checks basic auth credentials", async () => {
+    await createWorkflow("Basic auth", { path: "basic-auth", authMode: "basic", authUsername: "ann", authPassword: "pw:1" });
+    const basic = (credentials: string) => ({ Authorization: `Basic ${Buffer.from(credentials).toString("base64")}` });
+
+    assert.equal((await request("POST", "/webhook/basic-auth", {})).status, 401);
+    assert.equal((await request("POST", "/webhook/basic-auth", {}, basic("ann:wrong"))).status, 401);
+    assert.equal((await request("POST", "/webhook/basic-auth", {}, { Authorization: "Bearer ann:pw:1" })).status, 401);
+
+    const res = await request("POST", "/webhook/basic-auth", {}, basic("ann:pw:1"));
+    assert.equal(res.status, 202);
+    const execution = await finished((await res.json()).executionId);
+    assert.equal(execution.nodeInputs?.hook?.[0].headers.authorization, undefined);
+  });
+
+  test("registers and unregisters routes as workflows are activated, updated and deleted", async () => {
+    const workflow = await createWorkflow("Lifecycle", { path: "lifecycle" }, false);
+    assert.equal((await request("POST", "/webhook/lifecycle", {})).status, 404);
+
+    assert.equal((await request("PATCH", `/api/workflows/${workflow.id}`, { active: true })).status, 200);
+    assert.equal((await request("POST", "/webhook/lifecycle", {})).status, 202);
+
+    // Moving the path frees the old one
+    const moved = await request("PATCH", `/api/workflows/${workflow.id}`, { nodes: [webhookNode("hook", { path: "lifecycle-v2" })] });
+    assert.equal(moved.status, 200);
+    assert.equal((await request("POST", "/webhook/lifecycle", {})).status, 404);
+    assert.equal((await request("POST", "/webhook/lifecycle-v2", {})).status, 202);
+
+    // Another active workflow can't take the path
+    const taken = await request("POST", "/api/workflows", {
+      name: "Taken",
+      active: true,
+      nodes: [webhookNode("hook", { path: "lifecycle-v2" })],
+      connections: []
+    });
+    assert.equal(taken.status, 409);
+    assert.deepEqual((await taken.json()).details, ["POST /lifecycle-v2"]);
+
+    assert.equal((await request("PATCH", `/api/workflows/${workflow.id}`, { active: false })).status, 200);
+    assert.equal((await request("POST", "/webhook/lifecycle-v2", {})).status, 404);
+
+    assert.equal((await request("PATCH", `/api/workflows/${workflow.id}`, { active: true })).status, 200);
+    assert.equal((await request("DELETE", `/api/workflows/${workflow.id}`)).status, 204);
+    assert.equal((await request("POST", "/webhook/lifecycle-v2", {})).status, 404);
+  });
+});
@@ -0,0 +1,178 @@
+import type { Express, Request } from "express";
+import { timingSafeEqual } from "crypto";
+import { type Workflow, type WorkflowNode, type INodeParams } from "@shared/schema";
+import { type IStorage } from "./storage";
+import { startExecution } from "./executions";
+import { getExecutionOrder } from "./workflow-engine";
+
+interface WebhookRegistration {
+  workflowId: string;
+  nodeId: string;
+  method: string;
+  path: string;
+}
+
+export function normalizeWebhookPath(path: unknown): string {
+  return String(path ?? "").trim().replace(/^\/+|\/+$/g, "");
+}
+
+function getWebhookRoutes(workflowId: string, nodes: WorkflowNode[]): WebhookRegistration[] {
+  return nodes
+    .filter(node => node.type === "WebhookNode")
+    .map(node => ({
+      workflowId,
+      nodeId: node.id,
+      method: String(node.params?.method || "POST").toUpperCase(),
+      path: normalizeWebhookPath(node.params?.path) || node.id
+    }));
+}
+
+/**
+ * In-process table of the webhook routes defined by WebhookNodes
+ */
+export class WebhookRegistry {
+  private routes: Map<string, WebhookRegistration> = new Map();
+
+  private key(method: string, path: string): string {
+    return `${method.toUpperCase()} /${normalizeWebhookPath(path)}`;
+  }
+
+  /**
+   * Webhook routes an active workflow would take that another workflow already uses
+   */
+  findConflicts(workflowId: string | undefined, workflow: { active?: boolean; nodes: WorkflowNode[] }): string[] {
+    if (!workflow.active) return [];
+
+    return getWebhookRoutes(workflowId ?? "", workflow.nodes)
+      .map(route => this.key(route.method, route.path))
+      .filter(key => {
+        const existing = this.routes.get(key);
+        return existing !== undefined && existing.workflowId !== workflowId;
+      });
+  }
+
+  /**
+   * Replace the routes registered for a workflow with its current WebhookNodes.
+   * Inactive workflows have no routes.
+   */
+  register(workflow: Workflow): void {
+    this.unregister(workflow.id);
+    if (!workflow.active) return;
+
+    for (const route of getWebhookRoutes(workflow.id, workflow.nodes)) {
+      const key = this.key(route.method, route.path);
+      if (!this.routes.has(key)) {
+        this.routes.set(key, route);
+      }
+    }
+  }
+
+  unregister(workflowId: string): void {
+    for (const [key, route] of Array.from(this.routes.entries())) {
+      if (route.workflowId === workflowId) {
+        this.routes.delete(key);
+      }
+    }
+  }
+
+  match(method: string, path: string): WebhookRegistration | undefined {
+    return this.routes.get(this.key(method, path));
+  }
+}
+
+export const webhookRegistry = new WebhookRegistry();
+
+function safeEqual(actual: string, expected: string): boolean {
+  const a = Buffer.from(actual);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Check the request against the WebhookNode's auth mode
+ */
+function isAuthorized(req: Request, params: INodeParams): boolean {
+  switch (params.authMode) {
+    case "header": {
+      const headerName = String(params.authHeaderName || "x-webhook-token").toLowerCase();
+      const value = req.headers[headerName];
+      return typeof value === "string" && safeEqual(value, String(params.authHeaderValue ?? ""));
+    }
+    case "basic": {
+      const [scheme, encoded] = (req.headers.authorization || "").split(" ");
+      if (scheme?.toLowerCase() !== "basic" || !encoded) return false;
+      const expected = `${params.authUsername ?? ""}:${params.authPassword ?? ""}`;
+      return safeEqual(Buffer.from(encoded, "base64").toString(), expected);
+    }
+    default:
+      return true;
+  }
+}
+
+/**
+ * Mount the catch-all route that dispatches /webhook/* requests to workflows
+ */
+export function registerWebhookRoutes(app: Express, storage: IStorage) {
+  app.all("/webhook/*", async (req, res) => {
+    try {
+      const registration = webhookRegistry.match(req.method, req.path.replace(/^\/webhook\//, ""));
+      if (!registration) {
+        return res.status(404).json({ error: "Webhook not found" });
+      }
+
+      const workflow = await storage.getWorkflow(registration.workflowId);
+      const node = workflow?.nodes.find(n => n.id === registration.nodeId);
+      if (!workflow || !node) {
+        return res.status(404).json({ error: "Webhook not found" });
+      }
+
+      const params = node.params || {};
+      if (!isAuthorized(req, params)) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      // Keep credentials out of the execution's stored data and logs
+      const headers = { ...req.headers };
+      delete headers.authorization;
+      if (params.authMode === "header") {
+        delete headers[String(params.authHeaderName || "x-webhook-token").toLowerCase()];
+      }
+
+      const { execution, finished } = await startExecution(storage, workflow, {
+        triggerType: "webhook",
+        triggerNodeId: node.id,
+        triggerData: {
+          method: req.method,
+          path: registration.path,
+          headers,
+          query: req.query,
+          body: req.body
+        }
+      });
+
+      if (params.responseMode !== "lastNode") {
+        return res.status(202).json({ executionId: execution.id });
+      }
+
+      // Respond with the output of the last node in graph order that ran
+      await finished;
+      const completed = await storage.getExecution(execution.id);
+      if (!completed || completed.status !== "completed") {
+        return res.status(500).json({
+          error: "Workflow execution failed",
+          executionId: execution.id,
+          status: completed?.status
+        });
+      }
+
+      const results = completed.results || {};
+      const lastNodeId = getExecutionOrder(workflow.nodes, workflow.connections)
+        .reverse()
+        .find(nodeId => results[nodeId] !== undefined);
+      const lastOutput = lastNodeId ? results[lastNodeId] : [];
+      res.json(lastOutput.length === 1 ? lastOutput[0] : lastOutput);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to handle webhook" });
+    }
+  });
+}
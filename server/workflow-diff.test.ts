@@ -0,0 +1,171 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import express from "express";
+import { type Server } from "http";
+import { type AddressInfo } from "net";
+import { type Connection, type Workflow, type WorkflowDiff, type WorkflowNode, type WorkflowVersion } from "@shared/schema";
+import { registerRoutes } from "./routes";
+import { connectionKey, diffWorkflowVersions, isSameNodeDefinition } from "./workflow-diff";
+
+function node(id: string, params: Record<string, any> = {}, x = 0): WorkflowNode {
+  return { id, type: "LogMessageNode", position: { x, y: 0 }, params };
+}
+
+function version(number: number, nodes: WorkflowNode[], connections: Connection[], name = "Orders"): WorkflowVersion {
+  return { workflowId: "wf", version: number, name, nodes, connections, createdAt: "" };
+}
+
+describe("diffWorkflowVersions", () => {
+  test("reports nothing for identical designs, whatever their key order", () => {
+    const a = version(1, [node("log", { message: "hi", level: "info" })], [{ id: "c", from: "start", to: "log" }]);
+    const b = version(2, [{ params: { level: "info", message: "hi" }, position: { y: 0, x: 0 }, type: "LogMessageNode", id: "log" }], [{ id: "c", from: "start", to: "log" }]);
+
+    assert.deepEqual(diffWorkflowVersions(a, b), {
+      from: 1,
+      to: 2,
+      fields: [],
+      nodes: { added: [], removed: [], changed: [] },
+      connections: { added: [], removed: [] }
+    } satisfies WorkflowDiff);
+  });
+
+  test("reports added and removed nodes and connections", () => {
+    const a = version(1, [node("start"), node("old")], [{ id: "c1", from: "start", to: "old" }]);
+    const b = version(2, [node("start"), node("new")], [{ id: "c2", from: "start", to: "new", fromOutput: "true" }]);
+
+    const diff = diffWorkflowVersions(a, b);
+    assert.deepEqual(diff.nodes.added.map(n => n.id), ["new"]);
+    assert.deepEqual(diff.nodes.removed.map(n => n.id), ["old"]);
+    assert.deepEqual(diff.nodes.changed, []);
+    assert.deepEqual(diff.connections.added, [{ id: "c2", from: "start", to: "new", fromOutput: "true" }]);
+    assert.deepEqual(diff.connections.removed, [{ id: "c1", from: "start", to: "old" }]);
+  });
+
+  test("matches connections by what they join rather than by id", () => {
+    const a = version(1, [], [{ id: "c1", from: "if", to: "log" }, { id: "c2", from: "if", to: "log", fromOutput: "false" }]);
+    const b = version(2, [], [{ id: "pasted", from: "if", to: "log", fromOutput: "main" }, { id: "c2", from: "if", to: "log", fromOutput: "true" }]);
+
+    const diff = diffWorkflowVersions(a, b);
+    assert.deepEqual(diff.connections.added.map(c => c.id), ["c2"]);
+    assert.deepEqual(diff.connections.removed, [{ id: "c2", from: "if", to: "log", fromOutput: "false" }]);
+    assert.equal(connectionKey({ id: "x", from: "a", to: "b" }), "a->b:main");
+  });
+
+  test("lists changed parameters, settings and positions by path", () => {
+    const a = version(1, [
+      { ...node("log", { message: "hi", level: "info", headers: { a: "1" } }), status: "success" }
+    ], []);
+    const b = version(2, [
+      { ...node("log", { message: "hello", headers: { a: "1", b: "2" }, tags: ["x"] }, 40), settings: { onError: "continue" }, status: "error" }
+    ], [], "Orders v2");
+
+    const diff = diffWorkflowVersions(a, b);
+    assert.deepEqual(diff.fields, [{ path: "name", before: "Orders", after: "Orders v2" }]);
+    assert.equal(diff.nodes.changed.length, 1);
+    const [changed] = diff.nodes.changed;
+    assert.equal(changed.nodeId, "log");
+    assert.equal(changed.before, a.nodes[0]);
+    assert.equal(changed.after, b.nodes[0]);
+    // Run status is not part of the design
+    assert.deepEqual(changed.changes, [
+      { path: "params.headers.b", before: undefined, after: "2" },
+      { path: "params.level", before: "info", after: undefined },
+      { path: "params.message", before: "hi", after: "hello" },
+      { path: "params.tags", before: undefined, after: ["x"] },
+      { path: "position.x", before: 0, after: 40 },
+      { path: "settings", before: undefined, after: { onError: "continue" } }
+    ]);
+  });
+
+  test("compares arrays as a whole", () => {
+    const a = version(1, [node("log", { tags: ["a", "b"] })], []);
+    const b = version(2, [node("log", { tags: ["b", "a"] })], []);
+
+    assert.deepEqual(diffWorkflowVersions(a, b).nodes.changed[0].changes, [
+      { path: "params.tags", before: ["a", "b"], after: ["b", "a"] }
+    ]);
+  });
+});
+
+describe("isSameNodeDefinition", () => {
+  test("ignores position but not type, parameters or settings", () => {
+    assert.equal(isSameNodeDefinition(node("a", { message: "hi" }), node("b", { message: "hi" }, 100)), true);
+    assert.equal(isSameNodeDefinition(node("a"), { ...node("a"), params: undefined }), true);
+    assert.equal(isSameNodeDefinition(node("a", { message: "hi" }), node("a", { message: "bye" })), false);
+    assert.equal(isSameNodeDefinition(node("a"), { ...node("a"), type: "FetchApiNode" }), false);
+    assert.equal(isSameNodeDefinition(node("a"), { ...node("a"), settings: { onError: "continue" } }), false);
+  });
+});
+
+describe("restoring a version", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    const app = express();
+    app.use(express.json());
+    server = await registerRoutes(app);
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  function request(method: string, path: string, body?: unknown) {
+    return fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+  }
+
+  test("saves the older design as a new version", async () => {
+    const created: Workflow = await (await request("POST", "/api/workflows", {
+      name: "Restore me",
+      active: false,
+      nodes: [node("start"), node("log", { message: "v1" })],
+      connections: [{ id: "c1", from: "start", to: "log" }]
+    })).json();
+    await request("PATCH", `/api/workflows/${created.id}`, {
+      name: "Changed",
+      nodes: [node("start"), node("log", { message: "v2" }), node("extra")],
+      connections: []
+    });
+
+    const res = await request("POST", `/api/workflows/${created.id}/versions/1/restore`);
+    assert.equal(res.status, 200);
+    const restored: Workflow = await res.json();
+    assert.equal(restored.version, 3);
+    assert.equal(restored.name, "Restore me");
+    assert.deepEqual(restored.nodes, created.nodes);
+    assert.deepEqual(restored.connections, created.connections);
+
+    const [latest]: WorkflowVersion[] = await (await request("GET", `/api/workflows/${created.id}/versions?limit=1`)).json();
+    assert.equal(latest.version, 3);
+    assert.equal(latest.restoredFrom, 1);
+
+    const sinceV1: WorkflowDiff = await (await request("GET", `/api/workflows/${created.id}/versions/diff?from=1`)).json();
+    assert.deepEqual(sinceV1.fields, []);
+    assert.deepEqual(sinceV1.nodes, { added: [], removed: [], changed: [] });
+    assert.deepEqual(sinceV1.connections, { added: [], removed: [] });
+
+    const sinceV2: WorkflowDiff = await (await request("GET", `/api/workflows/${created.id}/versions/diff?from=2&to=3`)).json();
+    assert.deepEqual(sinceV2.nodes.removed.map(n => n.id), ["extra"]);
+    assert.deepEqual(sinceV2.connections.added.map(c => c.id), ["c1"]);
+  });
+
+  test("rejects unknown and invalid versions", async () => {
+    const created: Workflow = await (await request("POST", "/api/workflows", {
+      name: "Single version",
+      active: false,
+      nodes: [],
+      connections: []
+    })).json();
+
+    assert.equal((await request("POST", `/api/workflows/${created.id}/versions/5/restore`)).status, 404);
+    assert.equal((await request("POST", `/api/workflows/${created.id}/versions/zero/restore`)).status, 400);
+    assert.equal((await request("POST", "/api/workflows/missing/versions/1/restore")).status, 404);
+  });
+});
@@ -0,0 +1,97 @@
+import { type Connection, type FieldChange, type NodeChange, type WorkflowDiff, type WorkflowNode, type WorkflowVersion } from "@shared/schema";
+
+// Node fields that describe a run rather than the design
+const IGNORED_NODE_FIELDS = new Set(["id", "status"]);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Structural equality. Key order is ignored, since jsonb columns reorder keys,
+ * and a missing key equals one set to undefined.
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isEqual(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return Array.from(keys).every(key => isEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+/**
+ * Leaf-level differences between two values. Objects are walked key by key;
+ * anything else, arrays included, is compared whole.
+ */
+function collectChanges(before: unknown, after: unknown, path: string, changes: FieldChange[]) {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of Array.from(keys).sort()) {
+      collectChanges(before[key], after[key], path ? `${path}.${key}` : key, changes);
+    }
+  } else if (!isEqual(before, after)) {
+    changes.push({ path, before, after });
+  }
+}
+
+// Connections are matched by what they join, since pasted copies get new ids
+export function connectionKey(connection: Connection): string {
+  return `${connection.from}->${connection.to}:${connection.fromOutput ?? "main"}`;
+}
+
+/**
+ * Whether two nodes do the same thing when run: same type, parameters and
+ * settings. Where they sit on the canvas doesn't matter.
+ */
+export function isSameNodeDefinition(a: WorkflowNode, b: WorkflowNode): boolean {
+  return a.type === b.type && isEqual(a.params ?? {}, b.params ?? {}) && isEqual(a.settings ?? {}, b.settings ?? {});
+}
+
+/**
+ * What changed going from version `from` to version `to`
+ */
+export function diffWorkflowVersions(from: WorkflowVersion, to: WorkflowVersion): WorkflowDiff {
+  const fields: FieldChange[] = [];
+  collectChanges({ name: from.name, description: from.description }, { name: to.name, description: to.description }, "", fields);
+
+  const fromNodes = new Map(from.nodes.map(node => [node.id, node]));
+  const toNodes = new Map(to.nodes.map(node => [node.id, node]));
+
+  const changed: NodeChange[] = [];
+  for (const after of to.nodes) {
+    const before = fromNodes.get(after.id);
+    if (!before) continue;
+
+    const changes: FieldChange[] = [];
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of Array.from(keys).sort()) {
+      if (IGNORED_NODE_FIELDS.has(key)) continue;
+      collectChanges(before[key as keyof typeof before], after[key as keyof typeof after], key, changes);
+    }
+    if (changes.length > 0) {
+      changed.push({ nodeId: after.id, before, after, changes });
+    }
+  }
+
+  const fromConnections = new Set(from.connections.map(connectionKey));
+  const toConnections = new Set(to.connections.map(connectionKey));
+
+  return {
+    from: from.version,
+    to: to.version,
+    fields,
+    nodes: {
+      added: to.nodes.filter(node => !fromNodes.has(node.id)),
+      removed: from.nodes.filter(node => !toNodes.has(node.id)),
+      changed
+    },
+    connections: {
+      added: to.connections.filter(connection => !fromConnections.has(connectionKey(connection))),
+      removed: from.connections.filter(connection => !toConnections.has(connectionKey(connection)))
+    }
+  };
+}
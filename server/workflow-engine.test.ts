@@ -0,0 +1,667 @@
+import { afterEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { createServer } from "http";
+import { type AddressInfo } from "net";
+import {
+  migrateIfNodeConnections, type Connection, type Execution, type INodeData, type NodeErrorKind, type NodeSettings, type WorkflowNode
+} from "@shared/schema";
+import { MemStorage } from "./storage";
+import { NodeExecutionError, WorkflowEngine, getPartialNodeIds, type INode, type WorkflowRunOptions } from "./workflow-engine";
+import { ExecutionRegistry } from "./execution-registry";
+import { ExecutionEventBus } from "./execution-events";
+
+function node(
+  id: string,
+  type: WorkflowNode["type"],
+  params: Record<string, any> = {},
+  settings?: NodeSettings
+): WorkflowNode {
+  return { id, type, position: { x: 0, y: 0 }, params, settings };
+}
+
+function connect(from: string, to: string, fromOutput?: Connection["fromOutput"]): Connection {
+  return { id: `${from}-${to}`, from, to, fromOutput };
+}
+
+/**
+ * Engine over in-memory storage that records retry delays instead of waiting
+ */
+function createEngine() {
+  const storage = new MemStorage();
+  const registry = new ExecutionRegistry();
+  const delays: number[] = [];
+  const engine = new WorkflowEngine(storage, registry, new ExecutionEventBus(), async ms => {
+    delays.push(ms);
+  });
+
+  async function run(nodes: WorkflowNode[], connections: Connection[], options?: WorkflowRunOptions): Promise<Execution> {
+    const workflow = await storage.createWorkflow({ name: "Engine test", nodes, connections });
+    const execution = await storage.createExecution({ workflowId: workflow.id, status: "running" });
+    await engine.executeWorkflow(workflow, execution.id, options);
+    return (await storage.getExecution(execution.id))!;
+  }
+
+  return { engine, storage, registry, delays, run };
+}
+
+/**
+ * Node that throws `error` on its first `failures` calls and then succeeds
+ */
+class FlakyNode implements INode {
+  readonly executionMode = "perItem";
+  calls = 0;
+
+  constructor(private failures: number, private error: () => Error) {}
+
+  async execute(inputData: INodeData[]): Promise<INodeData[]> {
+    this.calls++;
+    if (this.calls <= this.failures) {
+      throw this.error();
+    }
+    return [{ attempt: this.calls, input: inputData[0] }];
+  }
+}
+
+/**
+ * Trigger that emits a fixed list of items
+ */
+class EmitNode implements INode {
+  readonly executionMode = "once";
+
+  constructor(private items: INodeData[]) {}
+
+  async execute(): Promise<INodeData[]> {
+    return this.items;
+  }
+}
+
+/**
+ * Node that fails on input items flagged with `fail`
+ */
+class FailOnFlagNode implements INode {
+  readonly executionMode = "perItem";
+
+  async execute(inputData: INodeData[]): Promise<INodeData[]> {
+    if (inputData[0]?.fail) {
+      throw new NodeExecutionError(`HTTP 500: item ${inputData[0].n} failed`, "http", 500);
+    }
+    return [{ ok: inputData[0]?.n }];
+  }
+}
+
+/**
+ * Node that takes `ms` to run and tracks how many of its kind run at once
+ */
+class SlowNode implements INode {
+  readonly executionMode = "once";
+
+  constructor(private tracker: { active: number; maxActive: number }, private ms: number) {}
+
+  async execute(inputData: INodeData[]): Promise<INodeData[]> {
+    this.tracker.active++;
+    this.tracker.maxActive = Math.max(this.tracker.maxActive, this.tracker.active);
+    await new Promise(resolve => setTimeout(resolve, this.ms));
+    this.tracker.active--;
+    return inputData;
+  }
+}
+
+/**
+ * Node that handles every item in a single call, returning `output` for them
+ */
+class BatchNode implements INode {
+  readonly executionMode = "once";
+  calls: INodeData[][] = [];
+
+  constructor(private output: (inputData: INodeData[]) => INodeData[]) {}
+
+  async execute(inputData: INodeData[]): Promise<INodeData[]> {
+    this.calls.push(inputData);
+    return this.output(inputData);
+  }
+}
+
+function messages(execution: Execution, nodeId?: string): string[] {
+  return execution.logs.filter(log => nodeId === undefined || log.nodeId === nodeId).map(log => log.message);
+}
+
+describe("WorkflowEngine retries", () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  function runFlaky(flaky: FlakyNode, retry: NodeSettings["retry"]) {
+    const { engine, delays, run } = createEngine();
+    engine.registerNode("FetchApiNode", () => flaky);
+    const execution = run(
+      [node("start", "StartNode"), node("fetch", "FetchApiNode", {}, { retry })],
+      [connect("start", "fetch")]
+    );
+    return { execution, delays };
+  }
+
+  test("retries a failing node until an attempt succeeds", async () => {
+    const flaky = new FlakyNode(2, () => new NodeExecutionError("Request timed out", "timeout"));
+    const { execution, delays } = runFlaky(flaky, { maxAttempts: 3, baseDelayMs: 10, jitter: 0 });
+    const result = await execution;
+
+    assert.equal(result.status, "completed");
+    assert.equal(flaky.calls, 3);
+    assert.equal(result.results?.fetch?.[0].attempt, 3);
+    assert.deepEqual(delays, [10, 20]);
+    assert.deepEqual(messages(result, "fetch").filter(message => message.startsWith("Attempt")), [
+      "Attempt 1/3 failed: Request timed out. Retrying in 10ms",
+      "Attempt 2/3",
+      "Attempt 2/3 failed: Request timed out. Retrying in 20ms",
+      "Attempt 3/3"
+    ]);
+  });
+
+  test("fails the node once every attempt has failed", async () => {
+    const flaky = new FlakyNode(Infinity, () => new NodeExecutionError("No response received from server", "network"));
+    const { execution, delays } = runFlaky(flaky, { maxAttempts: 4, baseDelayMs: 10, jitter: 0 });
+    const result = await execution;
+
+    assert.equal(result.status, "failed");
+    assert.equal(result.nodeStatuses?.fetch, "error");
+    assert.equal(flaky.calls, 4);
+    assert.equal(delays.length, 3);
+  });
+
+  test("does not retry by default", async () => {
+    const flaky = new FlakyNode(1, () => new NodeExecutionError("Request timed out", "timeout"));
+    const { execution, delays } = runFlaky(flaky, undefined);
+
+    assert.equal((await execution).status, "failed");
+    assert.equal(flaky.calls, 1);
+    assert.deepEqual(delays, []);
+  });
+
+  test("backs off exponentially, spread by the jitter", async () => {
+    const retry = { maxAttempts: 4, baseDelayMs: 100, backoffFactor: 3, jitter: 0.5 };
+
+    mock.method(Math, "random", () => 1);
+    const high = runFlaky(new FlakyNode(3, () => new NodeExecutionError("Request timed out", "timeout")), retry);
+    await high.execution;
+    assert.deepEqual(high.delays, [150, 450, 1350]);
+
+    mock.method(Math, "random", () => 0);
+    const low = runFlaky(new FlakyNode(3, () => new NodeExecutionError("Request timed out", "timeout")), retry);
+    await low.execution;
+    assert.deepEqual(low.delays, [50, 150, 450]);
+  });
+
+  test("only retries timeouts, network errors and 408, 429 and 5xx responses by default", async () => {
+    const cases: [NodeErrorKind, number | undefined, boolean][] = [
+      ["timeout", undefined, true],
+      ["network", undefined, true],
+      ["http", 408, true],
+      ["http", 429, true],
+      ["http", 500, true],
+      ["http", 503, true],
+      ["http", 400, false],
+      ["http", 404, false],
+      ["other", undefined, false]
+    ];
+
+    for (const [kind, statusCode, retried] of cases) {
+      const flaky = new FlakyNode(1, () => new NodeExecutionError("Failed", kind, statusCode));
+      const { execution } = runFlaky(flaky, { maxAttempts: 2, baseDelayMs: 0 });
+      assert.equal((await execution).status, retried ? "completed" : "failed", `${kind} ${statusCode ?? ""}`);
+      assert.equal(flaky.calls, retried ? 2 : 1, `${kind} ${statusCode ?? ""}`);
+    }
+
+    // Plain errors count as "other"
+    const plain = new FlakyNode(1, () => new Error("Boom"));
+    await runFlaky(plain, { maxAttempts: 2, baseDelayMs: 0 }).execution;
+    assert.equal(plain.calls, 1);
+  });
+
+  test("retries the error kinds and status codes a node configures", async () => {
+    const notFound = new FlakyNode(1, () => new NodeExecutionError("HTTP 404: Not Found", "http", 404));
+    await runFlaky(notFound, { maxAttempts: 2, baseDelayMs: 0, retryOnStatusCodes: [404] }).execution;
+    assert.equal(notFound.calls, 2);
+
+    const unavailable = new FlakyNode(1, () => new NodeExecutionError("HTTP 503: Service Unavailable", "http", 503));
+    await runFlaky(unavailable, { maxAttempts: 2, baseDelayMs: 0, retryOnStatusCodes: [404] }).execution;
+    assert.equal(unavailable.calls, 1);
+
+    const other = new FlakyNode(1, () => new NodeExecutionError("Request failed", "other"));
+    await runFlaky(other, { maxAttempts: 2, baseDelayMs: 0, retryOnErrors: ["other"] }).execution;
+    assert.equal(other.calls, 2);
+  });
+});
+
+describe("WorkflowEngine error handling", () => {
+  const items = [{ n: 1 }, { n: 2, fail: true }, { n: 3 }];
+
+  function runWithErrorMode(onError: NodeSettings["onError"]) {
+    const { engine, run } = createEngine();
+    engine.registerNode("StartNode", () => new EmitNode(items));
+    engine.registerNode("FetchApiNode", () => new FailOnFlagNode());
+    return run([
+      node("start", "StartNode"),
+      node("fetch", "FetchApiNode", {}, { onError }),
+      node("onSuccess", "LogMessageNode"),
+      node("onError", "LogMessageNode")
+    ], [
+      connect("start", "fetch"),
+      connect("fetch", "onSuccess"),
+      connect("fetch", "onError", "error")
+    ]);
+  }
+
+  const loggedData = (execution: Execution, nodeId: string): INodeData[] | undefined =>
+    execution.results?.[nodeId]?.map((item: INodeData) => item.loggedData);
+
+  test('"stop" fails the run at the first failed item', async () => {
+    const execution = await runWithErrorMode("stop");
+
+    assert.equal(execution.status, "failed");
+    assert.equal(execution.nodeStatuses?.fetch, "error");
+    assert.equal(execution.nodeStatuses?.onSuccess, undefined);
+    assert.equal(execution.nodeStatuses?.onError, undefined);
+    assert.ok(messages(execution, "fetch").includes("ERROR: HTTP 500: item 2 failed"));
+  });
+
+  test('"continue" passes error items on as regular output', async () => {
+    const execution = await runWithErrorMode("continue");
+
+    assert.equal(execution.status, "completed");
+    assert.equal(execution.nodeStatuses?.fetch, "error");
+    const errorItem = {
+      error: { message: "HTTP 500: item 2 failed", kind: "http", statusCode: 500 },
+      inputData: { n: 2, fail: true }
+    };
+    assert.deepEqual(execution.results?.fetch, [{ ok: 1 }, errorItem, { ok: 3 }]);
+    assert.deepEqual(loggedData(execution, "onSuccess"), [{ ok: 1 }, { ok: 3 }, errorItem]);
+    assert.equal(execution.nodeStatuses?.onError, "skipped");
+    assert.ok(messages(execution, "fetch").includes("1 item(s) failed - continuing with errors as output"));
+  });
+
+  test('"errorOutput" routes error items only to the error connection', async () => {
+    const execution = await runWithErrorMode("errorOutput");
+
+    assert.equal(execution.status, "completed");
+    assert.equal(execution.nodeStatuses?.fetch, "error");
+    assert.deepEqual(loggedData(execution, "onSuccess"), [{ ok: 1 }, { ok: 3 }]);
+    assert.deepEqual(loggedData(execution, "onError"), [{
+      error: { message: "HTTP 500: item 2 failed", kind: "http", statusCode: 500 },
+      inputData: { n: 2, fail: true }
+    }]);
+    assert.ok(messages(execution, "fetch").includes("1 item(s) failed - routing to error output"));
+  });
+
+  test('"errorOutput" keeps error items off an IfNode\'s branches', async () => {
+    const { engine, run } = createEngine();
+    engine.registerNode("StartNode", () => new EmitNode([{ value: "a" }, { value: 1 }]));
+    const execution = await run([
+      node("start", "StartNode"),
+      node("if", "IfNode", { condition: "lower(value) === 'a'" }, { onError: "errorOutput" }),
+      node("onTrue", "LogMessageNode"),
+      node("onFalse", "LogMessageNode"),
+      node("onError", "LogMessageNode")
+    ], [
+      connect("start", "if"),
+      connect("if", "onTrue", "true"),
+      connect("if", "onFalse", "false"),
+      connect("if", "onError", "error")
+    ]);
+
+    assert.equal(execution.status, "completed");
+    assert.equal(loggedData(execution, "onTrue")?.length, 1);
+    assert.equal(execution.nodeStatuses?.onFalse, "skipped");
+    assert.deepEqual(loggedData(execution, "onError")?.map(item => item.inputData), [{ value: 1 }]);
+  });
+
+  test("a node that cannot run at all hands its error to the error output", async () => {
+    const { run } = createEngine();
+    const execution = await run([
+      node("start", "StartNode"),
+      node("log", "LogMessageNode", { message: "{{ $missing }}" }, { onError: "errorOutput" }),
+      node("onSuccess", "LogMessageNode"),
+      node("onError", "LogMessageNode")
+    ], [
+      connect("start", "log"),
+      connect("log", "onSuccess"),
+      connect("log", "onError", "error")
+    ]);
+
+    assert.equal(execution.status, "completed");
+    assert.equal(execution.nodeStatuses?.log, "error");
+    assert.equal(execution.nodeStatuses?.onSuccess, "skipped");
+    assert.match(loggedData(execution, "onError")?.[0].error.message, /Unknown variable "\$missing"/);
+  });
+});
+
+describe("WorkflowEngine IfNode branches", () => {
+  function runBranches(go: boolean) {
+    const { run } = createEngine();
+    return run([
+      node("start", "StartNode", { go }),
+      node("if", "IfNode", { condition: "{{ go }}" }),
+      node("yes", "LogMessageNode", { message: "yes" }),
+      node("afterYes", "LogMessageNode"),
+      node("no", "LogMessageNode", { message: "no" }),
+      node("afterNo", "LogMessageNode"),
+      node("merge", "LogMessageNode", { message: "merged" })
+    ], [
+      connect("start", "if"),
+      connect("if", "yes", "true"),
+      connect("yes", "afterYes"),
+      connect("if", "no", "false"),
+      connect("no", "afterNo"),
+      connect("yes", "merge"),
+      connect("no", "merge")
+    ]);
+  }
+
+  test("skips every node reachable only through the inactive branch", async () => {
+    const execution = await runBranches(true);
+
+    assert.equal(execution.status, "completed");
+    assert.deepEqual(execution.nodeStatuses, {
+      start: "success",
+      if: "success",
+      yes: "success",
+      afterYes: "success",
+      no: "skipped",
+      afterNo: "skipped",
+      merge: "success"
+    });
+    assert.ok(messages(execution, "afterNo").includes("Skipping Node: afterNo (LogMessageNode) - no active input branch"));
+  });
+
+  test("runs a node fed by both branches with the active branch's items", async () => {
+    const execution = await runBranches(false);
+
+    assert.equal(execution.nodeStatuses?.yes, "skipped");
+    assert.equal(execution.nodeStatuses?.no, "success");
+    assert.equal(execution.nodeStatuses?.merge, "success");
+    assert.deepEqual(execution.nodeInputs?.merge?.map((item: INodeData) => item.logMessage), ["no"]);
+  });
+
+  test("treats IfNode connections saved without an output as the true branch", async () => {
+    const nodes = [node("start", "StartNode"), node("if", "IfNode", { condition: "false" }), node("log", "LogMessageNode")];
+    const legacy = [connect("start", "if"), connect("if", "log")];
+
+    assert.deepEqual(migrateIfNodeConnections(nodes, legacy), [
+      connect("start", "if"),
+      connect("if", "log", "true")
+    ]);
+    assert.deepEqual(
+      migrateIfNodeConnections(nodes, [connect("if", "log", "main"), connect("if", "log", "false")]).map(c => c.fromOutput),
+      ["true", "false"]
+    );
+
+    const { run } = createEngine();
+    const skipped = await run(nodes, legacy);
+    assert.equal(skipped.nodeStatuses?.log, "skipped");
+
+    nodes[1].params = { condition: "true" };
+    const ran = await run(nodes, legacy);
+    assert.equal(ran.nodeStatuses?.log, "success");
+  });
+});
+
+describe("WorkflowEngine parallel branches", () => {
+  async function runSlowBranches(concurrency: number) {
+    const { engine, storage, run } = createEngine();
+    const tracker = { active: 0, maxActive: 0 };
+    engine.registerNode("FetchApiNode", () => new SlowNode(tracker, 30));
+
+    // Record every set of running nodes the engine publishes
+    const running: string[][] = [];
+    const updateExecution = storage.updateExecution.bind(storage);
+    storage.updateExecution = async (id, update) => {
+      if (update.currentNodeIds) running.push(update.currentNodeIds);
+      return updateExecution(id, update);
+    };
+
+    const execution = await run([
+      node("start", "StartNode"),
+      node("slowA", "FetchApiNode"),
+      node("slowB", "FetchApiNode"),
+      node("logA", "LogMessageNode"),
+      node("logB", "LogMessageNode")
+    ], [
+      connect("start", "slowA"),
+      connect("start", "slowB"),
+      connect("slowA", "logA"),
+      connect("slowB", "logB")
+    ], { concurrency });
+    return { execution, tracker, running };
+  }
+
+  test("runs independent branches one node at a time with concurrency 1", async () => {
+    const { execution, tracker, running } = await runSlowBranches(1);
+
+    assert.equal(execution.status, "completed");
+    assert.equal(tracker.maxActive, 1);
+    assert.ok(running.every(nodeIds => nodeIds.length <= 1));
+    assert.deepEqual(execution.currentNodeIds, []);
+    // Ready nodes start in topological order
+    const started = messages(execution)
+      .filter(message => message.startsWith("Executing Node"))
+      .map(message => message.split(" ")[2]);
+    assert.deepEqual(started, ["start", "slowA", "slowB", "logA", "logB"]);
+  });
+
+  test("runs independent branches side by side with concurrency 2", async () => {
+    const { execution, tracker, running } = await runSlowBranches(2);
+
+    assert.equal(execution.status, "completed");
+    assert.equal(tracker.maxActive, 2);
+    assert.ok(running.some(nodeIds => nodeIds.length === 2 && nodeIds.includes("slowA") && nodeIds.includes("slowB")));
+    assert.ok(running.every(nodeIds => nodeIds.length <= 2));
+    assert.deepEqual(execution.currentNodeIds, []);
+    assert.ok(messages(execution).includes("Running up to 2 node(s) in parallel"));
+  });
+
+  test("keeps each node's log lines in order and numbered without gaps", async () => {
+    const { execution } = await runSlowBranches(2);
+
+    assert.deepEqual(execution.logs.map(log => log.sequence), execution.logs.map((_, index) => index + 1));
+    for (const nodeId of ["slowA", "slowB", "logA", "logB"]) {
+      const lines = messages(execution, nodeId);
+      assert.equal(lines.length, 2, nodeId);
+      assert.match(lines[0], new RegExp(`^Executing Node: ${nodeId} `));
+      assert.match(lines[1], /^Output: /);
+    }
+  });
+});
+
+describe("WorkflowEngine items", () => {
+  const items = Array.from({ length: 50 }, (_, n) => ({ n }));
+
+  test("calls FetchApiNode once per input item and pairs each output with its item", async () => {
+    const paths: string[] = [];
+    const server = createServer((req, res) => {
+      paths.push(req.url ?? "");
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify({ path: req.url }));
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const { engine, run } = createEngine();
+      engine.registerNode("StartNode", () => new EmitNode(items));
+      const execution = await run([
+        node("start", "StartNode"),
+        node("fetch", "FetchApiNode", { url: `http://127.0.0.1:${port}/items/{{ n }}` }),
+        node("log", "LogMessageNode", { message: "{{ $node['start'].item.n }}:{{ $json.data.path }}" })
+      ], [connect("start", "fetch"), connect("fetch", "log")]);
+
+      assert.equal(execution.status, "completed");
+      assert.equal(paths.length, 50);
+      assert.deepEqual([...paths].sort(), items.map(({ n }) => `/items/${n}`).sort());
+      assert.equal(execution.results?.fetch?.length, 50);
+      assert.deepEqual(execution.itemLineage?.fetch, items.map((_, index) => ({ nodeId: "start", index })));
+      assert.deepEqual(execution.itemLineage?.log, items.map((_, index) => ({ nodeId: "fetch", index })));
+      assert.deepEqual(
+        execution.results?.log?.map((item: INodeData) => item.logMessage),
+        items.map(({ n }) => `${n}:/items/${n}`)
+      );
+      assert.ok(messages(execution, "fetch").includes("Processed 50 items into 50"));
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+
+  test("calls a node running once with every item, pairing outputs index by index", async () => {
+    const { engine, run } = createEngine();
+    const batch = new BatchNode(inputData => inputData.map(item => ({ doubled: item.n * 2 })));
+    engine.registerNode("StartNode", () => new EmitNode(items.slice(0, 3)));
+    engine.registerNode("FetchApiNode", () => batch);
+    const execution = await run(
+      [node("start", "StartNode"), node("batch", "FetchApiNode")],
+      [connect("start", "batch")]
+    );
+
+    assert.deepEqual(batch.calls, [[{ n: 0 }, { n: 1 }, { n: 2 }]]);
+    assert.deepEqual(execution.results?.batch, [{ doubled: 0 }, { doubled: 2 }, { doubled: 4 }]);
+    assert.deepEqual(execution.itemLineage?.batch, [0, 1, 2].map(index => ({ nodeId: "start", index })));
+  });
+
+  test("pairs every output of a node running once with the first item when the counts differ", async () => {
+    const { engine, run } = createEngine();
+    const batch = new BatchNode(inputData => [{ total: inputData.length }]);
+    engine.registerNode("StartNode", () => new EmitNode(items.slice(0, 3)));
+    engine.registerNode("FetchApiNode", () => batch);
+    const execution = await run(
+      [node("start", "StartNode"), node("batch", "FetchApiNode")],
+      [connect("start", "batch")]
+    );
+
+    assert.equal(batch.calls.length, 1);
+    assert.deepEqual(execution.results?.batch, [{ total: 3 }]);
+    assert.deepEqual(execution.itemLineage?.batch, [{ nodeId: "start", index: 0 }]);
+  });
+});
+
+describe("WorkflowEngine partial runs", () => {
+  // start -> fetch -> target -> after, with a sibling branch start -> other
+  const nodes = [
+    node("start", "StartNode"),
+    node("fetch", "FetchApiNode"),
+    node("target", "LogMessageNode", { message: "{{ total }}" }),
+    node("after", "LogMessageNode"),
+    node("other", "LogMessageNode")
+  ];
+  const connections = [connect("start", "fetch"), connect("fetch", "target"), connect("target", "after"), connect("start", "other")];
+
+  function executed(execution: Execution): string[] {
+    return messages(execution)
+      .filter(message => message.startsWith("Executing Node: "))
+      .map(message => message.split(" ")[2]);
+  }
+
+  test("getPartialNodeIds takes the node with its ancestors or its descendants", () => {
+    const workflow = { nodes, connections };
+    assert.deepEqual(getPartialNodeIds(workflow, { nodeId: "target", mode: "upTo" }), new Set(["target", "fetch", "start"]));
+    assert.deepEqual(getPartialNodeIds(workflow, { nodeId: "target", mode: "from" }), new Set(["target", "after"]));
+    assert.throws(() => getPartialNodeIds(workflow, { nodeId: "missing", mode: "from" }), { message: "Node missing not found in workflow" });
+  });
+
+  test("runs only the node's ancestors and the node itself up to it", async () => {
+    const { engine, run } = createEngine();
+    const batch = new BatchNode(() => [{ total: 1 }]);
+    engine.registerNode("FetchApiNode", () => batch);
+    const execution = await run(nodes, connections, { partial: { nodeId: "target", mode: "upTo" } });
+
+    assert.equal(execution.status, "completed");
+    assert.deepEqual(executed(execution), ["start", "fetch", "target"]);
+    assert.deepEqual(execution.nodeStatuses, { start: "success", fetch: "success", target: "success" });
+    assert.ok(messages(execution).includes("Running up to node target: start, fetch, target"));
+  });
+
+  test("reuses upstream outputs and runs the node and what follows from it", async () => {
+    const { engine, run } = createEngine();
+    let total = 0;
+    const batch = new BatchNode(() => [{ total: ++total }]);
+    engine.registerNode("FetchApiNode", () => batch);
+    const previous = await run(nodes, connections);
+    assert.equal(previous.results?.target?.[0].logMessage, 1);
+
+    const execution = await run(nodes, connections, {
+      partial: { nodeId: "target", mode: "from" },
+      reuse: { execution: previous, nodeIds: ["start", "fetch", "other"] }
+    });
+
+    assert.equal(execution.status, "completed");
+    assert.equal(batch.calls.length, 1);
+    assert.deepEqual(executed(execution), ["target", "after"]);
+    // The target ran on what fetch produced in the earlier run
+    assert.equal(execution.results?.target?.[0].logMessage, 1);
+    assert.deepEqual(execution.results?.fetch, previous.results?.fetch);
+    assert.deepEqual(execution.itemLineage?.target, [{ nodeId: "fetch", index: 0 }]);
+    assert.ok(messages(execution).includes(`Reusing results of start, fetch, other from execution ${previous.id}`));
+    assert.ok(messages(execution).includes("Running from node target: target, after"));
+  });
+
+  test("receivesReusedInput tells whether an IfNode sent items down the node's branch", async () => {
+    const { engine, run } = createEngine();
+    const ifNodes = [node("start", "StartNode"), node("if", "IfNode", { condition: "false" }), node("yes", "LogMessageNode"), node("no", "LogMessageNode")];
+    const ifConnections = [connect("start", "if"), connect("if", "yes", "true"), connect("if", "no", "false")];
+    const previous = await run(ifNodes, ifConnections);
+    const workflow = { nodes: ifNodes, connections: ifConnections };
+
+    assert.equal(engine.receivesReusedInput(workflow, previous, "no"), true);
+    assert.equal(engine.receivesReusedInput(workflow, previous, "yes"), false);
+    assert.equal(engine.receivesReusedInput(workflow, { ...previous, nodeStatuses: { ...previous.nodeStatuses, if: "error" } }, "no"), false);
+  });
+});
+
+describe("WorkflowEngine stopping", () => {
+  test("aborts the request in flight and ends the run as stopped", async () => {
+    // Requests are held until the client goes away
+    let received: () => void;
+    const requestReceived = new Promise<void>(resolve => {
+      received = resolve;
+    });
+    let closed: (aborted: boolean) => void;
+    const requestClosed = new Promise<boolean>(resolve => {
+      closed = resolve;
+    });
+    const server = createServer((req, res) => {
+      res.on("close", () => closed(!res.writableEnded));
+      received();
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const { engine, storage, registry } = createEngine();
+      const workflow = await storage.createWorkflow({
+        name: "Stopped",
+        nodes: [
+          node("start", "StartNode"),
+          node("fetch", "FetchApiNode", { url: `http://127.0.0.1:${port}/slow` }),
+          node("log", "LogMessageNode")
+        ],
+        connections: [connect("start", "fetch"), connect("fetch", "log")]
+      });
+      const { id } = await storage.createExecution({ workflowId: workflow.id, status: "running" });
+      const running = engine.executeWorkflow(workflow, id);
+
+      await requestReceived;
+      assert.equal(await registry.cancel(id), true);
+      await running;
+
+      const execution = (await storage.getExecution(id))!;
+      assert.equal(execution.status, "stopped");
+      assert.ok(execution.completedAt);
+      assert.deepEqual(execution.currentNodeIds, []);
+      assert.deepEqual(execution.nodeStatuses, { start: "success", fetch: "idle" });
+      assert.deepEqual(messages(execution, "fetch").slice(-1), ["Execution stopped while running node fetch"]);
+      assert.deepEqual(messages(execution, "log"), []);
+      assert.equal(messages(execution).at(-1), "--- Workflow Stopped ---");
+      // The client hung up without waiting for a response
+      assert.equal(await requestClosed, true);
+    } finally {
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
@@ -1,19 +1,183 @@
-import { type Workflow, type WorkflowNode, type Connection, type Execution, type INodeData, type INodeParams } from "@shared/schema";
+import { isTriggerNodeType, migrateIfNodeConnections, type Workflow, type WorkflowNode, type Connection, type Execution, type ConnectionOutput, type NodeStatus, type NodeErrorKind, type NodeRetrySettings, type PairedItem, type NodeRun, type ExecuteWorkflowOptions, type PartialExecution, type INodeData, type INodeParams } from "@shared/schema";
 import { type IStorage } from "./storage";
+import { evaluateExpression, resolveParameters, type ExpressionContext } from "./expression";
+import { executionRegistry, type ExecutionRegistry } from "./execution-registry";
+import { executionEvents, type ExecutionEventBus } from "./execution-events";
 import axios from "axios";
 
-interface INode {
-  execute(inputData: INodeData[], params: INodeParams): Promise<INodeData[]>;
+type NodeOutputs = Partial<Record<ConnectionOutput, INodeData[]>>;
+
+type NodeRunOutcome = "done" | "failed" | "stopped";
+
+// Mutable bookkeeping for one run, shared by the nodes executing in it
+interface ExecutionState {
+  workflow: Workflow;
+  executionId: string;
+  signal: AbortSignal;
+  executionResults: Record<string, INodeData[]>;
+  nodeOutputs: Record<string, NodeOutputs>;
+  nodeStatuses: Record<string, NodeStatus>;
+  itemLineage: Record<string, (PairedItem | null)[]>;
+  nodeInputs: Record<string, INodeData[]>;
+  nodeRuns: Record<string, NodeRun>;
+  runningNodeIds: string[];
+  triggerNodeId?: string;
+  triggerData?: INodeData;
+}
+
+export interface WorkflowRunOptions extends ExecuteWorkflowOptions {
+  // Trigger node that started the run; other trigger nodes are skipped
+  triggerNodeId?: string;
+  // Item handed to the trigger node, e.g. the incoming webhook request
+  triggerData?: INodeData;
+  // Nodes whose results are taken from an earlier execution instead of running them again
+  reuse?: ReusedResults;
+}
+
+export interface ReusedResults {
+  execution: Omit<Execution, "logs">;
+  nodeIds: string[];
+}
+
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Get execution order using topological sort
+ */
+export function getExecutionOrder(nodes: WorkflowNode[], connections: Connection[]): string[] {
+  const inDegree = new Map<string, number>();
+  const graph = new Map<string, string[]>();
+
+  // Initialize graph
+  for (const node of nodes) {
+    inDegree.set(node.id, 0);
+    graph.set(node.id, []);
+  }
+
+  // Build graph and calculate in-degrees
+  for (const conn of connections) {
+    if (!graph.has(conn.from) || !graph.has(conn.to)) {
+      throw new Error(`Invalid connection: ${conn.from} -> ${conn.to}`);
+    }
+    graph.get(conn.from)?.push(conn.to);
+    inDegree.set(conn.to, (inDegree.get(conn.to) || 0) + 1);
+  }
+
+  // Topological sort
+  const queue: string[] = [];
+  const executionOrder: string[] = [];
+
+  // Find nodes with no incoming edges
+  for (const [nodeId, degree] of Array.from(inDegree.entries())) {
+    if (degree === 0) {
+      queue.push(nodeId);
+    }
+  }
+
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    executionOrder.push(nodeId);
+
+    // Process neighbors
+    for (const neighborId of graph.get(nodeId) || []) {
+      inDegree.set(neighborId, inDegree.get(neighborId)! - 1);
+      if (inDegree.get(neighborId) === 0) {
+        queue.push(neighborId);
+      }
+    }
+  }
+
+  // Check for cycles
+  if (executionOrder.length !== nodes.length) {
+    throw new Error("Workflow contains a cycle and cannot be executed");
+  }
+
+  return executionOrder;
+}
+
+/**
+ * Nodes a partial execution runs: the chosen node with everything upstream
+ * of it ("upTo") or downstream of it ("from")
+ */
+export function getPartialNodeIds(workflow: Pick<Workflow, "nodes" | "connections">, partial: PartialExecution): Set<string> {
+  if (!workflow.nodes.some(n => n.id === partial.nodeId)) {
+    throw new Error(`Node ${partial.nodeId} not found in workflow`);
+  }
+
+  const nodeIds = new Set([partial.nodeId]);
+  const queue = [partial.nodeId];
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    const neighbours = partial.mode === "upTo"
+      ? workflow.connections.filter(c => c.to === nodeId).map(c => c.from)
+      : workflow.connections.filter(c => c.from === nodeId).map(c => c.to);
+    for (const neighbour of neighbours) {
+      if (!nodeIds.has(neighbour)) {
+        nodeIds.add(neighbour);
+        queue.push(neighbour);
+      }
+    }
+  }
+  return nodeIds;
+}
+
+/**
+ * Node failure classified by kind so retry policies can tell transient errors apart
+ */
+export class NodeExecutionError extends Error {
+  constructor(message: string, public readonly kind: NodeErrorKind, public readonly statusCode?: number) {
+    super(message);
+    this.name = "NodeExecutionError";
+  }
+}
+
+export interface INodeExecutionContext {
+  // Scope for parameters the node evaluates as expressions itself
+  expression: ExpressionContext;
+  // Aborted when the execution is stopped; long-running nodes should honour it
+  signal: AbortSignal;
+}
+
+export interface INode {
+  // "perItem" nodes are called once per input item, "once" nodes get every item in one call
+  readonly executionMode?: "perItem" | "once";
+  // Parameters left unresolved by the engine because the node evaluates them
+  readonly rawParams?: readonly string[];
+  execute(inputData: INodeData[], params: INodeParams, context: INodeExecutionContext): Promise<INodeData[]>;
+  // Nodes with several outputs split their items here; everything else goes to "main"
+  route?(outputData: INodeData[]): NodeOutputs;
 }
 
 class StartNode implements INode {
+  readonly executionMode = "once";
+
   async execute(inputData: INodeData[], params: INodeParams): Promise<INodeData[]> {
     return [{ startTime: new Date().toISOString(), ...params }];
   }
 }
 
+class WebhookNode implements INode {
+  readonly executionMode = "once";
+
+  async execute(inputData: INodeData[]): Promise<INodeData[]> {
+    // The request's method, headers, query and body arrive as the trigger item
+    return inputData;
+  }
+}
+
+class ScheduleTriggerNode implements INode {
+  readonly executionMode = "once";
+
+  async execute(inputData: INodeData[]): Promise<INodeData[]> {
+    // The scheduler passes the scheduled and actual fire times as the trigger item
+    return inputData;
+  }
+}
+
 class FetchApiNode implements INode {
-  async execute(inputData: INodeData[], params: INodeParams): Promise<INodeData[]> {
+  readonly executionMode = "perItem";
+
+  async execute(inputData: INodeData[], params: INodeParams, context: INodeExecutionContext): Promise<INodeData[]> {
     const { method = "GET", url, headers = {}, body } = params;
     
     if (!url) {
@@ -26,7 +190,8 @@ class FetchApiNode implements INode {
         url,
         headers,
         data: body,
-        timeout: 30000
+        timeout: 30000,
+        signal: context.signal
       });
 
       return [{
@@ -36,18 +201,28 @@ class FetchApiNode implements INode {
         inputData: inputData[0] || {}
       }];
     } catch (error: any) {
-      if (error.response) {
-        throw new Error(`HTTP ${error.response.status}: ${error.response.statusText}`);
+      if (axios.isCancel(error)) {
+        throw new NodeExecutionError("Request aborted", "other");
+      } else if (error.response) {
+        throw new NodeExecutionError(
+          `HTTP ${error.response.status}: ${error.response.statusText}`,
+          "http",
+          error.response.status
+        );
+      } else if (error.code === "ECONNABORTED" || error.code === "ETIMEDOUT") {
+        throw new NodeExecutionError("Request timed out", "timeout");
       } else if (error.request) {
-        throw new Error("No response received from server");
+        throw new NodeExecutionError("No response received from server", "network");
       } else {
-        throw new Error(`Request failed: ${error.message}`);
+        throw new NodeExecutionError(`Request failed: ${error.message}`, "other");
       }
     }
   }
 }
 
 class LogMessageNode implements INode {
+  readonly executionMode = "perItem";
+
   async execute(inputData: INodeData[], params: INodeParams): Promise<INodeData[]> {
     const { message = "Log output" } = params;
     const data = inputData[0] || {};
@@ -61,20 +236,16 @@ class LogMessageNode implements INode {
 }
 
 class IfNode implements INode {
-  async execute(inputData: INodeData[], params: INodeParams): Promise<INodeData[]> {
+  readonly executionMode = "perItem";
+  readonly rawParams = ["condition"];
+
+  async execute(inputData: INodeData[], params: INodeParams, context: INodeExecutionContext): Promise<INodeData[]> {
     const { condition = "true" } = params;
     const data = inputData[0] || {};
     
     try {
-      // Simple condition evaluation - replace {{variable}} patterns with actual values
-      let evaluableCondition = condition.replace(/\{\{([^}]+)\}\}/g, (match: string, path: string) => {
-        // Navigate nested object properties (e.g., "api_result.id")
-        const value = path.split('.').reduce((obj: any, key: string) => obj?.[key], data);
-        return JSON.stringify(value);
-      });
-
-      // Evaluate the condition safely
-      const result = eval(evaluableCondition);
+      // Conditions use the sandboxed expression language, e.g. "{{api_result.id}} === 1"
+      const result = evaluateExpression(String(condition), context.expression);
       
       return [{
         conditionResult: Boolean(result),
@@ -86,177 +257,709 @@ class IfNode implements INode {
       throw new Error(`Failed to evaluate condition "${condition}": ${error.message}`);
     }
   }
+
+  route(outputData: INodeData[]): NodeOutputs {
+    const outputs: NodeOutputs = {};
+    for (const item of outputData) {
+      const output: ConnectionOutput = item.outputPath === "true" ? "true" : "false";
+      (outputs[output] ??= []).push(item);
+    }
+    return outputs;
+  }
+}
+
+const DEFAULT_RETRY_SETTINGS: Required<NodeRetrySettings> = {
+  maxAttempts: 1,
+  baseDelayMs: 1000,
+  backoffFactor: 2,
+  jitter: 0.2,
+  retryOnErrors: ["timeout", "network"],
+  retryOnStatusCodes: [408, 429, 500, 502, 503, 504]
+};
+
+function isRetryable(error: any, policy: Required<NodeRetrySettings>): boolean {
+  const kind: NodeErrorKind = error instanceof NodeExecutionError ? error.kind : "other";
+  if (kind === "http" && policy.retryOnStatusCodes.includes(error.statusCode)) {
+    return true;
+  }
+  return policy.retryOnErrors.includes(kind);
+}
+
+/**
+ * Exponential backoff for the given failed attempt, spread by +/- jitter
+ */
+function getRetryDelay(policy: Required<NodeRetrySettings>, attempt: number): number {
+  const delay = policy.baseDelayMs * Math.pow(policy.backoffFactor, attempt - 1);
+  const spread = 1 + policy.jitter * (Math.random() * 2 - 1);
+  return Math.round(delay * spread);
+}
+
+// Waits out a retry delay, returning early when the signal aborts
+type RetryWait = (ms: number, signal: AbortSignal) => Promise<void>;
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    signal.addEventListener("abort", done, { once: true });
+
+    function done() {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+}
+
+/**
+ * Environment variables exposed to expressions as $env, limited to the
+ * comma-separated names listed in WORKFLOW_ENV_WHITELIST
+ */
+function getWhitelistedEnv(): Record<string, string> {
+  const names = (process.env.WORKFLOW_ENV_WHITELIST || "")
+    .split(",")
+    .map(name => name.trim())
+    .filter(Boolean);
+
+  const env: Record<string, string> = {};
+  for (const name of names) {
+    const value = process.env[name];
+    if (value !== undefined) {
+      env[name] = value;
+    }
+  }
+  return env;
 }
 
 export class WorkflowEngine {
   private nodeRegistry: Map<string, () => INode> = new Map();
   private storage: IStorage;
-
-  constructor(storage: IStorage) {
+  private registry: ExecutionRegistry;
+  private events: ExecutionEventBus;
+  private wait: RetryWait;
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    storage: IStorage,
+    registry: ExecutionRegistry = executionRegistry,
+    events: ExecutionEventBus = executionEvents,
+    wait: RetryWait = sleep
+  ) {
     this.storage = storage;
+    this.registry = registry;
+    this.events = events;
+    this.wait = wait;
     this.nodeRegistry.set("StartNode", () => new StartNode());
+    this.nodeRegistry.set("WebhookNode", () => new WebhookNode());
+    this.nodeRegistry.set("ScheduleTriggerNode", () => new ScheduleTriggerNode());
     this.nodeRegistry.set("FetchApiNode", () => new FetchApiNode());
     this.nodeRegistry.set("LogMessageNode", () => new LogMessageNode());
     this.nodeRegistry.set("IfNode", () => new IfNode());
   }
 
   /**
-   * Get execution order using topological sort
+   * Register the implementation of a node type, replacing the built-in one
+   */
+  registerNode(type: WorkflowNode["type"], factory: () => INode): void {
+    this.nodeRegistry.set(type, factory);
+  }
+
+  /**
+   * Follow item lineage back from `pairing` to the item it descends from in `nodeId`
    */
-  private getExecutionOrder(nodes: WorkflowNode[], connections: Connection[]): string[] {
-    const inDegree = new Map<string, number>();
-    const graph = new Map<string, string[]>();
-
-    // Initialize graph
-    for (const node of nodes) {
-      inDegree.set(node.id, 0);
-      graph.set(node.id, []);
+  private findPairedItem(state: ExecutionState, pairing: PairedItem | null, nodeId: string): INodeData | undefined {
+    while (pairing) {
+      if (pairing.nodeId === nodeId) {
+        return state.executionResults[nodeId]?.[pairing.index];
+      }
+      pairing = state.itemLineage[pairing.nodeId]?.[pairing.index] ?? null;
     }
+    return undefined;
+  }
 
-    // Build graph and calculate in-degrees
-    for (const conn of connections) {
-      if (!graph.has(conn.from) || !graph.has(conn.to)) {
-        throw new Error(`Invalid connection: ${conn.from} -> ${conn.to}`);
+  /**
+   * Build the scope node parameters are resolved against for one input item
+   */
+  private buildExpressionContext(
+    state: ExecutionState,
+    inputData: INodeData[],
+    inputSources: (PairedItem | null)[],
+    itemIndex: number
+  ): ExpressionContext {
+    const { workflow, executionId, executionResults } = state;
+    const data = inputData[itemIndex] || {};
+    const upstreamNodes: Record<string, { json: INodeData; items: INodeData[]; item?: INodeData }> = {};
+    for (const [nodeId, items] of Object.entries(executionResults)) {
+      upstreamNodes[nodeId] = {
+        json: items[0] || {},
+        items,
+        item: this.findPairedItem(state, inputSources[itemIndex] ?? null, nodeId)
+      };
+    }
+
+    return {
+      data,
+      variables: {
+        $json: data,
+        $input: inputData,
+        $itemIndex: itemIndex,
+        $node: upstreamNodes,
+        $workflow: { id: workflow.id, name: workflow.name },
+        $execution: { id: executionId },
+        $env: getWhitelistedEnv()
       }
-      graph.get(conn.from)?.push(conn.to);
-      inDegree.set(conn.to, (inDegree.get(conn.to) || 0) + 1);
+    };
+  }
+
+  /**
+   * Run a node over its input items according to its execution mode,
+   * pairing every output item with the input item it came from. Unless the
+   * node stops on errors, a failed call becomes an error item paired with
+   * the input it failed on, and the other items still run.
+   */
+  private async executeItems(
+    state: ExecutionState,
+    node: INode,
+    nodeConfig: WorkflowNode,
+    inputData: INodeData[],
+    inputSources: (PairedItem | null)[]
+  ): Promise<{ outputData: INodeData[]; lineage: (PairedItem | null)[]; errorItems: INodeData[] }> {
+    const { executionId, signal } = state;
+    const continueOnFail = (nodeConfig.settings?.onError ?? "stop") !== "stop";
+    const errorItems: INodeData[] = [];
+
+    const call = async (items: INodeData[], itemIndex: number): Promise<INodeData[]> => {
+      // Resolve {{ }} expressions in the parameters against the item
+      const expression = this.buildExpressionContext(state, inputData, inputSources, itemIndex);
+      const params = resolveParameters(nodeConfig.params || {}, expression, node.rawParams);
+      try {
+        return await this.executeWithRetry(node, nodeConfig, items, params, { expression, signal }, executionId);
+      } catch (error: any) {
+        if (!continueOnFail || signal.aborted) throw error;
+
+        const errorItem = this.toErrorItem(error, inputData[itemIndex] || {});
+        errorItems.push(errorItem);
+        const item = inputData.length > 1 ? ` (item ${itemIndex})` : "";
+        await this.addLog(executionId, "warn", `ERROR${item}: ${error.message}`, nodeConfig.id);
+        return [errorItem];
+      }
+    };
+
+    if (node.executionMode !== "perItem") {
+      const outputData = await call(inputData, 0);
+
+      // Without per-item calls, pair outputs index by index when the counts line up
+      const lineage = outputData.map((_, index) =>
+        (outputData.length === inputData.length ? inputSources[index] : inputSources[0]) ?? null
+      );
+      return { outputData, lineage, errorItems };
     }
 
-    // Topological sort
-    const queue: string[] = [];
-    const executionOrder: string[] = [];
+    const outputData: INodeData[] = [];
+    const lineage: (PairedItem | null)[] = [];
+
+    for (let itemIndex = 0; itemIndex < inputData.length; itemIndex++) {
+      if (signal.aborted) {
+        throw new Error("Execution stopped");
+      }
 
-    // Find nodes with no incoming edges
-    for (const [nodeId, degree] of Array.from(inDegree.entries())) {
-      if (degree === 0) {
-        queue.push(nodeId);
+      const itemOutput = await call([inputData[itemIndex]], itemIndex);
+      for (const item of itemOutput) {
+        outputData.push(item);
+        lineage.push(inputSources[itemIndex] ?? null);
       }
     }
 
-    while (queue.length > 0) {
-      const nodeId = queue.shift()!;
-      executionOrder.push(nodeId);
+    if (inputData.length > 1) {
+      await this.addLog(executionId, "info", `Processed ${inputData.length} items into ${outputData.length}`, nodeConfig.id);
+    }
+
+    return { outputData, lineage, errorItems };
+  }
+
+  /**
+   * Split a node's output items over its outputs. Error items skip the node's
+   * own routing and go to the error output, or to main when continuing.
+   */
+  private routeOutputs(node: INode | undefined, nodeConfig: WorkflowNode, outputData: INodeData[], errorItems: INodeData[]): NodeOutputs {
+    const items = outputData.filter(item => !errorItems.includes(item));
+    const outputs: NodeOutputs = items.length > 0 || errorItems.length === 0
+      ? (node?.route ? node.route(items) : { main: items })
+      : {};
+
+    if (errorItems.length > 0) {
+      const output: ConnectionOutput = nodeConfig.settings?.onError === "errorOutput" ? "error" : "main";
+      outputs[output] = [...(outputs[output] ?? []), ...errorItems];
+    }
+    return outputs;
+  }
+
+  /**
+   * Run a node, retrying failed attempts according to its retry settings
+   */
+  private async executeWithRetry(
+    node: INode,
+    nodeConfig: WorkflowNode,
+    inputData: INodeData[],
+    params: INodeParams,
+    context: INodeExecutionContext,
+    executionId: string
+  ): Promise<INodeData[]> {
+    const policy = { ...DEFAULT_RETRY_SETTINGS, ...nodeConfig.settings?.retry };
+
+    for (let attempt = 1; ; attempt++) {
+      if (attempt > 1) {
+        await this.addLog(executionId, "info", `Attempt ${attempt}/${policy.maxAttempts}`, nodeConfig.id);
+      }
 
-      // Process neighbors
-      for (const neighborId of graph.get(nodeId) || []) {
-        inDegree.set(neighborId, inDegree.get(neighborId)! - 1);
-        if (inDegree.get(neighborId) === 0) {
-          queue.push(neighborId);
+      try {
+        return await node.execute(inputData, params, context);
+      } catch (error: any) {
+        if (attempt >= policy.maxAttempts || context.signal.aborted || !isRetryable(error, policy)) {
+          throw error;
+        }
+
+        const delay = getRetryDelay(policy, attempt);
+        await this.addLog(
+          executionId,
+          "warn",
+          `Attempt ${attempt}/${policy.maxAttempts} failed: ${error.message}. Retrying in ${delay}ms`,
+          nodeConfig.id
+        );
+
+        await this.wait(delay, context.signal);
+        if (context.signal.aborted) {
+          throw error;
         }
       }
     }
+  }
 
-    // Check for cycles
-    if (executionOrder.length !== nodes.length) {
-      throw new Error("Workflow contains a cycle and cannot be executed");
-    }
+  /**
+   * Output item describing a failure, passed on when a node continues on fail
+   */
+  private toErrorItem(error: any, inputData: INodeData): INodeData {
+    return {
+      error: {
+        message: error.message,
+        kind: error instanceof NodeExecutionError ? error.kind : "other",
+        ...(error instanceof NodeExecutionError && error.statusCode !== undefined
+          ? { statusCode: error.statusCode }
+          : {})
+      },
+      inputData
+    };
+  }
+
+  /**
+   * Serialise execution updates so state published by nodes running in
+   * parallel lands in the order it was produced
+   */
+  private enqueueWrite<T>(write: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(write);
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
 
-    return executionOrder;
+  private updateExecution(executionId: string, update: Partial<Omit<Execution, "logs">>) {
+    return this.enqueueWrite(() => this.storage.updateExecution(executionId, update));
   }
 
   private async addLog(executionId: string, level: "info" | "error" | "warn", message: string, nodeId?: string) {
-    const execution = await this.storage.getExecution(executionId);
-    if (!execution) return;
-
-    const newLog = {
+    const log = await this.storage.appendExecutionLog(executionId, {
       timestamp: new Date().toISOString(),
       level,
       message,
       nodeId
-    };
-
-    const updatedLogs = [...execution.logs, newLog];
-    await this.storage.updateExecution(executionId, { logs: updatedLogs });
+    });
+    if (log) {
+      this.events.publish({ type: "log", executionId, log });
+    }
 
     console.log(`[${level.toUpperCase()}] ${nodeId ? `[${nodeId}] ` : ""}${message}`);
   }
 
   /**
-   * Execute workflow
+   * Publish which nodes are running and every node's status. The data of the
+   * nodes that have finished is only written with `withData`, when a node's
+   * output has changed, since it is by far the largest part of the record.
    */
-  async executeWorkflow(workflow: Workflow, executionId: string): Promise<void> {
-    try {
-      await this.addLog(executionId, "info", "--- Workflow Starting ---");
-      await this.addLog(executionId, "info", `Executing workflow: ${workflow.name}`);
+  private async publishNodeState(state: ExecutionState, withData = false) {
+    await this.updateExecution(state.executionId, {
+      currentNodeId: state.runningNodeIds[0],
+      currentNodeIds: [...state.runningNodeIds],
+      nodeStatuses: { ...state.nodeStatuses },
+      nodeRuns: { ...state.nodeRuns },
+      ...(withData ? {
+        nodeInputs: { ...state.nodeInputs },
+        results: { ...state.executionResults },
+        itemLineage: { ...state.itemLineage }
+      } : {})
+    });
+  }
 
-      const executionOrder = this.getExecutionOrder(workflow.nodes, workflow.connections);
-      await this.addLog(executionId, "info", `Execution order: ${executionOrder.join(" -> ")}`);
+  /**
+   * Tell live listeners a node has reached its final status for this run
+   */
+  private publishNodeFinished(state: ExecutionState, nodeId: string) {
+    const run = state.nodeRuns[nodeId];
+    this.events.publish({
+      type: "node-finished",
+      executionId: state.executionId,
+      nodeId,
+      status: state.nodeStatuses[nodeId] ?? "idle",
+      timestamp: run?.finishedAt ?? new Date().toISOString(),
+      durationMs: run?.durationMs ?? 0,
+      itemCount: run?.itemCount ?? 0,
+      input: state.nodeInputs[nodeId],
+      output: state.executionResults[nodeId],
+      lineage: state.itemLineage[nodeId]
+    });
+  }
 
-      const executionResults: Record<string, INodeData[]> = {};
+  /**
+   * Tell live listeners the execution has ended, with its final state
+   */
+  private publishExecutionStatus(execution: Omit<Execution, "logs">) {
+    this.events.publish({
+      type: "execution-status",
+      executionId: execution.id,
+      status: execution.status,
+      timestamp: new Date().toISOString(),
+      completedAt: execution.completedAt,
+      execution
+    });
+  }
 
-      for (const nodeId of executionOrder) {
-        // Update current node
-        await this.storage.updateExecution(executionId, { 
-          currentNodeId: nodeId 
-        });
+  /**
+   * Run a single node once all of its upstream nodes have finished
+   */
+  private async runNode(state: ExecutionState, nodeId: string): Promise<NodeRunOutcome> {
+    const { workflow, executionId, signal, executionResults, nodeOutputs, nodeStatuses } = state;
+
+    const nodeConfig = workflow.nodes.find(n => n.id === nodeId);
+    if (!nodeConfig) {
+      throw new Error(`Node configuration not found for ${nodeId}`);
+    }
+
+    // A node only runs if at least one incoming connection carries data
+    const inputConnections = workflow.connections.filter(c => c.to === nodeId);
+    const activeConnections = inputConnections.filter(
+      c => nodeOutputs[c.from]?.[c.fromOutput ?? "main"] !== undefined
+    );
+
+    if (
+      state.triggerNodeId &&
+      nodeId !== state.triggerNodeId &&
+      inputConnections.length === 0 &&
+      isTriggerNodeType(nodeConfig.type)
+    ) {
+      nodeStatuses[nodeId] = "skipped";
+      await this.publishNodeState(state);
+      this.publishNodeFinished(state, nodeId);
+      await this.addLog(executionId, "info", `Skipping Node: ${nodeConfig.id} (${nodeConfig.type}) - not the trigger of this run`, nodeId);
+      return "done";
+    }
 
-        const nodeConfig = workflow.nodes.find(n => n.id === nodeId);
-        if (!nodeConfig) {
-          throw new Error(`Node configuration not found for ${nodeId}`);
+    if (inputConnections.length > 0 && activeConnections.length === 0) {
+      nodeStatuses[nodeId] = "skipped";
+      await this.publishNodeState(state);
+      this.publishNodeFinished(state, nodeId);
+      await this.addLog(executionId, "info", `Skipping Node: ${nodeConfig.id} (${nodeConfig.type}) - no active input branch`, nodeId);
+      return "done";
+    }
+
+    // Update current nodes
+    nodeStatuses[nodeId] = "running";
+    state.runningNodeIds.push(nodeId);
+    const startedAt = Date.now();
+    state.nodeRuns[nodeId] = { startedAt: new Date(startedAt).toISOString() };
+    await this.publishNodeState(state);
+    this.events.publish({ type: "node-started", executionId, nodeId, timestamp: state.nodeRuns[nodeId].startedAt });
+
+    await this.addLog(executionId, "info", `Executing Node: ${nodeConfig.id} (${nodeConfig.type})`, nodeId);
+
+    // Get input items from the active branches of connected nodes, remembering where each came from
+    const inputData: INodeData[] = [];
+    const inputSources: (PairedItem | null)[] = [];
+
+    if (inputConnections.length > 0) {
+      for (const conn of activeConnections) {
+        for (const item of nodeOutputs[conn.from][conn.fromOutput ?? "main"]!) {
+          inputData.push(item);
+          inputSources.push({ nodeId: conn.from, index: executionResults[conn.from].indexOf(item) });
         }
+      }
+    } else {
+      inputData.push(nodeId === state.triggerNodeId && state.triggerData ? state.triggerData : {});
+      inputSources.push(null);
+    }
+    state.nodeInputs[nodeId] = inputData;
 
-        await this.addLog(executionId, "info", `Executing Node: ${nodeConfig.id} (${nodeConfig.type})`, nodeId);
+    let node: INode | undefined;
 
-        try {
-          const nodeFactory = this.nodeRegistry.get(nodeConfig.type);
-          if (!nodeFactory) {
-            throw new Error(`Node type "${nodeConfig.type}" is not registered`);
-          }
+    try {
+      const nodeFactory = this.nodeRegistry.get(nodeConfig.type);
+      if (!nodeFactory) {
+        throw new Error(`Node type "${nodeConfig.type}" is not registered`);
+      }
+
+      node = nodeFactory();
+
+      // Execute node
+      const { outputData, lineage, errorItems } = await this.executeItems(state, node, nodeConfig, inputData, inputSources);
+      executionResults[nodeConfig.id] = outputData;
+      state.itemLineage[nodeConfig.id] = lineage;
+      nodeOutputs[nodeConfig.id] = this.routeOutputs(node, nodeConfig, outputData, errorItems);
+      nodeStatuses[nodeId] = errorItems.length > 0 ? "error" : "success";
 
-          const node = nodeFactory();
+      if (errorItems.length > 0) {
+        const destination = nodeConfig.settings?.onError === "errorOutput"
+          ? "routing to error output"
+          : "continuing with errors as output";
+        await this.addLog(executionId, "warn", `${errorItems.length} item(s) failed - ${destination}`, nodeId);
+      }
+      await this.addLog(
+        executionId, 
+        "info", 
+        `Output: ${JSON.stringify(outputData, null, 2)}`, 
+        nodeId
+      );
+      return "done";
 
-          // Get input data from connected nodes
-          const inputConnections = workflow.connections.filter(c => c.to === nodeId);
-          let inputData: INodeData[] = [];
+    } catch (error: any) {
+      if (signal.aborted) {
+        nodeStatuses[nodeId] = "idle";
+        await this.addLog(executionId, "warn", `Execution stopped while running node ${nodeId}`, nodeId);
+        return "stopped";
+      }
 
-          if (inputConnections.length > 0) {
-            for (const conn of inputConnections) {
-              if (executionResults[conn.from]) {
-                inputData.push(...executionResults[conn.from]);
-              }
-            }
-          } else {
-            inputData.push({});
+      nodeStatuses[nodeId] = "error";
+      const errorMode = nodeConfig.settings?.onError ?? "stop";
+
+      if (errorMode !== "stop") {
+        // The node could not run at all, e.g. its type is not registered.
+        // Hand the error to downstream nodes as a regular item instead of failing the run.
+        const errorData = [this.toErrorItem(error, inputData[0] || {})];
+        executionResults[nodeConfig.id] = errorData;
+        state.itemLineage[nodeConfig.id] = [inputSources[0] ?? null];
+        nodeOutputs[nodeConfig.id] = this.routeOutputs(node, nodeConfig, errorData, errorData);
+
+        const destination = errorMode === "errorOutput" ? "routing to error output" : "continuing with error as output";
+        await this.addLog(executionId, "warn", `ERROR: ${error.message} - ${destination}`, nodeId);
+        return "done";
+      }
+
+      await this.addLog(executionId, "error", `ERROR: ${error.message}`, nodeId);
+      return "failed";
+
+    } finally {
+      const finishedAt = Date.now();
+      state.nodeRuns[nodeId] = {
+        ...state.nodeRuns[nodeId],
+        finishedAt: new Date(finishedAt).toISOString(),
+        durationMs: finishedAt - startedAt,
+        itemCount: executionResults[nodeId]?.length ?? 0
+      };
+      state.runningNodeIds = state.runningNodeIds.filter(id => id !== nodeId);
+      await this.publishNodeState(state, true);
+      this.publishNodeFinished(state, nodeId);
+    }
+  }
+
+  /**
+   * Split results a node produced in an earlier execution into its outputs,
+   * the way the node itself does
+   */
+  private routeReusedOutput(nodeConfig: WorkflowNode, outputData: INodeData[]): NodeOutputs {
+    const node = this.nodeRegistry.get(nodeConfig.type)?.();
+    return node?.route ? node.route(outputData) : { main: outputData };
+  }
+
+  /**
+   * Whether taking over `execution`'s results for the nodes feeding `nodeId`
+   * hands it any items. It gets none when those nodes did not succeed, or
+   * when an IfNode among them sent every item down the other branch.
+   */
+  receivesReusedInput(workflow: Pick<Workflow, "nodes" | "connections">, execution: Omit<Execution, "logs">, nodeId: string): boolean {
+    return migrateIfNodeConnections(workflow.nodes, workflow.connections).some(c => {
+      const from = workflow.nodes.find(n => n.id === c.from);
+      const outputData = execution.results?.[c.from];
+      if (c.to !== nodeId || !from || !outputData || execution.nodeStatuses?.[c.from] !== "success") return false;
+      return this.routeReusedOutput(from, outputData)[c.fromOutput ?? "main"] !== undefined;
+    });
+  }
+
+  /**
+   * Take over the output, input and lineage of nodes that succeeded in an
+   * earlier execution, as if they had just run. Returns the nodes taken over.
+   */
+  private async reuseResults(state: ExecutionState, reuse: ReusedResults): Promise<Set<string>> {
+    const { execution } = reuse;
+    const reused = new Set<string>();
+
+    for (const nodeId of reuse.nodeIds) {
+      const nodeConfig = state.workflow.nodes.find(n => n.id === nodeId);
+      const outputData = execution.results?.[nodeId];
+      if (!nodeConfig || !outputData || execution.nodeStatuses?.[nodeId] !== "success") continue;
+
+      state.executionResults[nodeId] = outputData;
+      state.nodeOutputs[nodeId] = this.routeReusedOutput(nodeConfig, outputData);
+      state.itemLineage[nodeId] = execution.itemLineage?.[nodeId] ?? [];
+      state.nodeInputs[nodeId] = execution.nodeInputs?.[nodeId] ?? [];
+      state.nodeStatuses[nodeId] = "success";
+      const run = execution.nodeRuns?.[nodeId];
+      if (run) {
+        state.nodeRuns[nodeId] = run;
+      }
+      reused.add(nodeId);
+    }
+
+    if (reused.size > 0) {
+      await this.publishNodeState(state, true);
+      await this.addLog(
+        state.executionId,
+        "info",
+        `Reusing results of ${Array.from(reused).join(", ")} from execution ${execution.id}`
+      );
+    }
+    return reused;
+  }
+
+  /**
+   * Start every node whose upstream nodes have finished, keeping at most
+   * `concurrency` nodes in flight. Ready nodes start in topological order so
+   * runs of the same workflow schedule nodes the same way. Nodes in `done`
+   * count as finished from the start.
+   */
+  private async runScheduler(
+    state: ExecutionState,
+    executionOrder: string[],
+    concurrency: number,
+    done: Set<string> = new Set()
+  ): Promise<NodeRunOutcome> {
+    const pending = new Set(executionOrder.filter(nodeId => !done.has(nodeId)));
+    const finished = new Set(done);
+    const inFlight = new Map<string, Promise<{ nodeId: string; outcome: NodeRunOutcome }>>();
+    let outcome: NodeRunOutcome = "done";
+
+    const isReady = (nodeId: string) =>
+      state.workflow.connections.filter(c => c.to === nodeId).every(c => finished.has(c.from));
+
+    while (true) {
+      // Once a node fails or the run is stopped, only wait for nodes already in flight
+      if (outcome === "done") {
+        for (const nodeId of executionOrder) {
+          if (inFlight.size >= concurrency) break;
+          if (!pending.has(nodeId) || !isReady(nodeId)) continue;
+
+          if (state.signal.aborted) {
+            await this.addLog(state.executionId, "warn", `Execution stopped before node ${nodeId}`, nodeId);
+            outcome = "stopped";
+            break;
           }
 
-          // Execute node
-          const outputData = await node.execute(inputData, nodeConfig.params || {});
-          executionResults[nodeConfig.id] = outputData;
-
-          await this.addLog(
-            executionId, 
-            "info", 
-            `Output: ${JSON.stringify(outputData, null, 2)}`, 
-            nodeId
-          );
-
-        } catch (error: any) {
-          await this.addLog(executionId, "error", `ERROR: ${error.message}`, nodeId);
-          await this.storage.updateExecution(executionId, {
-            status: "failed",
-            completedAt: new Date().toISOString(),
-            currentNodeId: undefined
-          });
-          return;
+          pending.delete(nodeId);
+          inFlight.set(nodeId, this.runNode(state, nodeId).then(result => ({ nodeId, outcome: result })));
         }
       }
 
-      // Success
-      await this.addLog(executionId, "info", "--- Workflow Finished Successfully ---");
-      await this.storage.updateExecution(executionId, {
-        status: "completed",
-        completedAt: new Date().toISOString(),
+      if (inFlight.size === 0) break;
+
+      const settled = await Promise.race(inFlight.values());
+      inFlight.delete(settled.nodeId);
+      finished.add(settled.nodeId);
+
+      if (settled.outcome !== "done" && outcome !== "stopped") {
+        outcome = settled.outcome;
+      }
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Execute workflow
+   */
+  async executeWorkflow(workflow: Workflow, executionId: string, options: WorkflowRunOptions = {}): Promise<void> {
+    workflow = { ...workflow, connections: migrateIfNodeConnections(workflow.nodes, workflow.connections) };
+    const signal = this.registry.register(executionId);
+    const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+    const state: ExecutionState = {
+      workflow,
+      executionId,
+      signal,
+      executionResults: {},
+      nodeOutputs: {},
+      nodeStatuses: {},
+      itemLineage: {},
+      nodeInputs: {},
+      nodeRuns: {},
+      runningNodeIds: [],
+      triggerNodeId: options.triggerNodeId,
+      triggerData: options.triggerData
+    };
+
+    try {
+      await this.addLog(executionId, "info", "--- Workflow Starting ---");
+      await this.addLog(executionId, "info", `Executing workflow: ${workflow.name}`);
+
+      const executionOrder = getExecutionOrder(workflow.nodes, workflow.connections);
+      await this.addLog(executionId, "info", `Execution order: ${executionOrder.join(" -> ")}`);
+      await this.addLog(executionId, "info", `Running up to ${concurrency} node(s) in parallel`);
+
+      const done = options.reuse ? await this.reuseResults(state, options.reuse) : new Set<string>();
+      if (options.partial) {
+        // Nodes outside the part being run count as finished without output
+        const partialNodeIds = getPartialNodeIds(workflow, options.partial);
+        const direction = options.partial.mode === "upTo" ? "up to" : "from";
+        await this.addLog(
+          executionId,
+          "info",
+          `Running ${direction} node ${options.partial.nodeId}: ${executionOrder.filter(id => partialNodeIds.has(id) && !done.has(id)).join(", ")}`
+        );
+        for (const nodeId of executionOrder) {
+          if (!partialNodeIds.has(nodeId)) done.add(nodeId);
+        }
+      }
+      const outcome = await this.runScheduler(state, executionOrder, concurrency, done);
+
+      if (outcome === "stopped") {
+        await this.addLog(executionId, "warn", "--- Workflow Stopped ---");
+      } else if (outcome === "done") {
+        await this.addLog(executionId, "info", "--- Workflow Finished Successfully ---");
+      }
+
+      const status = outcome === "done" ? "completed" : outcome;
+      const completedAt = new Date().toISOString();
+      const final = await this.updateExecution(executionId, {
+        status,
+        completedAt,
         currentNodeId: undefined,
-        results: executionResults
+        currentNodeIds: [],
+        results: state.executionResults,
+        nodeStatuses: state.nodeStatuses,
+        itemLineage: state.itemLineage,
+        nodeInputs: state.nodeInputs,
+        nodeRuns: state.nodeRuns
       });
+      if (final) {
+        this.publishExecutionStatus(final);
+      }
 
     } catch (error: any) {
       await this.addLog(executionId, "error", `Workflow execution failed: ${error.message}`);
-      await this.storage.updateExecution(executionId, {
+      const completedAt = new Date().toISOString();
+      const final = await this.updateExecution(executionId, {
         status: "failed",
-        completedAt: new Date().toISOString(),
-        currentNodeId: undefined
+        completedAt,
+        currentNodeId: undefined,
+        currentNodeIds: []
       });
+      if (final) {
+        this.publishExecutionStatus(final);
+      }
+    } finally {
+      this.registry.unregister(executionId);
     }
   }
 }
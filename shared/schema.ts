@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, json, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, json, jsonb, timestamp, boolean, integer, serial, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -9,51 +9,259 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
 });
 
+// Workflow graphs are stored as JSON columns; they are always read and saved whole
+export const workflows = pgTable("workflows", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  description: text("description"),
+  active: boolean("active").notNull().default(false),
+  nodes: jsonb("nodes").$type<WorkflowNode[]>().notNull(),
+  connections: jsonb("connections").$type<Connection[]>().notNull(),
+  // Latest version number; bumping it serialises concurrent saves
+  version: integer("version").notNull().default(0),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+// Every saved design of a workflow, kept as written
+export const workflowVersions = pgTable("workflow_versions", {
+  id: serial("id").primaryKey(),
+  workflowId: varchar("workflow_id").notNull().references(() => workflows.id, { onDelete: "cascade" }),
+  version: integer("version").notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  nodes: jsonb("nodes").$type<WorkflowNode[]>().notNull(),
+  connections: jsonb("connections").$type<Connection[]>().notNull(),
+  restoredFrom: integer("restored_from"),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("workflow_versions_workflow_version_idx").on(table.workflowId, table.version),
+]);
+
+export const executions = pgTable("executions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workflowId: varchar("workflow_id").notNull().references(() => workflows.id, { onDelete: "cascade" }),
+  workflowVersion: integer("workflow_version"),
+  retryOf: varchar("retry_of"),
+  status: text("status").$type<Execution["status"]>().notNull(),
+  triggerType: text("trigger_type").$type<ExecutionTriggerType>(),
+  triggerNodeId: text("trigger_node_id"),
+  startedAt: timestamp("started_at", { withTimezone: true }).notNull().defaultNow(),
+  completedAt: timestamp("completed_at", { withTimezone: true }),
+  currentNodeId: text("current_node_id"),
+  currentNodeIds: jsonb("current_node_ids").$type<string[]>(),
+  concurrency: integer("concurrency"),
+  partial: jsonb("partial").$type<PartialExecution>(),
+  results: jsonb("results").$type<Record<string, any>>(),
+  nodeStatuses: jsonb("node_statuses").$type<Record<string, NodeStatus>>(),
+  itemLineage: jsonb("item_lineage").$type<Record<string, (PairedItem | null)[]>>(),
+  nodeInputs: jsonb("node_inputs").$type<Record<string, any[]>>(),
+  nodeRuns: jsonb("node_runs").$type<Record<string, NodeRun>>(),
+  // Last log sequence number handed out; bumping it serialises concurrent appends
+  logCount: integer("log_count").notNull().default(0),
+}, (table) => [
+  index("executions_workflow_id_idx").on(table.workflowId),
+]);
+
+export const executionLogs = pgTable("execution_logs", {
+  id: serial("id").primaryKey(),
+  executionId: varchar("execution_id").notNull().references(() => executions.id, { onDelete: "cascade" }),
+  sequence: integer("sequence").notNull(),
+  timestamp: timestamp("timestamp", { withTimezone: true }).notNull(),
+  level: text("level").$type<ExecutionLog["level"]>().notNull(),
+  message: text("message").notNull(),
+  nodeId: text("node_id"),
+}, (table) => [
+  uniqueIndex("execution_logs_execution_sequence_idx").on(table.executionId, table.sequence),
+]);
+
+// Node Status Schema
+export const nodeStatusSchema = z.enum(["idle", "running", "success", "error", "skipped"]);
+
+// Error classes a node failure is sorted into, used by retry settings
+export const nodeErrorKindSchema = z.enum(["timeout", "network", "http", "other"]);
+
+// Retry policy applied by the engine around a node's execution
+export const nodeRetrySettingsSchema = z.object({
+  maxAttempts: z.number().int().min(1).max(10).optional(),
+  baseDelayMs: z.number().min(0).optional(),
+  backoffFactor: z.number().min(1).optional(),
+  jitter: z.number().min(0).max(1).optional(),
+  retryOnErrors: z.array(nodeErrorKindSchema).optional(),
+  retryOnStatusCodes: z.array(z.number().int()).optional()
+});
+
+// What the engine does when a node fails after all retries
+export const nodeErrorModeSchema = z.enum(["stop", "continue", "errorOutput"]);
+
+// Settings shared by every node type
+export const nodeSettingsSchema = z.object({
+  retry: nodeRetrySettingsSchema.optional(),
+  onError: nodeErrorModeSchema.optional()
+});
+
 // Workflow Node Schema
 export const workflowNodeSchema = z.object({
   id: z.string(),
-  type: z.enum(["StartNode", "FetchApiNode", "LogMessageNode", "IfNode"]),
+  type: z.enum(["StartNode", "WebhookNode", "ScheduleTriggerNode", "FetchApiNode", "LogMessageNode", "IfNode"]),
   position: z.object({
     x: z.number(),
     y: z.number()
   }),
   params: z.record(z.any()).optional(),
-  status: z.enum(["idle", "running", "success", "error"]).optional()
+  settings: nodeSettingsSchema.optional(),
+  status: nodeStatusSchema.optional()
 });
 
+// Node types that start an execution and take no input connections
+export const triggerNodeTypes = ["StartNode", "WebhookNode", "ScheduleTriggerNode"] as const;
+
+export function isTriggerNodeType(type: string): boolean {
+  return (triggerNodeTypes as readonly string[]).includes(type);
+}
+
+// Named output a connection leaves from. Connections without one use "main".
+export const connectionOutputSchema = z.enum(["main", "true", "false", "error"]);
+
 // Connection Schema
 export const connectionSchema = z.object({
   id: z.string(),
   from: z.string(),
-  to: z.string()
+  to: z.string(),
+  fromOutput: connectionOutputSchema.optional()
 });
 
+/**
+ * IfNode connections saved before the node had true/false outputs leave from
+ * "main", which it no longer emits on. Point them at "true" so the nodes
+ * after them keep running.
+ */
+export function migrateIfNodeConnections(nodes: WorkflowNode[], connections: Connection[]): Connection[] {
+  const ifNodeIds = new Set(nodes.filter(node => node.type === "IfNode").map(node => node.id));
+  return connections.map(connection =>
+    ifNodeIds.has(connection.from) && (connection.fromOutput ?? "main") === "main"
+      ? { ...connection, fromOutput: "true" }
+      : connection
+  );
+}
+
 // Workflow Schema
 export const workflowSchema = z.object({
   id: z.string(),
   name: z.string(),
   description: z.string().optional(),
+  // Webhooks and schedules only fire for active workflows
+  active: z.boolean().optional(),
   nodes: z.array(workflowNodeSchema),
   connections: z.array(connectionSchema),
+  // Number of the latest saved version
+  version: z.number().int().optional(),
   createdAt: z.string(),
   updatedAt: z.string()
 });
 
+// Workflow Version Schema. Versions are numbered from 1 per workflow and never change.
+export const workflowVersionSchema = z.object({
+  workflowId: z.string(),
+  version: z.number().int().min(1),
+  name: z.string(),
+  description: z.string().optional(),
+  nodes: z.array(workflowNodeSchema),
+  connections: z.array(connectionSchema),
+  // Set when the version was made by restoring an older one
+  restoredFrom: z.number().int().optional(),
+  createdAt: z.string()
+});
+
+// Points an output item at the upstream item it was produced from
+export const pairedItemSchema = z.object({
+  nodeId: z.string(),
+  index: z.number().int()
+});
+
+// Timing and size of one node's run within an execution
+export const nodeRunSchema = z.object({
+  startedAt: z.string(),
+  finishedAt: z.string().optional(),
+  durationMs: z.number().optional(),
+  itemCount: z.number().int().optional()
+});
+
+// Part of a workflow to run instead of all of it. "upTo" runs the node and
+// everything it depends on; "from" runs the node and everything after it,
+// on the data earlier nodes produced in a previous run.
+export const partialExecutionSchema = z.object({
+  nodeId: z.string(),
+  mode: z.enum(["upTo", "from"])
+});
+
+// What started an execution
+export const executionTriggerTypeSchema = z.enum(["manual", "webhook", "schedule"]);
+
+// Execution Log Schema. Sequence numbers start at 1 and increase per execution.
+export const executionLogSchema = z.object({
+  sequence: z.number().int().min(1),
+  timestamp: z.string(),
+  level: z.enum(["info", "error", "warn"]),
+  message: z.string(),
+  nodeId: z.string().optional()
+});
+
 // Execution Schema
 export const executionSchema = z.object({
   id: z.string(),
   workflowId: z.string(),
-  status: z.enum(["running", "completed", "failed", "stopped"]),
+  // Saved version of the workflow the run executed
+  workflowVersion: z.number().int().optional(),
+  // Earlier execution this one retries or re-runs
+  retryOf: z.string().optional(),
+  // "missed" records scheduled runs that could not fire while the server was down
+  status: z.enum(["running", "completed", "failed", "stopped", "missed"]),
+  triggerType: executionTriggerTypeSchema.optional(),
+  triggerNodeId: z.string().optional(),
   startedAt: z.string(),
   completedAt: z.string().optional(),
   currentNodeId: z.string().optional(),
-  logs: z.array(z.object({
-    timestamp: z.string(),
-    level: z.enum(["info", "error", "warn"]),
-    message: z.string(),
-    nodeId: z.string().optional()
-  })),
-  results: z.record(z.any()).optional()
+  currentNodeIds: z.array(z.string()).optional(),
+  concurrency: z.number().int().min(1).optional(),
+  partial: partialExecutionSchema.optional(),
+  logs: z.array(executionLogSchema),
+  results: z.record(z.any()).optional(),
+  nodeStatuses: z.record(nodeStatusSchema).optional(),
+  // Per node, the paired upstream item of each output item (null for trigger items)
+  itemLineage: z.record(z.array(pairedItemSchema.nullable())).optional(),
+  // Per node, the input items it ran with (outputs are in `results`)
+  nodeInputs: z.record(z.array(z.any())).optional(),
+  nodeRuns: z.record(nodeRunSchema).optional()
+});
+
+// Filters, order and page of GET /api/workflows/:id/executions
+export const executionListQuerySchema = z.object({
+  status: z.array(executionSchema.shape.status).optional(),
+  triggerType: z.array(executionTriggerTypeSchema).optional(),
+  startedAfter: z.string().datetime().optional(),
+  startedBefore: z.string().datetime().optional(),
+  // Case-insensitive text to look for in the run's error log lines
+  error: z.string().min(1).optional(),
+  // Runs still going have no duration and sort last either way
+  sort: z.enum(["startedAt", "duration"]).default("startedAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  // Id of the last execution on the previous page
+  cursor: z.string().optional(),
+  limit: z.number().int().min(1).max(100).default(25)
+});
+
+// Options accepted when starting an execution
+export const executeWorkflowOptionsSchema = z.object({
+  concurrency: z.number().int().min(1).max(32).optional(),
+  partial: partialExecutionSchema.optional()
+});
+
+// Options accepted when retrying or re-running an execution, which keeps the
+// part of the workflow the execution ran
+export const retryExecutionOptionsSchema = executeWorkflowOptionsSchema.omit({ partial: true }).extend({
+  // Run the workflow as it is now instead of the version the execution ran
+  useCurrentWorkflow: z.boolean().optional()
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -63,10 +271,15 @@ export const insertUserSchema = createInsertSchema(users).pick({
 
 export const insertWorkflowSchema = workflowSchema.omit({
   id: true,
+  version: true,
   createdAt: true,
   updatedAt: true
 });
 
+export const insertExecutionLogSchema = executionLogSchema.omit({
+  sequence: true
+});
+
 export const insertExecutionSchema = executionSchema.omit({
   id: true,
   startedAt: true,
@@ -78,10 +291,131 @@ export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type Workflow = z.infer<typeof workflowSchema>;
 export type InsertWorkflow = z.infer<typeof insertWorkflowSchema>;
+export type WorkflowVersion = z.infer<typeof workflowVersionSchema>;
 export type WorkflowNode = z.infer<typeof workflowNodeSchema>;
 export type Connection = z.infer<typeof connectionSchema>;
+export type ConnectionOutput = z.infer<typeof connectionOutputSchema>;
+export type NodeStatus = z.infer<typeof nodeStatusSchema>;
+export type PairedItem = z.infer<typeof pairedItemSchema>;
+export type NodeRun = z.infer<typeof nodeRunSchema>;
+export type NodeErrorKind = z.infer<typeof nodeErrorKindSchema>;
+export type NodeRetrySettings = z.infer<typeof nodeRetrySettingsSchema>;
+export type NodeSettings = z.infer<typeof nodeSettingsSchema>;
+export type NodeErrorMode = z.infer<typeof nodeErrorModeSchema>;
 export type Execution = z.infer<typeof executionSchema>;
+export type ExecutionLog = z.infer<typeof executionLogSchema>;
+export type InsertExecutionLog = z.infer<typeof insertExecutionLogSchema>;
+export type ExecutionListQuery = z.infer<typeof executionListQuerySchema>;
+
+// One page of GET /api/executions/:id/logs
+export interface ExecutionLogPage {
+  logs: ExecutionLog[];
+  // Pass as ?after= to fetch the lines that follow this page
+  nextAfter: number;
+  hasMore: boolean;
+}
+
+// One field that differs between two versions, e.g. "params.url" of a node
+export interface FieldChange {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface NodeChange {
+  nodeId: string;
+  before: WorkflowNode;
+  after: WorkflowNode;
+  changes: FieldChange[];
+}
+
+// Response of GET /api/workflows/:id/versions/diff: what changed going from
+// version `from` to version `to`
+export interface WorkflowDiff {
+  from: number;
+  to: number;
+  // Workflow-level fields: name and description
+  fields: FieldChange[];
+  nodes: {
+    added: WorkflowNode[];
+    removed: WorkflowNode[];
+    changed: NodeChange[];
+  };
+  connections: {
+    added: Connection[];
+    removed: Connection[];
+  };
+}
+
+// Latest run of a workflow, as listed by GET /api/workflows
+export type ExecutionSummary = Pick<Execution, "id" | "status" | "triggerType" | "startedAt" | "completedAt">;
+
+// Item of GET /api/workflows
+export type WorkflowSummary = Workflow & { lastExecution?: ExecutionSummary };
+
+// One run as listed by GET /api/workflows/:id/executions
+export type ExecutionListItem = ExecutionSummary & Pick<Execution, "workflowVersion" | "triggerNodeId"> & {
+  // Unset while the run is going
+  durationMs?: number;
+  // Last error the run logged
+  error?: string;
+};
+
+export interface ExecutionListPage {
+  executions: ExecutionListItem[];
+  // Pass as ?cursor= to fetch the next page; unset on the last one
+  nextCursor?: string;
+}
+
 export type InsertExecution = z.infer<typeof insertExecutionSchema>;
+export type ExecuteWorkflowOptions = z.infer<typeof executeWorkflowOptionsSchema>;
+export type RetryExecutionOptions = z.infer<typeof retryExecutionOptionsSchema>;
+export type ExecutionTriggerType = z.infer<typeof executionTriggerTypeSchema>;
+export type PartialExecution = z.infer<typeof partialExecutionSchema>;
+
+// Live events streamed to clients while an execution runs
+export type ExecutionEvent =
+  | { type: "node-started"; executionId: string; nodeId: string; timestamp: string }
+  | {
+      type: "node-finished";
+      executionId: string;
+      nodeId: string;
+      status: NodeStatus;
+      timestamp: string;
+      durationMs: number;
+      itemCount: number;
+      // What the node ran with and produced; absent when it did not run
+      input?: any[];
+      output?: any[];
+      lineage?: (PairedItem | null)[];
+    }
+  | { type: "log"; executionId: string; log: ExecutionLog }
+  | {
+      type: "execution-status";
+      executionId: string;
+      status: Execution["status"];
+      timestamp: string;
+      completedAt?: string;
+      // Final state of the execution, sent once it has ended
+      execution?: Omit<Execution, "logs">;
+    };
+
+// Messages sent over the execution WebSocket. A snapshot of the execution is
+// sent first; log lines written before it are read from GET /api/executions/:id/logs
+export type ExecutionSocketMessage =
+  | { type: "snapshot"; execution: Omit<Execution, "logs"> }
+  | ExecutionEvent;
+
+// Response of GET /api/executions/:id/nodes/:nodeId and
+// GET /api/workflows/:id/nodes/:nodeId/data (the node's latest run)
+export interface NodeRunData {
+  executionId: string;
+  nodeId: string;
+  status?: NodeStatus;
+  run?: NodeRun;
+  input: INodeData[];
+  output: INodeData[];
+}
 
 // Node execution data interface
 export interface INodeData {